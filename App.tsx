@@ -1,43 +1,66 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { Account, Transaction, TransactionType, AccountType } from './types';
-import { useFinancialContext } from './contexts/FinancialContext';
+import { Account, Transaction, TransactionType, AccountType, PreparsedImport } from './types';
+import { ToastAction, useFinancialContext } from './contexts/FinancialContext';
 import useUrlState from './hooks/useUrlState';
+import useSelection from './hooks/useSelection';
 import AccountsModal from './components/modals/AccountsModal';
 import AddTransactionModal from './components/modals/AddTransactionModal';
 import EditTransactionModal from './components/modals/EditTransactionModal';
 import ImportTransactionsModal from './components/modals/ImportTransactionsModal';
+import ImportHistoryModal from './components/modals/ImportHistoryModal';
+import DuplicatesModal from './components/modals/DuplicatesModal';
+import QuarantineModal from './components/modals/QuarantineModal';
+import VaultModal from './components/modals/VaultModal';
+import BackupModal from './components/modals/BackupModal';
+import SyncModal from './components/modals/SyncModal';
+import BooksModal from './components/modals/BooksModal';
+import TagTransactionsModal from './components/modals/TagTransactionsModal';
+import TransactionSearchBar from './components/TransactionSearchBar';
+import BulkActionBar from './components/BulkActionBar';
 import Button from './components/ui/Button';
-import { Plus, Upload, Award, Wallet, Banknote, Smartphone, ArrowDownCircle, ArrowUpCircle, Scale, Repeat, CalendarRange, Sliders, Calendar, LayoutDashboard, PieChart as PieChartIcon, Lock } from 'lucide-react';
+import { Plus, Upload, Award, Wallet, Banknote, Smartphone, ArrowDownCircle, ArrowUpCircle, Scale, Repeat, CalendarRange, Sliders, Calendar, LayoutDashboard, PieChart as PieChartIcon, Lock, History, Copy, ShieldAlert, HardDriveDownload, Undo2, Redo2, Cloud, CloudOff, BookOpen, Tag, CheckSquare } from 'lucide-react';
 import TransactionItem from './components/TransactionItem';
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip, AreaChart, Area, XAxis, YAxis, CartesianGrid, Sector } from 'recharts';
 import Logo from './components/ui/Logo';
 import Card from './components/ui/Card';
 import ReconciliationModal from './components/modals/ReconciliationModal';
 import ChatAssistant from './components/ChatAssistant';
-import { ChamaWidget, DebtWidget, LoyaltyWidget, PriceWatchWidget } from './components/DashboardWidgets';
+import { ChamaWidget, DebtWidget, LoyaltyWidget, PriceWatchWidget, TagTotalsWidget, TransferCostWidget } from './components/DashboardWidgets';
 import BudgetView from './components/BudgetView';
 import BudgetModal from './components/modals/BudgetModal';
 import OnboardingModal from './components/modals/OnboardingModal';
 import VirtualList from './components/ui/VirtualList';
 import { merchantService } from './services/merchantService';
+import { findDuplicatePairs } from './services/deduplicationService';
+import { feeTotal } from './services/feeLinkingService';
+import { categoryAmounts } from './services/splitService';
+import { collectTags } from './services/tagService';
+import { isEmptySearch, matchesSearch, parseSearchQuery, searchTerm } from './services/searchService';
+import { FEE_CATEGORY } from './constants';
+import { createId } from './services/idService';
+import { getActiveBook } from './services/bookService';
 
 // Toast Component
-const Toast: React.FC<{ message: string; show: boolean; type: 'info' | 'warning'; onDismiss: () => void }> = ({ message, show, type, onDismiss }) => {
+const Toast: React.FC<{ message: string; show: boolean; type: 'info' | 'warning'; action?: ToastAction; onDismiss: () => void }> = ({ message, show, type, action, onDismiss }) => {
     useEffect(() => {
         if (show) {
+            // Longer when there's something to click.
             const timer = setTimeout(() => {
                 onDismiss();
-            }, 3500);
+            }, action ? 6000 : 3500);
             return () => clearTimeout(timer);
         }
-    }, [show, onDismiss]);
+    }, [show, onDismiss, action]);
 
     return (
         <div className={`fixed bottom-5 right-5 z-50 transition-transform transform ${show ? 'translate-y-0' : 'translate-y-20'} ease-out duration-300`}>
             <div className={`flex items-center gap-3 text-white py-3 px-5 rounded-lg shadow-lg ${type === 'warning' ? 'bg-orange-600' : 'bg-brand-gray-800'}`}>
                 <Award className={type === 'warning' ? 'text-white' : 'text-yellow-400'} />
                 <span>{message}</span>
+                {action && (
+                    <button onClick={() => { onDismiss(); action.onClick(); }} className="ml-2 font-semibold text-yellow-300 hover:text-yellow-200 uppercase text-sm">{action.label}</button>
+                )}
             </div>
         </div>
     );
@@ -111,18 +134,28 @@ const App: React.FC = () => {
         loyaltyCards, setLoyaltyCards,
         debts, setDebts,
         chamas, setChamas,
-        categorizationExamples,
-        addTransaction, updateTransaction, deleteTransaction, updateCategory, importTransactions, addBudget, clearBudgets,
+        categorizationExamples, importProfiles, importBatches, dismissedDuplicates, quarantinedRecords,
+        addTransaction, updateTransaction, deleteTransaction, updateCategory, revertTransactionField, tagTransactions, bulkUpdateTransactions, deleteTransactions, auditRevision, importTransactions, rollbackImportBatch, mergeDuplicateTransactions, dismissDuplicatePair, linkExistingFees, deleteQuarantinedRecord, lockVault, collectBackupData, restoreBackup, undo, redo, canUndo, canRedo, runUndoable, remoteSync, resolveSyncConflict, addBudget, clearBudgets, saveImportProfile, savedSearches, saveSearch, deleteSavedSearch,
         notification, dismissNotification
     } = useFinancialContext();
 
     // URL State for Persistence
     const [activeTab, setActiveTab] = useUrlState<Tab>('tab', 'overview');
     const [selectedPeriod, setSelectedPeriod] = useUrlState<Period>('period', 'this_month');
+    const [searchQuery, setSearchQuery] = useUrlState<string>('q', '');
 
     const [isAccountModalOpen, setIsAccountModalOpen] = useState(false);
     const [isTransactionModalOpen, setIsTransactionModalOpen] = useState(false);
     const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+    const [isImportHistoryOpen, setIsImportHistoryOpen] = useState(false);
+    const [isDuplicatesModalOpen, setIsDuplicatesModalOpen] = useState(false);
+    const [isQuarantineModalOpen, setIsQuarantineModalOpen] = useState(false);
+    const [isVaultModalOpen, setIsVaultModalOpen] = useState(false);
+    const [isBackupModalOpen, setIsBackupModalOpen] = useState(false);
+    const [isSyncModalOpen, setIsSyncModalOpen] = useState(false);
+    const [isBooksModalOpen, setIsBooksModalOpen] = useState(false);
+    // Re-read when the books modal closes, in case the book was renamed.
+    const activeBook = useMemo(getActiveBook, [isBooksModalOpen]);
     const [isOnboardingImport, setIsOnboardingImport] = useState(false);
     const [isReconciliationModalOpen, setIsReconciliationModalOpen] = useState(false);
     const [isEditModalOpen, setIsEditModalOpen] = useState(false);
@@ -130,6 +163,9 @@ const App: React.FC = () => {
     const [isOnboardingModalOpen, setIsOnboardingModalOpen] = useState(false);
 
     const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+    const [isTagModalOpen, setIsTagModalOpen] = useState(false);
+    const [isSelecting, setIsSelecting] = useState(false);
+    const [preparsedImport, setPreparsedImport] = useState<PreparsedImport | null>(null);
     const [pieGranularity, setPieGranularity] = useState<number>(5);
     const [activePieIndex, setActivePieIndex] = useState<number | null>(null);
 
@@ -180,21 +216,45 @@ const App: React.FC = () => {
         }).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
     }, [transactions, selectedPeriod]);
 
+    // The search narrows the list only; totals and charts still cover the whole period.
+    const parsedSearch = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+    const listedTransactions = useMemo(() => isEmptySearch(parsedSearch.search)
+        ? filteredTransactions
+        : filteredTransactions.filter(t => matchesSearch(t, parsedSearch.search, accounts)), [filteredTransactions, parsedSearch, accounts]);
+
+    const knownTags = useMemo(() => collectTags(transactions), [transactions]);
+
+    const selection = useSelection(listedTransactions);
+    const selectedTransactions = useMemo(() => listedTransactions.filter(t => selection.selectedIds.has(t.id)), [listedTransactions, selection.selectedIds]);
+    // Bulk tagging works on the selection while selecting, otherwise on the whole list.
+    const tagTargets = isSelecting ? selectedTransactions : listedTransactions;
+
+    const selectedIds = selectedTransactions.map(t => t.id);
+
+    const stopSelecting = () => {
+        setIsSelecting(false);
+        selection.clear();
+    };
+
     const accountBalances = useMemo(() => {
         const balances: Record<string, number> = {};
         accounts.forEach(acc => { balances[acc.id] = acc.initialBalance; });
         [...transactions].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()).forEach(tx => {
             if (balances[tx.accountId] !== undefined) {
-                balances[tx.accountId] += tx.type === TransactionType.Income ? tx.amount : -tx.amount;
+                balances[tx.accountId] += (tx.type === TransactionType.Income ? tx.amount : -tx.amount) - feeTotal(tx);
             }
         });
         return balances;
     }, [accounts, transactions]);
 
+    const duplicatePairs = useMemo(() => findDuplicatePairs(transactions, dismissedDuplicates), [transactions, dismissedDuplicates]);
+
     const totalBalance = useMemo(() => Object.values(accountBalances).reduce((sum, bal) => sum + bal, 0), [accountBalances]);
 
     const stats = useMemo(() => {
         return filteredTransactions.reduce((acc, tx) => {
+            // Fees on a transfer between own accounts are still money spent.
+            acc.expense += feeTotal(tx);
             if (tx.isTransfer) return acc;
             const amount = typeof tx.amount === 'number' ? tx.amount : (Number(tx.amount) || 0);
             if (tx.type === TransactionType.Income) acc.income += amount;
@@ -210,11 +270,14 @@ const App: React.FC = () => {
         const weekFormatter = new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric' });
 
         [...filteredTransactions].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()).forEach(tx => {
-            if (tx.isTransfer) return;
+            const fees = feeTotal(tx);
+            if (tx.isTransfer && fees === 0) return;
             const key = isLongPeriod ? getStartOfMonth(tx.date) : getStartOfWeek(tx.date);
             const label = isLongPeriod ? monthFormatter.format(new Date(key)) : weekFormatter.format(new Date(key));
 
             if (!trends[key]) trends[key] = { income: 0, expense: 0, name: label, sortDate: key };
+            trends[key].expense += fees;
+            if (tx.isTransfer) return;
             const amount = typeof tx.amount === 'number' ? tx.amount : (Number(tx.amount) || 0);
             if (tx.type === 'income') trends[key].income += amount;
             else trends[key].expense += amount;
@@ -223,9 +286,12 @@ const App: React.FC = () => {
     }, [filteredTransactions, selectedPeriod]);
 
     const expenseData = useMemo(() => filteredTransactions
-        .filter(t => t.type === 'expense' && !t.isTransfer)
         .reduce((acc, t) => {
-            acc[t.category] = (acc[t.category] || 0) + (typeof t.amount === 'number' ? t.amount : (Number(t.amount) || 0));
+            const fees = feeTotal(t);
+            if (fees !== 0) acc[FEE_CATEGORY] = (acc[FEE_CATEGORY] || 0) + fees;
+            if (t.type === 'expense' && !t.isTransfer) {
+                categoryAmounts(t).forEach(({ category, amount }) => { acc[category] = (acc[category] || 0) + amount; });
+            }
             return acc;
         }, {} as Record<string, number>), [filteredTransactions]);
 
@@ -253,7 +319,11 @@ const App: React.FC = () => {
     };
 
     const handleAddAccount = (accountData: Omit<Account, 'id'>) => {
-        setAccounts(prev => [...prev, { ...accountData, id: Date.now().toString() }]);
+        setAccounts(prev => [...prev, { ...accountData, id: createId() }]);
+    };
+
+    const handleSetInitialBalance = (accountId: string, initialBalance: number) => {
+        setAccounts(prev => prev.map(acc => acc.id === accountId ? { ...acc, initialBalance } : acc));
     };
 
     const handleReconcileTransactions = (pairs: string[][]) => {
@@ -270,6 +340,9 @@ const App: React.FC = () => {
             onUpdateCategory={updateCategory}
             onEdit={(t) => { setEditingTransaction(t); setIsEditModalOpen(true); }}
             categories={categories}
+            isSelecting={isSelecting}
+            isSelected={selection.isSelected(tx.id)}
+            onToggleSelect={(extend) => selection.toggle(index, extend)}
         />
     );
 
@@ -281,6 +354,7 @@ const App: React.FC = () => {
                         <div className="flex items-center gap-3">
                             <Logo className="h-9 w-9" />
                             <span className="text-xl font-bold text-brand-gray-800 hidden sm:block">Shilling Sense</span>
+                            <Button onClick={() => setIsBooksModalOpen(true)} size="sm" variant="ghost" title="Switch book"><BookOpen className="mr-0 sm:mr-2 h-4 w-4" /><span className="hidden sm:inline max-w-[10rem] truncate">{activeBook.name}</span></Button>
                         </div>
 
                         <div className="flex bg-brand-gray-100 rounded-lg p-1">
@@ -289,7 +363,23 @@ const App: React.FC = () => {
                         </div>
 
                         <div className="flex items-center gap-2">
+                            <Button onClick={undo} disabled={!canUndo} size="sm" variant="ghost" title="Undo (Ctrl+Z)"><Undo2 className="h-4 w-4" /></Button>
+                            <Button onClick={redo} disabled={!canRedo} size="sm" variant="ghost" title="Redo (Ctrl+Shift+Z)"><Redo2 className="h-4 w-4" /></Button>
                             <Button onClick={() => setIsReconciliationModalOpen(true)} disabled={transactions.length < 2} size="sm" variant="ghost"><Repeat className="mr-0 sm:mr-2 h-4 w-4" /><span className="hidden sm:inline">Reconcile</span></Button>
+                            {duplicatePairs.length > 0 && (
+                                <Button onClick={() => setIsDuplicatesModalOpen(true)} size="sm" variant="ghost" title="Possible duplicates"><Copy className="mr-0 sm:mr-2 h-4 w-4 text-orange-500" /><span className="hidden sm:inline">{duplicatePairs.length} Duplicate{duplicatePairs.length === 1 ? '' : 's'}?</span></Button>
+                            )}
+                            {quarantinedRecords.length > 0 && (
+                                <Button onClick={() => setIsQuarantineModalOpen(true)} size="sm" variant="ghost" title="Records set aside during a data update"><ShieldAlert className="mr-0 sm:mr-2 h-4 w-4 text-orange-500" /><span className="hidden sm:inline">{quarantinedRecords.length} Set Aside</span></Button>
+                            )}
+                            <Button onClick={() => setIsSyncModalOpen(true)} size="sm" variant="ghost" title={remoteSync.conflicts.length > 0 ? `Sync: ${remoteSync.conflicts.length} edits to review` : 'Sync between devices'}>
+                                {remoteSync.status === 'error' || remoteSync.status === 'offline'
+                                    ? <CloudOff className="h-4 w-4 text-orange-500" />
+                                    : <Cloud className={`h-4 w-4 ${remoteSync.conflicts.length > 0 ? 'text-orange-500' : ''}`} />}
+                            </Button>
+                            <Button onClick={() => setIsBackupModalOpen(true)} size="sm" variant="ghost" title="Backup and restore"><HardDriveDownload className="h-4 w-4" /></Button>
+                            <Button onClick={() => setIsVaultModalOpen(true)} size="sm" variant="ghost" title="Vault and passphrase"><Lock className="h-4 w-4" /></Button>
+                            <Button onClick={() => setIsImportHistoryOpen(true)} disabled={importBatches.length === 0} size="sm" variant="ghost" title="Import history"><History className="h-4 w-4" /></Button>
                             <Button onClick={() => setIsImportModalOpen(true)} disabled={accounts.length === 0} size="sm" variant="secondary"><Upload className="mr-0 sm:mr-2 h-4 w-4" /><span className="hidden sm:inline">Import</span></Button>
                             <Button onClick={() => setIsTransactionModalOpen(true)} disabled={accounts.length === 0} size="sm"><Plus className="mr-0 sm:mr-2 h-4 w-4" /><span className="hidden sm:inline">New Transaction</span></Button>
                         </div>
@@ -359,10 +449,12 @@ const App: React.FC = () => {
                                 )}
 
                                 <div className="col-span-12 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-                                    <LoyaltyWidget cards={loyaltyCards} onAdd={card => setLoyaltyCards(prev => [...prev, card])} onDelete={id => setLoyaltyCards(prev => prev.filter(c => c.id !== id))} />
-                                    <DebtWidget debts={debts} onAdd={debt => setDebts(prev => [...prev, debt])} onDelete={id => setDebts(prev => prev.filter(d => d.id !== id))} />
+                                    <LoyaltyWidget cards={loyaltyCards} onAdd={card => setLoyaltyCards(prev => [...prev, card])} onDelete={id => runUndoable('Loyalty card deleted', () => setLoyaltyCards(prev => prev.filter(c => c.id !== id)))} />
+                                    <DebtWidget debts={debts} onAdd={debt => setDebts(prev => [...prev, debt])} onDelete={id => runUndoable('Debt deleted', () => setDebts(prev => prev.filter(d => d.id !== id)))} />
                                     <ChamaWidget chamas={chamas} onAdd={chama => setChamas(prev => [...prev, chama])} />
                                     <PriceWatchWidget transactions={transactions} />
+                                    <TransferCostWidget transactions={filteredTransactions} accounts={accounts} onLinkExisting={linkExistingFees} />
+                                    <TagTotalsWidget transactions={filteredTransactions} onSelectTag={tag => setSearchQuery(searchTerm('tag', tag))} />
                                 </div>
 
                                 <Card className="col-span-12 lg:col-span-12 p-6">
@@ -414,12 +506,49 @@ const App: React.FC = () => {
                                             </div>
                                         </Card>
 
-                                        <Card className="col-span-12 lg:col-span-7 flex flex-col h-[500px]">
-                                            <div className="p-6 border-b border-brand-gray-200 flex-shrink-0"><h2 className="text-lg font-semibold text-brand-gray-800">Recent Transactions ({PERIOD_LABELS[selectedPeriod]})</h2></div>
+                                        <Card className="col-span-12 lg:col-span-7 flex flex-col min-h-[500px]">
+                                            <div className="p-6 border-b border-brand-gray-200 flex-shrink-0 space-y-3">
+                                                <div className="flex flex-wrap gap-2 justify-between items-center">
+                                                    <h2 className="text-lg font-semibold text-brand-gray-800">
+                                                        Recent Transactions ({PERIOD_LABELS[selectedPeriod]})
+                                                        {!isEmptySearch(parsedSearch.search) && <span className="ml-2 text-sm font-normal text-brand-gray-500">{listedTransactions.length} found</span>}
+                                                    </h2>
+                                                    {!isSelecting && (
+                                                        <div className="flex items-center gap-1">
+                                                            <Button variant="ghost" size="sm" onClick={() => setIsSelecting(true)} disabled={listedTransactions.length === 0} title="Select transactions to change several at once"><CheckSquare className="h-4 w-4" /></Button>
+                                                            <Button variant="ghost" size="sm" onClick={() => setIsTagModalOpen(true)} disabled={listedTransactions.length === 0} title="Tag every transaction in this list"><Tag className="h-4 w-4" /></Button>
+                                                        </div>
+                                                    )}
+                                                </div>
+                                                <TransactionSearchBar
+                                                    query={searchQuery}
+                                                    onQueryChange={setSearchQuery}
+                                                    errors={parsedSearch.errors}
+                                                    savedSearches={savedSearches}
+                                                    onSaveSearch={saveSearch}
+                                                    onDeleteSavedSearch={deleteSavedSearch}
+                                                />
+                                                {isSelecting && (
+                                                    <BulkActionBar
+                                                        selectedCount={selectedTransactions.length}
+                                                        listedCount={listedTransactions.length}
+                                                        onSelectAll={selection.selectAll}
+                                                        onClear={selection.clear}
+                                                        onDone={stopSelecting}
+                                                        categories={categories}
+                                                        accounts={accounts}
+                                                        onRecategorise={category => bulkUpdateTransactions(selectedIds, { category })}
+                                                        onMoveAccount={accountId => bulkUpdateTransactions(selectedIds, { accountId })}
+                                                        onMarkTransfer={isTransfer => bulkUpdateTransactions(selectedIds, { isTransfer })}
+                                                        onTag={() => setIsTagModalOpen(true)}
+                                                        onDelete={() => { deleteTransactions(selectedIds); selection.clear(); }}
+                                                    />
+                                                )}
+                                            </div>
                                             <div className="flex-1 p-0">
-                                                {filteredTransactions.length > 0 ? (
+                                                {listedTransactions.length > 0 ? (
                                                     <VirtualList
-                                                        items={filteredTransactions}
+                                                        items={listedTransactions}
                                                         itemHeight={72}
                                                         containerHeight={430}
                                                         renderItem={renderTransactionItem}
@@ -465,7 +594,7 @@ const App: React.FC = () => {
                         <BudgetView
                             budgets={budgets} transactions={transactions} userProfile={userProfile}
                             onAddBudget={addBudget}
-                            onDelete={id => setBudgets(prev => prev.filter(b => b.id !== id))}
+                            onDelete={id => runUndoable('Budget deleted', () => setBudgets(prev => prev.filter(b => b.id !== id)))}
                             onEdit={() => setIsBudgetModalOpen(true)}
                             onClearAll={clearBudgets}
                         />
@@ -482,32 +611,81 @@ const App: React.FC = () => {
                 <EditTransactionModal
                     isOpen={isEditModalOpen}
                     onClose={() => { setIsEditModalOpen(false); setEditingTransaction(null); }}
-                    transaction={editingTransaction}
+                    transaction={transactions.find(t => t.id === editingTransaction.id) ?? editingTransaction}
                     onSave={updateTransaction}
                     onDelete={deleteTransaction}
                     accounts={accounts}
                     categories={categories}
                     setCategories={setCategories}
+                    onRevertField={revertTransactionField}
+                    auditRevision={auditRevision}
+                    knownTags={knownTags}
                 />
             )}
 
+            <TagTransactionsModal
+                isOpen={isTagModalOpen}
+                onClose={() => setIsTagModalOpen(false)}
+                transactions={tagTargets}
+                knownTags={knownTags}
+                onApply={tagTransactions}
+            />
+
             <ImportTransactionsModal
                 isOpen={isImportModalOpen}
-                onClose={() => { setIsImportModalOpen(false); setIsOnboardingImport(false); }}
+                onClose={() => { setIsImportModalOpen(false); setIsOnboardingImport(false); setPreparsedImport(null); }}
                 onImport={importTransactions}
                 accounts={accounts}
+                transactions={transactions}
+                onSetInitialBalance={handleSetInitialBalance}
                 categorizationExamples={categorizationExamples}
                 categories={categories}
+                importProfiles={importProfiles}
+                onSaveImportProfile={saveImportProfile}
                 isInitialOnboarding={isOnboardingImport}
+                preparsed={preparsedImport}
+            />
+
+            <ImportHistoryModal
+                isOpen={isImportHistoryOpen}
+                onClose={() => setIsImportHistoryOpen(false)}
+                batches={importBatches}
+                transactions={transactions}
+                accounts={accounts}
+                onRollback={rollbackImportBatch}
             />
 
+            <DuplicatesModal
+                isOpen={isDuplicatesModalOpen}
+                onClose={() => setIsDuplicatesModalOpen(false)}
+                pairs={duplicatePairs}
+                accounts={accounts}
+                onMerge={mergeDuplicateTransactions}
+                onDismiss={dismissDuplicatePair}
+            />
+
+            <QuarantineModal
+                isOpen={isQuarantineModalOpen}
+                onClose={() => setIsQuarantineModalOpen(false)}
+                records={quarantinedRecords}
+                onDelete={deleteQuarantinedRecord}
+            />
+
+            <BackupModal isOpen={isBackupModalOpen} onClose={() => setIsBackupModalOpen(false)} collectData={collectBackupData} onRestore={restoreBackup} />
+
+            <BooksModal isOpen={isBooksModalOpen} onClose={() => setIsBooksModalOpen(false)} accounts={accounts} transactions={transactions} debts={debts} />
+
+            <SyncModal isOpen={isSyncModalOpen} onClose={() => setIsSyncModalOpen(false)} remoteSync={remoteSync} onResolveConflict={resolveSyncConflict} />
+
+            <VaultModal isOpen={isVaultModalOpen} onClose={() => setIsVaultModalOpen(false)} onLock={lockVault} />
+
             {accounts.length > 0 && (
                 <>
-                    <AddTransactionModal isOpen={isTransactionModalOpen} onClose={() => setIsTransactionModalOpen(false)} onAdd={addTransaction} accounts={accounts} categorizationExamples={categorizationExamples} />
+                    <AddTransactionModal isOpen={isTransactionModalOpen} onClose={() => setIsTransactionModalOpen(false)} onAdd={addTransaction} onBulkReview={(preparsed) => { setPreparsedImport(preparsed); setIsImportModalOpen(true); }} accounts={accounts} categorizationExamples={categorizationExamples} />
                     <ChatAssistant contextData={{ transactions, loyaltyCards, debts, chamas }} />
                 </>
             )}
-            <Toast message={notification.message} show={notification.show} type={notification.type} onDismiss={dismissNotification} />
+            <Toast message={notification.message} show={notification.show} type={notification.type} action={notification.action} onDismiss={dismissNotification} />
         </div>
     );
 };
@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, Paperclip, X } from 'lucide-react';
+import { Attachment } from '../types';
+import Spinner from './ui/Spinner';
+import { ATTACHMENT_ACCEPT, createAttachment, formatFileSize, openAttachment } from '../services/attachmentService';
+import { loadAttachments, saveAttachment } from '../services/storageService';
+
+interface AttachmentListProps {
+  attachmentIds: string[];
+  // Called with the new list after files are added (already saved) or one is taken off.
+  onChange: (attachmentIds: string[]) => void;
+}
+
+const AttachmentList: React.FC<AttachmentListProps> = ({ attachmentIds, onChange }) => {
+  const [attachments, setAttachments] = useState<Attachment[] | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const idsKey = attachmentIds.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAttachments(attachmentIds)
+      .then(loaded => { if (!cancelled) setAttachments(loaded); })
+      .catch(err => { console.error(err); if (!cancelled) setAttachments([]); });
+    return () => { cancelled = true; };
+  }, [idsKey]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsAdding(true);
+    setError(null);
+    const added: string[] = [];
+    try {
+      for (const file of Array.from(files)) {
+        const attachment = await createAttachment(file);
+        await saveAttachment(attachment);
+        added.push(attachment.id);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't attach the file.");
+    } finally {
+      setIsAdding(false);
+      if (added.length > 0) onChange([...attachmentIds, ...added]);
+    }
+  };
+
+  const handleOpen = (attachment: Attachment) => {
+    openAttachment(attachment).catch(err => setError(err instanceof Error ? err.message : "Couldn't open the file."));
+  };
+
+  const missingCount = attachments ? attachmentIds.length - attachments.length : 0;
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2">
+        {attachments === null ? <Spinner size="sm" /> : attachments.map(attachment => (
+          <div key={attachment.id} className="relative w-20">
+            <button type="button" onClick={() => handleOpen(attachment)} className="block w-20 h-20 rounded-md border border-brand-gray-200 overflow-hidden bg-brand-gray-50 hover:border-brand-green" title={`Open ${attachment.name}`}>
+              {attachment.thumbnailUrl
+                ? <img src={attachment.thumbnailUrl} alt={attachment.name} className="w-full h-full object-cover" />
+                : <FileText className="h-8 w-8 m-auto text-brand-gray-400" />}
+            </button>
+            <p className="text-[10px] text-brand-gray-600 truncate mt-0.5" title={attachment.name}>{attachment.name}</p>
+            <p className="text-[10px] text-brand-gray-400">{formatFileSize(attachment.size)}</p>
+            <button type="button" onClick={() => onChange(attachmentIds.filter(id => id !== attachment.id))} className="absolute -top-1.5 -right-1.5 rounded-full bg-white border border-brand-gray-300 p-0.5 text-brand-gray-500 hover:text-red-600" aria-label={`Remove ${attachment.name}`}>
+              <X size={10} />
+            </button>
+          </div>
+        ))}
+        <label className={`w-20 h-20 rounded-md border border-dashed border-brand-gray-300 flex flex-col items-center justify-center gap-1 text-[10px] text-brand-gray-500 ${isAdding ? '' : 'cursor-pointer hover:border-brand-green hover:text-brand-green'}`}>
+          {isAdding ? <Spinner size="sm" /> : <><Paperclip size={16} /> Attach</>}
+          <input type="file" className="sr-only" accept={ATTACHMENT_ACCEPT} multiple disabled={isAdding} onChange={e => { handleFiles(e.target.files); e.target.value = ''; }} />
+        </label>
+      </div>
+      {missingCount > 0 && <p className="text-xs text-brand-gray-500 mt-1">{missingCount} attachment{missingCount === 1 ? ' is' : 's are'} stored on another device.</p>}
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default AttachmentList;
@@ -5,6 +5,9 @@ import StrategyCard from './StrategyCard';
 import Button from './ui/Button';
 import { Plus, Target, Sparkles, Loader2 } from 'lucide-react';
 import { generateStrategies } from '../services/strategyService';
+import { categoryAmounts } from '../services/splitService';
+import { feeTotal } from '../services/feeLinkingService';
+import { FEE_CATEGORY } from '../constants';
 import { useFinancialContext } from '../contexts/FinancialContext';
 
 interface BudgetViewProps {
@@ -31,13 +34,12 @@ const BudgetView: React.FC<BudgetViewProps> = ({ budgets, transactions, userProf
 
         transactions.forEach(t => {
             const tDate = new Date(t.date);
-            if (
-                t.type === TransactionType.Expense &&
-                !t.isTransfer &&
-                tDate.getMonth() === currentMonth &&
-                tDate.getFullYear() === currentYear
-            ) {
-                map[t.category] = (map[t.category] || 0) + t.amount;
+            if (tDate.getMonth() !== currentMonth || tDate.getFullYear() !== currentYear) return;
+            // Linked bank charges and duty count as spending, even on transfers and income.
+            const fees = feeTotal(t);
+            if (fees !== 0) map[FEE_CATEGORY] = (map[FEE_CATEGORY] || 0) + fees;
+            if (t.type === TransactionType.Expense && !t.isTransfer) {
+                categoryAmounts(t).forEach(({ category, amount }) => { map[category] = (map[category] || 0) + amount; });
             }
         });
         return map;
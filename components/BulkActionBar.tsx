@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { ArrowLeftRight, Check, FolderInput, Tag, Trash2, Wallet } from 'lucide-react';
+import { Account, Category } from '../types';
+import Button from './ui/Button';
+import CategoryEditor from './CategoryEditor';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  listedCount: number;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onDone: () => void;
+  categories: Category[];
+  accounts: Account[];
+  onRecategorise: (category: Category) => void;
+  onMoveAccount: (accountId: string) => void;
+  onMarkTransfer: (isTransfer: boolean) => void;
+  onTag: () => void;
+  onDelete: () => void;
+}
+
+type OpenAction = 'category' | 'account' | null;
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount, listedCount, onSelectAll, onClear, onDone, categories, accounts,
+  onRecategorise, onMoveAccount, onMarkTransfer, onTag, onDelete,
+}) => {
+  const [openAction, setOpenAction] = useState<OpenAction>(null);
+  const [category, setCategory] = useState('');
+  const [accountId, setAccountId] = useState(accounts[0]?.id || '');
+  const none = selectedCount === 0;
+
+  const toggleAction = (action: OpenAction) => setOpenAction(current => current === action ? null : action);
+
+  const handleRecategorise = () => {
+    if (!category.trim()) return;
+    onRecategorise(category.trim());
+    setCategory('');
+    setOpenAction(null);
+  };
+
+  const handleMove = () => {
+    if (!accountId) return;
+    onMoveAccount(accountId);
+    setOpenAction(null);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete ${selectedCount} transaction${selectedCount === 1 ? '' : 's'}? You can undo this straight afterwards.`)) onDelete();
+  };
+
+  return (
+    <div className="rounded-md border border-brand-green/30 bg-brand-green-50/50 p-2 space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium text-brand-gray-800">{selectedCount} selected</span>
+        {selectedCount < listedCount && (
+          <button type="button" onClick={onSelectAll} className="text-xs text-brand-green hover:underline">Select all {listedCount} listed</button>
+        )}
+        {selectedCount > 0 && <button type="button" onClick={onClear} className="text-xs text-brand-gray-500 hover:underline">Clear</button>}
+        <span className="text-xs text-brand-gray-400 hidden sm:inline">Shift-click to select a range.</span>
+        <Button size="sm" variant="ghost" className="ml-auto" onClick={onDone}>Done</Button>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        <Button size="sm" variant="secondary" disabled={none} onClick={() => toggleAction('category')}><FolderInput className="h-4 w-4 mr-1" /> Category</Button>
+        <Button size="sm" variant="secondary" disabled={none || accounts.length < 2} onClick={() => toggleAction('account')}><Wallet className="h-4 w-4 mr-1" /> Account</Button>
+        <Button size="sm" variant="secondary" disabled={none} onClick={() => onMarkTransfer(true)} title="Mark as transfers between your own accounts"><ArrowLeftRight className="h-4 w-4 mr-1" /> Transfer</Button>
+        <Button size="sm" variant="secondary" disabled={none} onClick={() => onMarkTransfer(false)} title="Count them as income and spending again">Not transfer</Button>
+        <Button size="sm" variant="secondary" disabled={none} onClick={onTag}><Tag className="h-4 w-4 mr-1" /> Tag</Button>
+        <Button size="sm" variant="ghost" className="text-red-600 hover:bg-red-50" disabled={none} onClick={handleDelete} aria-label="Delete selected"><Trash2 className="h-4 w-4" /></Button>
+      </div>
+      {openAction === 'category' && !none && (
+        <form className="flex gap-2" onSubmit={(e) => { e.preventDefault(); handleRecategorise(); }}>
+          <div className="flex-1"><CategoryEditor value={category} onChange={setCategory} onBlur={() => {}} categories={categories} /></div>
+          <Button type="submit" size="sm" disabled={!category.trim()}><Check className="h-4 w-4" /></Button>
+        </form>
+      )}
+      {openAction === 'account' && !none && (
+        <form className="flex gap-2" onSubmit={(e) => { e.preventDefault(); handleMove(); }}>
+          <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className="flex-1 rounded-md border-brand-gray-300 text-sm py-1" aria-label="Move to account">
+            {accounts.map(account => <option key={account.id} value={account.id}>{account.name}</option>)}
+          </select>
+          <Button type="submit" size="sm" disabled={!accountId}><Check className="h-4 w-4" /></Button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
@@ -7,9 +7,10 @@ interface CategoryEditorProps {
   onChange: (newCategory: Category) => void;
   onBlur: () => void;
   categories: Category[];
+  autoFocus?: boolean;
 }
 
-const CategoryEditor: React.FC<CategoryEditorProps> = ({ value, onChange, onBlur, categories }) => {
+const CategoryEditor: React.FC<CategoryEditorProps> = ({ value, onChange, onBlur, categories, autoFocus = true }) => {
   const datalistId = React.useId();
   return (
     <>
@@ -18,7 +19,7 @@ const CategoryEditor: React.FC<CategoryEditorProps> = ({ value, onChange, onBlur
         value={value}
         onChange={(e) => onChange(e.target.value)}
         onBlur={onBlur}
-        autoFocus
+        autoFocus={autoFocus}
         className="block w-full rounded-md border-brand-gray-300 shadow-sm focus:border-brand-green focus:ring-brand-green sm:text-sm p-1"
       />
       <datalist id={datalistId}>
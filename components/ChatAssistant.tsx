@@ -4,6 +4,7 @@ import { MessageSquare, X, Send, Sparkles, TrendingUp, AlertCircle, PieChart } f
 import Button from './ui/Button';
 import { AppContextData } from '../types';
 import { createFinancialChatSession } from '../services/geminiService';
+import { createId } from '../services/idService';
 import { Chat, GenerateContentResponse } from '@google/genai';
 
 interface ChatAssistantProps {
@@ -50,7 +51,7 @@ const ChatAssistant: React.FC<ChatAssistantProps> = ({ contextData }) => {
     const textToSend = textOverride || input;
     if (!textToSend.trim()) return;
     
-    const userMessage: Message = { id: Date.now().toString(), role: 'user', text: textToSend };
+    const userMessage: Message = { id: createId(), role: 'user', text: textToSend };
     setMessages(prev => [...prev, userMessage]);
     setInput('');
     setIsLoading(true);
@@ -61,7 +62,7 @@ const ChatAssistant: React.FC<ChatAssistantProps> = ({ contextData }) => {
             chatSessionRef.current = createFinancialChatSession(contextData);
         }
 
-        const modelMessageId = (Date.now() + 1).toString();
+        const modelMessageId = createId();
         setMessages(prev => [...prev, { id: modelMessageId, role: 'model', text: '', isStreaming: true }]);
 
         const result = await chatSessionRef.current.sendMessageStream({ message: userMessage.text });
@@ -88,7 +89,7 @@ const ChatAssistant: React.FC<ChatAssistantProps> = ({ contextData }) => {
 
     } catch (error) {
         console.error("Chat error", error);
-        setMessages(prev => [...prev, { id: Date.now().toString(), role: 'model', text: "Sorry, I hit a snag connecting to the server. Please try again." }]);
+        setMessages(prev => [...prev, { id: createId(), role: 'model', text: "Sorry, I hit a snag connecting to the server. Please try again." }]);
     } finally {
         setIsLoading(false);
     }
@@ -1,10 +1,14 @@
 
 import React, { useState, useMemo } from 'react';
-import { Chama, Debt, LoyaltyCard, Transaction } from '../types';
+import { Account, Chama, Debt, LoyaltyCard, Transaction } from '../types';
 import Card from './ui/Card';
 import Button from './ui/Button';
-import { Plus, TrendingUp, Trash2, Users, Gift, AlertCircle, ArrowUpRight, ArrowDownLeft, CreditCard } from 'lucide-react';
+import { Plus, TrendingUp, Trash2, Users, Gift, AlertCircle, ArrowUpRight, ArrowDownLeft, CreditCard, Receipt, Tag } from 'lucide-react';
 import { AreaChart, Area, Tooltip, ResponsiveContainer } from 'recharts';
+import { MONEY_CHANNEL_LABELS, MoneyChannel, TransferCostSummary, classifyFee, summarizeTransferCosts } from '../services/feeLinkingService';
+import { createId } from '../services/idService';
+import { transactionCategories } from '../services/splitService';
+import { calculateTagTotals } from '../services/tagService';
 
 const KESFormatter = new Intl.NumberFormat('en-US', {
     style: 'currency',
@@ -54,7 +58,7 @@ export const LoyaltyWidget: React.FC<LoyaltyWidgetProps> = ({ cards, onAdd, onDe
     const handleAdd = () => {
         if (provider && points) {
             onAdd({
-                id: Date.now().toString(),
+                id: createId(),
                 provider,
                 points: parseInt(points),
                 lastUpdated: new Date().toISOString().split('T')[0]
@@ -134,7 +138,7 @@ export const DebtWidget: React.FC<DebtWidgetProps> = ({ debts, onAdd, onDelete }
     const handleAdd = () => {
         if (person && amount) {
             onAdd({
-                id: Date.now().toString(),
+                id: createId(),
                 person,
                 amount: parseFloat(amount),
                 type,
@@ -227,7 +231,7 @@ export const ChamaWidget: React.FC<ChamaWidgetProps> = ({ chamas, onAdd }) => {
     const handleAdd = () => {
         if (name && contribution) {
             onAdd({
-                id: Date.now().toString(),
+                id: createId(),
                 name,
                 myContribution: parseFloat(contribution),
                 cycleTotal: 0
@@ -324,7 +328,7 @@ export const PriceWatchWidget: React.FC<PriceWatchWidgetProps> = ({ transactions
         const filtered = transactions
             .filter(t => {
                 const match = watchTerm.toLowerCase();
-                return (t.description?.toLowerCase().includes(match) || t.merchant?.toLowerCase().includes(match) || t.category?.toLowerCase().includes(match));
+                return (t.description?.toLowerCase().includes(match) || t.merchant?.toLowerCase().includes(match) || transactionCategories(t).some(category => category?.toLowerCase().includes(match)));
             })
             .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
         
@@ -410,3 +414,101 @@ export const PriceWatchWidget: React.FC<PriceWatchWidgetProps> = ({ transactions
         </Card>
     );
 }
+
+// --- COST OF MOVING MONEY WIDGET ---
+interface TransferCostWidgetProps {
+    transactions: Transaction[];
+    accounts: Account[];
+    onLinkExisting: () => void;
+}
+
+export const TransferCostWidget: React.FC<TransferCostWidgetProps> = ({ transactions, accounts, onLinkExisting }) => {
+    const [groupBy, setGroupBy] = useState<'channel' | 'account'>('channel');
+
+    const { byAccount, byChannel } = useMemo(() => summarizeTransferCosts(transactions), [transactions]);
+    const unlinkedCount = useMemo(() => transactions.filter(t => classifyFee(t.description) !== null).length, [transactions]);
+
+    const rows = groupBy === 'channel'
+        ? (Object.entries(byChannel) as [MoneyChannel, TransferCostSummary][]).map(([channel, summary]) => ({ key: channel, label: MONEY_CHANNEL_LABELS[channel], ...summary }))
+        : (Object.entries(byAccount) as [string, TransferCostSummary][]).map(([accountId, summary]) => ({ key: accountId, label: accounts.find(a => a.id === accountId)?.name || 'Unknown', ...summary }));
+    const totalFees = rows.reduce((sum, row) => sum + row.fees, 0);
+
+    return (
+        <Card className="p-6 flex flex-col h-full border border-gray-100 shadow-lg shadow-gray-200/40 transition-shadow hover:shadow-xl hover:shadow-gray-200/50">
+            <WidgetHeader
+                title="Cost of Moving Money"
+                icon={<Receipt size={20} />}
+                iconColorClass="bg-amber-50 text-amber-600"
+            />
+
+            <p className="text-2xl font-black text-gray-800">{KESFormatter.format(totalFees)}</p>
+            <p className="text-xs text-gray-500 mb-4">in charges and excise duty this period</p>
+
+            <div className="flex gap-2 mb-3">
+                {(['channel', 'account'] as const).map(option => (
+                    <button
+                        key={option}
+                        onClick={() => setGroupBy(option)}
+                        className={`px-3 py-1 text-xs font-medium rounded-full border transition-all ${groupBy === option ? 'bg-gray-800 text-white border-gray-800' : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-50'}`}
+                    >
+                        By {option}
+                    </button>
+                ))}
+            </div>
+
+            <div className="flex-1 space-y-2 overflow-y-auto pr-1 custom-scrollbar max-h-48">
+                {rows.length === 0 ? (
+                    <p className="text-xs text-gray-400 text-center py-6">No linked charges yet. Import a bank or M-PESA statement to see what transfers cost you.</p>
+                ) : rows.sort((a, b) => b.fees - a.fees).map(row => (
+                    <div key={row.key} className="flex items-center justify-between text-sm">
+                        <div className="min-w-0">
+                            <p className="font-medium text-gray-800 truncate">{row.label}</p>
+                            <p className="text-[10px] text-gray-400">{row.count} payment{row.count === 1 ? '' : 's'} · {row.moved > 0 ? ((row.fees / row.moved) * 100).toFixed(1) : '0'}% of {KESFormatter.format(row.moved)}</p>
+                        </div>
+                        <p className="font-bold text-amber-600">{KESFormatter.format(row.fees)}</p>
+                    </div>
+                ))}
+            </div>
+
+            {unlinkedCount > 0 && (
+                <button onClick={onLinkExisting} className="mt-3 text-xs text-brand-green font-semibold hover:underline text-left">
+                    {unlinkedCount} charge{unlinkedCount === 1 ? ' is' : 's are'} still listed separately. Link to payments
+                </button>
+            )}
+        </Card>
+    );
+};
+
+// --- TAG TOTALS WIDGET ---
+interface TagTotalsWidgetProps {
+    transactions: Transaction[];
+    onSelectTag: (tag: string) => void;
+}
+
+export const TagTotalsWidget: React.FC<TagTotalsWidgetProps> = ({ transactions, onSelectTag }) => {
+    const totals = useMemo(() => calculateTagTotals(transactions), [transactions]);
+
+    return (
+        <Card className="p-6 flex flex-col h-full border border-gray-100 shadow-lg shadow-gray-200/40 transition-shadow hover:shadow-xl hover:shadow-gray-200/50">
+            <WidgetHeader
+                title="Tags"
+                icon={<Tag size={20} />}
+                iconColorClass="bg-indigo-50 text-indigo-600"
+            />
+
+            <div className="flex-1 space-y-2 overflow-y-auto pr-1 custom-scrollbar max-h-64">
+                {totals.length === 0 ? (
+                    <p className="text-xs text-gray-400 text-center py-6">No tagged transactions this period. Tag a transaction to track things like a trip or a wedding across categories.</p>
+                ) : totals.map(total => (
+                    <button key={total.tag} onClick={() => onSelectTag(total.tag)} className="w-full flex items-center justify-between text-sm text-left rounded-lg px-1 -mx-1 hover:bg-gray-50" title="Show these transactions">
+                        <div className="min-w-0">
+                            <p className="font-medium text-gray-800 truncate">{total.tag}</p>
+                            <p className="text-[10px] text-gray-400">{total.count} transaction{total.count === 1 ? '' : 's'}{total.received > 0 && ` · ${KESFormatter.format(total.received)} in`}</p>
+                        </div>
+                        <p className="font-bold text-indigo-600">{KESFormatter.format(total.spent)}</p>
+                    </button>
+                ))}
+            </div>
+        </Card>
+    );
+};
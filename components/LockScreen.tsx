@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import Logo from './ui/Logo';
+import Button from './ui/Button';
+import Spinner from './ui/Spinner';
+import { unlockStorage } from '../services/storageService';
+import { getActiveBook, getBooks, switchBook } from '../services/bookService';
+
+interface LockScreenProps {
+  onUnlock: () => void;
+}
+
+const LockScreen: React.FC<LockScreenProps> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  // Each book has its own passphrase, so another book may open without this one's.
+  const activeBook = getActiveBook();
+  const otherBooks = getBooks().filter(book => book.id !== activeBook.id);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      if (await unlockStorage(passphrase)) {
+        onUnlock();
+        return;
+      }
+      setError('That passphrase is not right.');
+    } catch (err) {
+      console.error(err);
+      setError('Could not open your data. Please try again.');
+    }
+    setPassphrase('');
+    setIsUnlocking(false);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-brand-gray-100 p-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white rounded-xl shadow-sm border border-brand-gray-200 p-8 text-center">
+        <Logo className="h-12 w-12 mx-auto mb-3" />
+        <h1 className="text-xl font-bold text-brand-gray-800">{otherBooks.length > 0 ? `${activeBook.name} is locked` : 'Shilling Sense is locked'}</h1>
+        <p className="text-sm text-brand-gray-500 mt-1 mb-6">Enter your passphrase to open your data.</p>
+        <div className="relative">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <Lock size={16} className="text-gray-400" />
+          </div>
+          <input
+            type="password"
+            autoFocus
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            disabled={isUnlocking}
+            className="pl-10 block w-full rounded-md border-brand-gray-300 shadow-sm focus:border-brand-green focus:ring-brand-green text-sm py-2"
+            placeholder="Passphrase"
+          />
+        </div>
+        {error && <p className="text-sm text-red-600 mt-2 text-left">{error}</p>}
+        <Button type="submit" className="w-full mt-4" disabled={!passphrase || isUnlocking}>
+          {isUnlocking ? <Spinner size="sm" /> : 'Unlock'}
+        </Button>
+        {otherBooks.length > 0 && (
+          <select value="" onChange={(e) => e.target.value && switchBook(e.target.value)} disabled={isUnlocking} className="mt-3 block w-full rounded-md border-brand-gray-300 text-sm text-brand-gray-600 py-2">
+            <option value="">Open another book...</option>
+            {otherBooks.map(book => <option key={book.id} value={book.id}>{book.name}</option>)}
+          </select>
+        )}
+        <p className="text-xs text-brand-gray-400 mt-6">Your passphrase never leaves this device and can't be recovered if forgotten.</p>
+      </form>
+    </div>
+  );
+};
+
+export default LockScreen;
@@ -2,6 +2,8 @@ import React, { useState } from 'react';
 import { Transaction, Category } from '../types';
 
 import { useMerchantName } from '../hooks/useMerchantName';
+import { feeTotal } from '../services/feeLinkingService';
+import { Paperclip } from 'lucide-react';
 
 interface TransactionItemProps {
   transaction: Transaction;
@@ -9,25 +11,39 @@ interface TransactionItemProps {
   onUpdateCategory: (transactionId: string, newCategory: Category) => void;
   onEdit: (transaction: Transaction) => void;
   categories: Category[];
+  // In selection mode a click selects the row (shift-click for a range) instead of opening it.
+  isSelecting?: boolean;
+  isSelected?: boolean;
+  onToggleSelect?: (extend: boolean) => void;
 }
 
-const TransactionItem: React.FC<TransactionItemProps> = ({ transaction, accountName, onEdit }) => {
+const TransactionItem: React.FC<TransactionItemProps> = ({ transaction, accountName, onEdit, isSelecting = false, isSelected = false, onToggleSelect }) => {
   const [logoError, setLogoError] = useState(false);
 
   const rawMerchantName = transaction.merchant || 'Untitled Transaction';
   const merchantName = useMerchantName(rawMerchantName);
   const merchantInitial = merchantName.charAt(0).toUpperCase();
+  const fees = feeTotal(transaction);
 
   return (
     <li
-      className={`group flex items-center justify-between px-4 py-3 sm:px-6 transition-all cursor-pointer border-b border-brand-gray-100 last:border-0 ${transaction.isTransfer ? 'opacity-60 hover:opacity-100 bg-brand-gray-50/50' : 'hover:bg-brand-green-50/30'}`}
-      onClick={() => onEdit(transaction)}
-      role="button"
+      className={`group flex items-center justify-between px-4 py-3 sm:px-6 transition-all cursor-pointer border-b border-brand-gray-100 last:border-0 select-none ${isSelected ? 'bg-brand-green-50' : transaction.isTransfer ? 'opacity-60 hover:opacity-100 bg-brand-gray-50/50' : 'hover:bg-brand-green-50/30'}`}
+      onClick={(e) => isSelecting ? onToggleSelect?.(e.shiftKey) : onEdit(transaction)}
+      role={isSelecting ? 'checkbox' : 'button'}
+      aria-checked={isSelecting ? isSelected : undefined}
       tabIndex={0}
-      onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && onEdit(transaction)}
-      aria-label={`Edit transaction: ${merchantName} for KES ${transaction.amount}`}
+      onKeyDown={(e) => {
+        if (e.key !== 'Enter' && e.key !== ' ') return;
+        e.preventDefault();
+        if (isSelecting) onToggleSelect?.(e.shiftKey);
+        else onEdit(transaction);
+      }}
+      aria-label={isSelecting ? `Select transaction: ${merchantName} for KES ${transaction.amount}` : `Edit transaction: ${merchantName} for KES ${transaction.amount}`}
     >
       <div className="flex items-center gap-3 sm:gap-4">
+        {isSelecting && (
+          <input type="checkbox" checked={isSelected} readOnly tabIndex={-1} aria-hidden="true" className="h-4 w-4 rounded border-brand-gray-300 text-brand-green focus:ring-brand-green pointer-events-none" />
+        )}
         <div className="flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-full bg-brand-gray-100 group-hover:bg-white group-hover:shadow-sm transition-all">
           {transaction.logoUrl && !logoError ? (
             <img src={`https://logo.clearbit.com/${transaction.logoUrl}`} alt={`${merchantName} logo`} className="h-6 w-6 object-contain" onError={() => setLogoError(true)} />
@@ -36,17 +52,24 @@ const TransactionItem: React.FC<TransactionItemProps> = ({ transaction, accountN
           )}
         </div>
         <div className="min-w-0">
-          <p className="truncate font-semibold text-brand-gray-900 text-sm sm:text-base">{merchantName}</p>
-          <p className="text-xs text-brand-gray-500 truncate">{accountName}</p>
+          <p className="truncate font-semibold text-brand-gray-900 text-sm sm:text-base">
+            {merchantName}
+            {transaction.attachmentIds?.length ? <Paperclip size={12} className="inline ml-1 text-brand-gray-400" aria-label="Has attachments" /> : null}
+          </p>
+          <p className="text-xs text-brand-gray-500 truncate">{accountName}{transaction.tags?.map(tag => <span key={tag} className="text-indigo-600"> #{tag}</span>)}</p>
         </div>
       </div>
       <div className="text-right flex-shrink-0 ml-2">
         <p className={`font-bold text-sm sm:text-base ${transaction.type === 'income' ? 'text-brand-green' : 'text-brand-gray-900'}`}>
           {transaction.type === 'income' ? '+' : '-'} {transaction.amount.toLocaleString()}
         </p>
+        {fees !== 0 && <p className="text-[10px] text-brand-gray-500">{fees > 0 ? '+' : '-'} {Math.abs(fees).toLocaleString()} fees</p>}
         <div className="mt-1">
-          <span className="inline-block max-w-[100px] truncate rounded-full bg-brand-gray-100 px-2 py-0.5 text-[10px] font-medium text-brand-gray-600 group-hover:bg-brand-green-100 group-hover:text-brand-green-800 transition-colors">
-            {transaction.category}
+          <span
+            title={transaction.splits?.map(split => `${split.category}: ${split.amount.toLocaleString()}`).join('\n')}
+            className="inline-block max-w-[100px] truncate rounded-full bg-brand-gray-100 px-2 py-0.5 text-[10px] font-medium text-brand-gray-600 group-hover:bg-brand-green-100 group-hover:text-brand-green-800 transition-colors"
+          >
+            {transaction.splits?.length ? `${transaction.category} +${transaction.splits.length - 1}` : transaction.category}
           </span>
         </div>
       </div>
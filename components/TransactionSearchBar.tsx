@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Bookmark, HelpCircle, Search, Trash2, X } from 'lucide-react';
+import { SavedSearch } from '../types';
+import Button from './ui/Button';
+
+interface TransactionSearchBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  errors: string[];
+  savedSearches: SavedSearch[];
+  onSaveSearch: (name: string, query: string) => void;
+  onDeleteSavedSearch: (id: string) => void;
+}
+
+const EXAMPLES = [
+  'naivas amount>1000',
+  'category:Transport before:2025-10-01',
+  'account:"M-PESA" type:income',
+  'tag:work after:2025-01-01',
+];
+
+const TransactionSearchBar: React.FC<TransactionSearchBarProps> = ({ query, onQueryChange, errors, savedSearches, onSaveSearch, onDeleteSavedSearch }) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [showHelp, setShowHelp] = useState(false);
+
+  const current = savedSearches.find(s => s.query === query.trim());
+
+  const handleSave = () => {
+    if (!name.trim() || !query.trim()) return;
+    onSaveSearch(name, query);
+    setIsSaving(false);
+    setName('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-brand-gray-400" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            placeholder='Search, e.g. naivas amount>1000 tag:work'
+            aria-label="Search transactions"
+            className="block w-full rounded-md border-brand-gray-300 pl-8 pr-7 py-1.5 text-sm focus:border-brand-green focus:ring-brand-green"
+          />
+          {query && (
+            <button type="button" onClick={() => onQueryChange('')} className="absolute right-2 top-1/2 -translate-y-1/2 text-brand-gray-400 hover:text-brand-gray-600" aria-label="Clear search"><X size={14} /></button>
+          )}
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => setShowHelp(!showHelp)} title="Search syntax"><HelpCircle className="h-4 w-4" /></Button>
+        {query.trim() && !current && (
+          <Button variant="ghost" size="sm" onClick={() => setIsSaving(!isSaving)} title="Save this search"><Bookmark className="h-4 w-4" /></Button>
+        )}
+      </div>
+
+      {isSaving && (
+        <form className="flex gap-2" onSubmit={(e) => { e.preventDefault(); handleSave(); }}>
+          <input autoFocus value={name} onChange={(e) => setName(e.target.value)} placeholder="Name, e.g. Work expenses" className="block w-full rounded-md border-brand-gray-300 text-sm py-1.5 focus:border-brand-green focus:ring-brand-green" />
+          <Button type="submit" size="sm" disabled={!name.trim()}>Save</Button>
+          <Button type="button" size="sm" variant="ghost" onClick={() => setIsSaving(false)}>Cancel</Button>
+        </form>
+      )}
+
+      {errors.length > 0 && <p className="text-xs text-orange-600">{errors.join(' ')}</p>}
+
+      {showHelp && (
+        <div className="rounded-md bg-brand-gray-50 p-3 text-xs text-brand-gray-600 space-y-1">
+          <p>Words search the merchant, description and notes. Narrow it down with <code>category:</code>, <code>account:</code>, <code>merchant:</code>, <code>tag:</code>, <code>type:income</code> or <code>type:expense</code>, <code>amount&gt;1000</code> (also <code>&lt;</code>, <code>&gt;=</code>, <code>&lt;=</code>, <code>=</code>), and <code>before:</code>, <code>after:</code> or <code>on:</code> with a YYYY-MM-DD date. Put values with spaces in quotes. Searches stay within the selected period.</p>
+          <div className="flex flex-wrap gap-1 pt-1">
+            {EXAMPLES.map(example => (
+              <button key={example} type="button" onClick={() => onQueryChange(example)} className="rounded-full bg-white border border-brand-gray-200 px-2 py-0.5 hover:border-brand-green"><code>{example}</code></button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {savedSearches.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {savedSearches.map(saved => (
+            <span key={saved.id} className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs ${saved.id === current?.id ? 'border-brand-green bg-brand-green-50 text-brand-green-800' : 'border-brand-gray-200 text-brand-gray-600'}`}>
+              <button type="button" onClick={() => onQueryChange(saved.id === current?.id ? '' : saved.query)} title={saved.query}>{saved.name}</button>
+              <button type="button" onClick={() => onDeleteSavedSearch(saved.id)} className="text-brand-gray-400 hover:text-red-600" aria-label={`Delete saved search ${saved.name}`}><Trash2 size={10} /></button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransactionSearchBar;
@@ -1,20 +1,25 @@
 
 import React, { useState } from 'react';
-import { Account, CategorizationExample, Category, ParsedTransaction, Transaction, TransactionType } from '../../types';
+import { Account, Attachment, CategorizationExample, Category, ChangeSource, ParsedTransaction, PreparsedImport, Transaction, TransactionType } from '../../types';
 import BaseModal from './BaseModal';
 import Button from '../ui/Button';
 import Spinner from '../ui/Spinner';
-import { parseBasicInfoFromText, enrichTransaction } from '../../services/geminiService';
+import { parseBasicInfoFromText, enrichTransaction, parseReceipt } from '../../services/geminiService';
+import { ATTACHMENT_ACCEPT, createAttachment } from '../../services/attachmentService';
+import { deleteAttachments, saveAttachment } from '../../services/storageService';
+import { Camera } from 'lucide-react';
+import { parseSmsDump } from '../../services/smsParserService';
 
 interface AddTransactionModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onAdd: (transaction: Omit<Transaction, 'id'>) => void;
+  onAdd: (transaction: Omit<Transaction, 'id'>, categorySource?: ChangeSource) => void;
+  onBulkReview: (preparsed: PreparsedImport) => void;
   accounts: Account[];
   categorizationExamples: CategorizationExample[];
 }
 
-const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ isOpen, onClose, onAdd, accounts, categorizationExamples }) => {
+const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ isOpen, onClose, onAdd, onBulkReview, accounts, categorizationExamples }) => {
   const [description, setDescription] = useState('');
   const [accountId, setAccountId] = useState<string>(accounts[0]?.id || '');
   const [isLoading, setIsLoading] = useState(false);
@@ -27,6 +32,15 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ isOpen, onClo
   const [manualMerchant, setManualMerchant] = useState('');
   const [manualType, setManualType] = useState<TransactionType>(TransactionType.Expense);
 
+  const [manualDate, setManualDate] = useState(() => new Date().toISOString().split('T')[0]);
+
+  // A receipt read into the manual form. Its file is saved straight away, so it is deleted again if the form is dropped.
+  const [receipt, setReceipt] = useState<{ attachment: Attachment; details: ParsedTransaction; category: Category; categorySource?: ChangeSource } | null>(null);
+
+  // Bulk SMS state
+  const [isBulkMode, setIsBulkMode] = useState(false);
+  const [bulkText, setBulkText] = useState('');
+
   const handleAdd = async () => {
     setTouched(true);
     if (!description || !accountId) return;
@@ -69,7 +83,7 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ isOpen, onClo
             isTransfer: enrichedData.category === "Internal Transfer"
         };
 
-        onAdd(newTransaction);
+        onAdd(newTransaction, enrichedData.categorySource);
         resetForm();
         onClose();
     } catch (e) {
@@ -87,25 +101,80 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ isOpen, onClo
 
   const handleManualAdd = () => {
     setTouched(true);
-    if (!manualAmount || !manualMerchant || !accountId) return;
+    if (!manualAmount || !manualMerchant || !accountId || !manualDate) return;
 
     const newTransaction: Omit<Transaction, 'id'> = {
       accountId,
-      date: new Date().toISOString().split('T')[0],
+      date: manualDate,
       merchant: manualMerchant,
       amount: parseFloat(manualAmount),
       type: manualType,
-      category: 'Other',
-      description: `Manually entered: ${manualMerchant}`,
-      isTransfer: false,
+      category: receipt?.category || 'Other',
+      description: receipt?.details.description || `Manually entered: ${manualMerchant}`,
+      isTransfer: receipt?.category === 'Internal Transfer',
+      ...(receipt ? { attachmentIds: [receipt.attachment.id] } : {}),
+      ...(receipt?.details.externalId ? { externalId: receipt.details.externalId } : {}),
     };
-    onAdd(newTransaction);
-    resetForm();
+    onAdd(newTransaction, receipt?.categorySource);
+    setReceipt(null); // Now referenced by the transaction, so resetForm must not delete it
+    resetForm(false);
     onClose();
   };
+
+  // Reads a receipt photo or PDF, keeps it as an attachment and fills in the manual form for checking.
+  const handleReceiptFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const attachment = await createAttachment(file);
+      await saveAttachment(attachment);
+      if (receipt) deleteAttachments([receipt.attachment.id]).catch(err => console.error(err));
+      setReceipt({ attachment, details: { amount: 0, type: TransactionType.Expense, date: '', description: '' }, category: 'Other' });
+      setIsBulkMode(false);
+      setIsManualMode(true);
+      const details = await parseReceipt(file);
+      const enriched = await enrichTransaction({ ...details, description: `${details.merchant || ''} ${details.description}`.trim() }, categorizationExamples).catch(() => null);
+      setReceipt({ attachment, details, category: enriched?.category || 'Other', categorySource: enriched?.category ? enriched.categorySource : undefined });
+      setManualMerchant(details.merchant || '');
+      setManualAmount(details.amount ? String(details.amount) : '');
+      setManualType(details.type);
+      if (details.date) setManualDate(details.date);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Couldn't read the receipt. Please enter the details manually.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
   
-  const resetForm = () => {
+  const handleBulkFile = async (file: File | undefined) => {
+    if (!file) return;
+    setBulkText(await file.text());
+  };
+
+  const handleBulkReview = () => {
+    setTouched(true);
+    if (!bulkText.trim() || !accountId) return;
+
+    // Parsed on-device; the import review step handles enrichment, duplicates and balances.
+    const { transactions, unrecognised } = parseSmsDump(bulkText);
+    if (transactions.length === 0) {
+      setError("No M-PESA confirmation messages found. Paste the full messages, including the transaction code.");
+      return;
+    }
+    const skippedNote = unrecognised.length > 0 ? ` (${unrecognised.length} not recognised)` : '';
+    onBulkReview({ accountId, transactions, label: `${transactions.length} M-PESA messages read on this device${skippedNote}`, source: 'Pasted SMS' });
+    resetForm();
+    onClose();
+  };
+
+  const resetForm = (discardReceipt = true) => {
+    if (discardReceipt && receipt) deleteAttachments([receipt.attachment.id]).catch(err => console.error(err));
+    setReceipt(null);
+    setManualDate(new Date().toISOString().split('T')[0]);
     setDescription('');
+    setBulkText('');
+    setIsBulkMode(false);
     setManualAmount('');
     setManualMerchant('');
     setManualType(TransactionType.Expense);
@@ -133,7 +202,29 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ isOpen, onClo
           </select>
         </div>
 
-        {isManualMode ? (
+        {isBulkMode ? (
+          <div>
+            <label htmlFor="bulkText" className="block text-sm font-medium text-brand-gray-700">Paste M-PESA messages</label>
+            <textarea
+                id="bulkText"
+                value={bulkText}
+                onChange={(e) => setBulkText(e.target.value)}
+                onDrop={(e) => { e.preventDefault(); handleBulkFile(e.dataTransfer.files?.[0]); }}
+                onDragOver={(e) => e.preventDefault()}
+                rows={8}
+                className={`mt-1 block w-full rounded-md shadow-sm text-xs focus:ring-brand-green focus:border-brand-green ${touched && !bulkText.trim() ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : 'border-brand-gray-300'}`}
+                placeholder="TKJ1ABC2DE Confirmed. Ksh250.00 paid to NAIVAS WESTLANDS. on 19/11/25 at 9:38 PM..."
+            ></textarea>
+            {touched && !bulkText.trim() && <p className="mt-1 text-xs text-red-500">Paste some messages or drop an SMS backup</p>}
+            <p className="mt-1 text-xs text-brand-gray-500">
+              Paste as many as you like, or drop an SMS backup (.xml or .txt).{' '}
+              <label className="text-brand-green hover:underline cursor-pointer">
+                Choose file
+                <input type="file" className="sr-only" accept=".xml,.txt,text/plain,text/xml" onChange={e => handleBulkFile(e.target.files?.[0])} />
+              </label>
+            </p>
+          </div>
+        ) : isManualMode ? (
           <>
             <div>
               <label htmlFor="manualMerchant" className="block text-sm font-medium text-brand-gray-700">Merchant / Description</label>
@@ -168,6 +259,19 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ isOpen, onClo
                      </select>
                 </div>
             </div>
+            <div>
+                <label htmlFor="manualDate" className="block text-sm font-medium text-brand-gray-700">Date</label>
+                <input type="date" id="manualDate" value={manualDate} onChange={e => setManualDate(e.target.value)} className={`mt-1 block w-full rounded-md shadow-sm focus:ring-brand-green focus:border-brand-green ${touched && !manualDate ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : 'border-brand-gray-300'}`} />
+            </div>
+            {receipt && (
+              <div className="flex items-center gap-3 rounded-md bg-brand-gray-50 p-2">
+                {receipt.attachment.thumbnailUrl && <img src={receipt.attachment.thumbnailUrl} alt={receipt.attachment.name} className="h-12 w-12 rounded object-cover" />}
+                <div className="min-w-0 text-xs text-brand-gray-600">
+                  <p className="truncate font-medium text-brand-gray-800">{receipt.attachment.name}</p>
+                  <p>{isLoading ? 'Reading the receipt...' : `Category: ${receipt.category}. Check the details above, then add.`}</p>
+                </div>
+              </div>
+            )}
           </>
         ) : (
           <div>
@@ -187,16 +291,27 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ isOpen, onClo
         
         {error && <p className="text-sm text-red-600">{error}</p>}
 
-        <div className="text-center">
-            <button onClick={() => setIsManualMode(!isManualMode)} className="text-xs text-brand-green hover:underline">
-                {isManualMode ? 'Use AI Parser' : 'Enter Manually Instead'}
+        <div className="text-center space-x-4">
+            {!isBulkMode && (
+              <button onClick={() => setIsManualMode(!isManualMode)} className="text-xs text-brand-green hover:underline">
+                  {isManualMode ? 'Use AI Parser' : 'Enter Manually Instead'}
+              </button>
+            )}
+            <button onClick={() => { setIsBulkMode(!isBulkMode); setError(null); setTouched(false); }} className="text-xs text-brand-green hover:underline">
+                {isBulkMode ? 'Add a Single Transaction' : 'Paste Many Messages'}
             </button>
+            <label className={`text-xs text-brand-green hover:underline inline-flex items-center gap-1 ${isLoading ? 'opacity-50' : 'cursor-pointer'}`}>
+                <Camera size={12} /> {receipt ? 'Use Another Receipt' : 'From a Receipt'}
+                <input type="file" className="sr-only" accept={ATTACHMENT_ACCEPT} disabled={isLoading} onChange={e => { handleReceiptFile(e.target.files?.[0]); e.target.value = ''; }} />
+            </label>
         </div>
       </div>
       <div className="mt-6 flex justify-end gap-3">
         <Button variant="secondary" onClick={handleClose}>Cancel</Button>
-        {isManualMode ? (
-            <Button onClick={handleManualAdd}>Add Manually</Button>
+        {isBulkMode ? (
+            <Button onClick={handleBulkReview}>Review Messages</Button>
+        ) : isManualMode ? (
+            <Button onClick={handleManualAdd} disabled={isLoading}>{receipt ? 'Add from Receipt' : 'Add Manually'}</Button>
         ) : (
             <Button onClick={handleAdd} disabled={isLoading}>
                 {isLoading ? <Spinner size="sm" /> : "Add Transaction"}
@@ -0,0 +1,191 @@
+import React, { useMemo, useRef, useState } from 'react';
+import BaseModal from './BaseModal';
+import Button from '../ui/Button';
+import Spinner from '../ui/Spinner';
+import { AlertTriangle, Download, Lock, Upload } from 'lucide-react';
+import { Attachment } from '../../types';
+import { BackupData, BackupFile, ReadBackupResult, RestoreMode, backupFileName, createBackupFile, isBackupEncrypted, parseBackupFile, planRestore, readBackupFile } from '../../services/backupService';
+
+interface BackupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  collectData: () => BackupData;
+  onRestore: (data: BackupData, attachments: Attachment[]) => void;
+}
+
+const inputClass = "block w-full rounded-md border-brand-gray-300 shadow-sm focus:border-brand-green focus:ring-brand-green text-sm py-2";
+
+const BackupModal: React.FC<BackupModalProps> = ({ isOpen, onClose, collectData, onRestore }) => {
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [exportConfirm, setExportConfirm] = useState('');
+  const [pendingFile, setPendingFile] = useState<BackupFile | null>(null);
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+  const [backup, setBackup] = useState<ReadBackupResult | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const plan = useMemo(() => backup ? planRestore(collectData(), backup.data, mode) : null, [backup, mode, collectData]);
+  const changedCollections = plan ? plan.changes.filter(c => c.added + c.updated + c.removed > 0) : [];
+
+  const reset = () => {
+    setExportPassphrase('');
+    setExportConfirm('');
+    setPendingFile(null);
+    setRestorePassphrase('');
+    setBackup(null);
+    setMode('merge');
+    setError(null);
+  };
+
+  const handleClose = () => {
+    if (isWorking) return;
+    reset();
+    onClose();
+  };
+
+  const handleExport = async () => {
+    if (exportPassphrase && exportPassphrase !== exportConfirm) {
+      setError("The passphrases don't match.");
+      return;
+    }
+    setIsWorking(true);
+    setError(null);
+    try {
+      const file = await createBackupFile(collectData(), exportPassphrase || undefined);
+      const blob = new Blob([JSON.stringify(file)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = backupFileName();
+      link.click();
+      URL.revokeObjectURL(url);
+      setExportPassphrase('');
+      setExportConfirm('');
+    } catch (err) {
+      console.error(err);
+      setError('Could not create the backup.');
+    }
+    setIsWorking(false);
+  };
+
+  const openBackup = async (file: BackupFile, passphrase?: string) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      setBackup(await readBackupFile(file, passphrase));
+      setPendingFile(null);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not read this backup.');
+    }
+    setIsWorking(false);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+    reset();
+    try {
+      const file = parseBackupFile(await selected.text());
+      if (isBackupEncrypted(file)) setPendingFile(file);
+      else await openBackup(file);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read this backup.');
+    }
+  };
+
+  const handleRestore = () => {
+    if (!plan || !backup) return;
+    onRestore(plan.data, backup.attachments);
+    handleClose();
+  };
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={handleClose} title="Backup & Restore" maxWidth="max-w-xl">
+      {!backup && !pendingFile && (
+        <div className="space-y-3 pb-5 mb-5 border-b border-brand-gray-200">
+          <h3 className="text-sm font-bold text-brand-gray-800">Download a backup</h3>
+          <p className="text-sm text-brand-gray-600">One file with your accounts, transactions, categories, budgets, profile, debts, chamas, loyalty cards, categorisation examples, merchant names and attached receipts.</p>
+          <div className="grid grid-cols-2 gap-2">
+            <input type="password" value={exportPassphrase} onChange={(e) => setExportPassphrase(e.target.value)} disabled={isWorking} className={inputClass} placeholder="Passphrase (optional)" />
+            <input type="password" value={exportConfirm} onChange={(e) => setExportConfirm(e.target.value)} disabled={isWorking || !exportPassphrase} className={inputClass} placeholder="Confirm passphrase" />
+          </div>
+          <p className="text-xs text-brand-gray-500">With a passphrase the file is encrypted, and it can't be restored without it.</p>
+          <Button onClick={handleExport} disabled={isWorking}><Download size={16} className="mr-2" />Download Backup</Button>
+        </div>
+      )}
+
+      {!backup && !pendingFile && (
+        <div className="space-y-3">
+          <h3 className="text-sm font-bold text-brand-gray-800">Restore from a backup</h3>
+          <p className="text-sm text-brand-gray-600">You'll see what would change before anything is restored.</p>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFileChange} className="hidden" />
+          <Button variant="secondary" onClick={() => fileInputRef.current?.click()} disabled={isWorking}><Upload size={16} className="mr-2" />Choose Backup File</Button>
+        </div>
+      )}
+
+      {pendingFile && (
+        <div className="space-y-3">
+          <p className="text-sm text-brand-gray-600 flex items-center gap-2"><Lock size={14} /> This backup is encrypted. Enter the passphrase it was saved with.</p>
+          <input type="password" value={restorePassphrase} onChange={(e) => setRestorePassphrase(e.target.value)} disabled={isWorking} className={inputClass} placeholder="Backup passphrase" autoFocus />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={reset} disabled={isWorking}>Cancel</Button>
+            <Button onClick={() => openBackup(pendingFile, restorePassphrase)} disabled={isWorking || !restorePassphrase}>Open Backup</Button>
+          </div>
+        </div>
+      )}
+
+      {backup && plan && (
+        <div className="space-y-4">
+          <p className="text-sm text-brand-gray-600">Backup from {new Date(backup.createdAt).toLocaleString()}.</p>
+          <div className="flex bg-brand-gray-100 rounded-lg p-1">
+            {(['merge', 'replace'] as RestoreMode[]).map(option => (
+              <button key={option} onClick={() => setMode(option)} className={`flex-1 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${mode === option ? 'bg-white text-brand-green shadow-sm' : 'text-brand-gray-500 hover:text-brand-gray-800'}`}>
+                {option === 'merge' ? 'Merge with my data' : 'Replace my data'}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-brand-gray-500">
+            {mode === 'merge'
+              ? "Keeps everything you have, adds what's only in the backup, and takes the backup's version of records in both."
+              : 'Makes your data match the backup exactly. Anything not in the backup is deleted.'}
+          </p>
+
+          {changedCollections.length === 0 ? (
+            <p className="text-sm text-brand-gray-600 text-center py-4">Your data already matches this backup.</p>
+          ) : (
+            <div className="rounded-lg border border-brand-gray-200 divide-y divide-brand-gray-100 max-h-[40vh] overflow-y-auto">
+              {changedCollections.map(change => (
+                <div key={change.label} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <span className="text-brand-gray-800">{change.label}</span>
+                  <span className="flex gap-3 text-xs">
+                    {change.added > 0 && <span className="text-brand-green">+{change.added} new</span>}
+                    {change.updated > 0 && <span className="text-blue-600">{change.updated} updated</span>}
+                    {change.removed > 0 && <span className="text-red-600">−{change.removed} removed</span>}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {backup.skipped > 0 && (
+            <p className="text-sm text-orange-600 flex items-start gap-2"><AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />{backup.skipped} record{backup.skipped === 1 ? " doesn't" : "s don't"} fit the current data format and will be skipped.</p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={reset}>Cancel</Button>
+            <Button onClick={handleRestore} disabled={changedCollections.length === 0}>{mode === 'merge' ? 'Merge Backup' : 'Replace My Data'}</Button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+      {isWorking && <div className="flex justify-center mt-3"><Spinner size="sm" /></div>}
+    </BaseModal>
+  );
+};
+
+export default BackupModal;
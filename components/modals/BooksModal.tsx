@@ -0,0 +1,172 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import BaseModal from './BaseModal';
+import Button from '../ui/Button';
+import Spinner from '../ui/Spinner';
+import { BookOpen, Lock, Pencil, Trash2 } from 'lucide-react';
+import { Account, Book, BookTotals, Debt, Transaction } from '../../types';
+import { DEFAULT_BOOK_ID, calculateBookTotals, createBook, deleteBook, getActiveBookId, getBooks, renameBook, switchBook } from '../../services/bookService';
+import { readBookData } from '../../services/storageService';
+import { isVaultEnabled } from '../../services/vaultService';
+
+interface BooksModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The open book's data, straight from state rather than re-read from storage.
+  accounts: Account[];
+  transactions: Transaction[];
+  debts: Debt[];
+}
+
+// Totals for a book other than the open one: loading, read, or waiting for its passphrase.
+type BookTotalsState = { status: 'loading' } | { status: 'ready'; totals: BookTotals } | { status: 'locked'; error?: string } | { status: 'error'; error: string };
+
+const KESFormatter = new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'KES',
+});
+
+const inputClass = "block w-full rounded-md border-brand-gray-300 shadow-sm focus:border-brand-green focus:ring-brand-green text-sm py-2";
+
+const BooksModal: React.FC<BooksModalProps> = ({ isOpen, onClose, accounts, transactions, debts }) => {
+  const activeBookId = getActiveBookId();
+  const [books, setBooks] = useState<Book[]>(getBooks);
+  const [otherTotals, setOtherTotals] = useState<Record<string, BookTotalsState>>({});
+  const [passphrases, setPassphrases] = useState<Record<string, string>>({});
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeTotals = useMemo(() => calculateBookTotals(accounts, transactions, debts), [accounts, transactions, debts]);
+
+  const loadTotals = async (bookId: string, passphrase?: string) => {
+    setOtherTotals(prev => ({ ...prev, [bookId]: { status: 'loading' } }));
+    try {
+      const data = await readBookData(bookId, passphrase);
+      setOtherTotals(prev => ({ ...prev, [bookId]: { status: 'ready', totals: calculateBookTotals(data.accounts, data.transactions, data.debts) } }));
+    } catch (err) {
+      console.error(err);
+      const message = err instanceof Error ? err.message : "Couldn't read this book.";
+      setOtherTotals(prev => ({ ...prev, [bookId]: isVaultEnabled(bookId) ? { status: 'locked', error: passphrase ? message : undefined } : { status: 'error', error: message } }));
+    }
+    setPassphrases(prev => ({ ...prev, [bookId]: '' }));
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const latest = getBooks();
+    setBooks(latest);
+    setError(null);
+    // Encrypted books wait for their passphrase; the rest are read straight away.
+    const initial: Record<string, BookTotalsState> = {};
+    latest.filter(book => book.id !== activeBookId).forEach(book => {
+      initial[book.id] = isVaultEnabled(book.id) ? { status: 'locked' } : { status: 'loading' };
+    });
+    setOtherTotals(initial);
+    latest.filter(book => book.id !== activeBookId && !isVaultEnabled(book.id)).forEach(book => { loadTotals(book.id); });
+  }, [isOpen]);
+
+  const totalsFor = (bookId: string): BookTotalsState => bookId === activeBookId ? { status: 'ready', totals: activeTotals } : otherTotals[bookId] ?? { status: 'loading' };
+
+  const included = books.map(book => totalsFor(book.id)).filter((state): state is { status: 'ready'; totals: BookTotals } => state.status === 'ready');
+  const combined = included.reduce((sum, state) => sum + state.totals.netWorth, 0);
+
+  const handleCreate = () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (books.some(book => book.name.toLowerCase() === name.toLowerCase())) {
+      setError('There is already a book with that name.');
+      return;
+    }
+    switchBook(createBook(name).id);
+  };
+
+  const handleRename = () => {
+    if (!renaming || !renaming.name.trim()) return;
+    renameBook(renaming.id, renaming.name);
+    setBooks(getBooks());
+    setRenaming(null);
+  };
+
+  const handleDelete = async (book: Book) => {
+    if (!window.confirm(`Delete "${book.name}" and everything in it from this device? This can't be undone.`)) return;
+    try {
+      await deleteBook(book.id);
+      setBooks(getBooks());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't delete the book.");
+    }
+  };
+
+  const renderTotals = (book: Book) => {
+    const state = totalsFor(book.id);
+    if (state.status === 'loading') return <Spinner size="sm" />;
+    if (state.status === 'error') return <p className="text-xs text-red-600">{state.error}</p>;
+    if (state.status === 'locked') {
+      return (
+        <form className="flex gap-2 mt-2" onSubmit={(e) => { e.preventDefault(); if (passphrases[book.id]) loadTotals(book.id, passphrases[book.id]); }}>
+          <input type="password" value={passphrases[book.id] || ''} onChange={(e) => setPassphrases(prev => ({ ...prev, [book.id]: e.target.value }))} className={inputClass} placeholder="Passphrase to include it" />
+          <Button type="submit" size="sm" variant="secondary" disabled={!passphrases[book.id]}><Lock className="h-4 w-4" /></Button>
+          {state.error && <p className="text-xs text-red-600 self-center whitespace-nowrap">{state.error}</p>}
+        </form>
+      );
+    }
+    const { totals } = state;
+    return (
+      <p className="text-xs text-brand-gray-500">
+        <span className="text-sm font-semibold text-brand-gray-800">{KESFormatter.format(totals.netWorth)}</span>
+        {' '}· Accounts {KESFormatter.format(totals.balance)}{totals.owedToMe > 0 && ` + owed ${KESFormatter.format(totals.owedToMe)}`}{totals.owedByMe > 0 && ` − owing ${KESFormatter.format(totals.owedByMe)}`}
+      </p>
+    );
+  };
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={onClose} title="Books" maxWidth="max-w-lg">
+      <p className="text-sm text-brand-gray-600 mt-4 mb-3">Keep separate finances apart, each with its own accounts, categories, budgets and passphrase.</p>
+      <ul className="divide-y divide-brand-gray-100 max-h-96 overflow-y-auto">
+        {books.map(book => (
+          <li key={book.id} className="py-3">
+            <div className="flex items-center justify-between gap-2">
+              {renaming?.id === book.id ? (
+                <form className="flex gap-2 flex-1" onSubmit={(e) => { e.preventDefault(); handleRename(); }}>
+                  <input autoFocus value={renaming.name} onChange={(e) => setRenaming({ id: book.id, name: e.target.value })} className={inputClass} />
+                  <Button type="submit" size="sm" disabled={!renaming.name.trim()}>Save</Button>
+                  <Button type="button" size="sm" variant="ghost" onClick={() => setRenaming(null)}>Cancel</Button>
+                </form>
+              ) : (
+                <>
+                  <p className="font-semibold text-brand-gray-800 flex items-center gap-2 min-w-0">
+                    <BookOpen className="h-4 w-4 text-brand-green flex-shrink-0" />
+                    <span className="truncate">{book.name}</span>
+                    {book.id === activeBookId && <span className="text-xs font-medium text-brand-green bg-brand-green-50 rounded px-1.5 py-0.5">Open</span>}
+                    {isVaultEnabled(book.id) && <Lock className="h-3 w-3 text-brand-gray-400 flex-shrink-0" />}
+                  </p>
+                  <div className="flex gap-1 flex-shrink-0">
+                    <Button size="sm" variant="ghost" onClick={() => setRenaming({ id: book.id, name: book.name })} title="Rename"><Pencil className="h-4 w-4" /></Button>
+                    {book.id !== activeBookId && book.id !== DEFAULT_BOOK_ID && (
+                      <Button size="sm" variant="ghost" onClick={() => handleDelete(book)} title="Delete book"><Trash2 className="h-4 w-4" /></Button>
+                    )}
+                    {book.id !== activeBookId && <Button size="sm" variant="secondary" onClick={() => switchBook(book.id)}>Open</Button>}
+                  </div>
+                </>
+              )}
+            </div>
+            <div className="mt-1 pl-6">{renderTotals(book)}</div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center justify-between bg-brand-gray-50 rounded-md px-3 py-2 mt-2">
+        <span className="text-sm font-medium text-brand-gray-700">Combined net worth{included.length < books.length && ` (${included.length} of ${books.length} books)`}</span>
+        <span className="text-lg font-bold text-brand-gray-900">{KESFormatter.format(combined)}</span>
+      </div>
+
+      <form className="flex gap-2 border-t border-brand-gray-200 pt-4 mt-4" onSubmit={(e) => { e.preventDefault(); handleCreate(); }}>
+        <input value={newName} onChange={(e) => { setNewName(e.target.value); setError(null); }} className={inputClass} placeholder="New book, e.g. Side hustle" />
+        <Button type="submit" disabled={!newName.trim()} className="whitespace-nowrap">Create and Open</Button>
+      </form>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </BaseModal>
+  );
+};
+
+export default BooksModal;
@@ -4,7 +4,9 @@ import { Budget, BudgetStrategy, Category, Transaction, TransactionType, UserPro
 import BaseModal from './BaseModal';
 import Button from '../ui/Button';
 import { Target, Leaf, Shield, TrendingUp, AlertTriangle, CheckCircle2, Wallet, Sliders, Info, TrendingDown, Activity, CalendarClock, Banknote } from 'lucide-react';
-import { DISCRETIONARY_CATEGORIES, SAVINGS_CATEGORIES } from '../../constants';
+import { DISCRETIONARY_CATEGORIES, FEE_CATEGORY, SAVINGS_CATEGORIES } from '../../constants';
+import { categoryAmounts } from '../../services/splitService';
+import { feeTotal } from '../../services/feeLinkingService';
 
 interface BudgetModalProps {
     isOpen: boolean;
@@ -56,11 +58,20 @@ const BudgetModal: React.FC<BudgetModalProps> = ({ isOpen, onClose, onSave, tran
             const key = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
             allMonthsSet.add(key);
 
+            // Linked bank charges and duty are spending in their own category, whatever they were charged on.
+            const fees = feeTotal(t);
+            if (fees !== 0) {
+                if (!expenseByMonthCategory[FEE_CATEGORY]) expenseByMonthCategory[FEE_CATEGORY] = {};
+                expenseByMonthCategory[FEE_CATEGORY][key] = (expenseByMonthCategory[FEE_CATEGORY][key] || 0) + fees;
+            }
+
             if (t.type === TransactionType.Income && !t.isTransfer) {
                 incomeByMonth[key] = (incomeByMonth[key] || 0) + t.amount;
             } else if (t.type === TransactionType.Expense && !t.isTransfer) {
-                if (!expenseByMonthCategory[t.category]) expenseByMonthCategory[t.category] = {};
-                expenseByMonthCategory[t.category][key] = (expenseByMonthCategory[t.category][key] || 0) + t.amount;
+                categoryAmounts(t).forEach(({ category, amount }) => {
+                    if (!expenseByMonthCategory[category]) expenseByMonthCategory[category] = {};
+                    expenseByMonthCategory[category][key] = (expenseByMonthCategory[category][key] || 0) + amount;
+                });
             }
         });
 
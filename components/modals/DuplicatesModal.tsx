@@ -0,0 +1,63 @@
+import React from 'react';
+import { Account, Transaction } from '../../types';
+import { DuplicatePair } from '../../services/deduplicationService';
+import BaseModal from './BaseModal';
+import Button from '../ui/Button';
+
+interface DuplicatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  pairs: DuplicatePair[];
+  accounts: Account[];
+  onMerge: (keepId: string, removeId: string) => void;
+  onDismiss: (idA: string, idB: string) => void;
+}
+
+const KESFormatter = new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'KES',
+});
+
+const DuplicatesModal: React.FC<DuplicatesModalProps> = ({ isOpen, onClose, pairs, accounts, onMerge, onDismiss }) => {
+  const renderSide = (tx: Transaction, other: Transaction) => (
+    <div className="flex-1 min-w-0 p-3 rounded-md bg-brand-gray-50 border border-brand-gray-200 text-sm">
+      <p className="font-medium text-brand-gray-800 truncate">{tx.merchant}</p>
+      <p className="text-xs text-brand-gray-500 truncate" title={tx.description}>{tx.description}</p>
+      <p className="mt-1 text-xs text-brand-gray-600">{new Date(tx.date).toLocaleDateString()} · {accounts.find(a => a.id === tx.accountId)?.name || 'Unknown'}</p>
+      <p className="text-xs text-brand-gray-600">{tx.category} · {tx.importBatchId ? 'Imported' : 'Entered manually'}</p>
+      <Button size="sm" variant="secondary" className="mt-2 w-full" onClick={() => onMerge(tx.id, other.id)}>Keep this one</Button>
+    </div>
+  );
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={onClose} title="Possible Duplicates" maxWidth="max-w-2xl">
+      {pairs.length === 0 ? (
+        <div className="text-center py-8"><p className="text-brand-gray-600">No possible duplicates right now.</p></div>
+      ) : (
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+          <p className="text-sm text-brand-gray-600">These look like the same payment recorded twice. Keep one to merge them; its details win, and anything it's missing is filled in from the other.</p>
+          {pairs.map(pair => (
+            <div key={pair.key} className="p-3 rounded-lg border border-brand-gray-200">
+              <div className="flex items-center justify-between mb-2">
+                <p className="font-semibold text-brand-gray-800">{KESFormatter.format(pair.first.amount)} <span className="text-xs font-normal text-brand-gray-500">{pair.first.type}</span></p>
+                <span className="text-xs text-brand-gray-500">{Math.round(pair.score * 100)}% match</span>
+              </div>
+              <div className="flex gap-3">
+                {renderSide(pair.first, pair.second)}
+                {renderSide(pair.second, pair.first)}
+              </div>
+              <div className="mt-2 text-right">
+                <button onClick={() => onDismiss(pair.first.id, pair.second.id)} className="text-xs text-brand-gray-500 hover:text-brand-gray-800 hover:underline">Not duplicates, keep both</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="mt-6 flex justify-end">
+        <Button variant="secondary" onClick={onClose}>Close</Button>
+      </div>
+    </BaseModal>
+  );
+};
+
+export default DuplicatesModal;
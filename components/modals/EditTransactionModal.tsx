@@ -1,9 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { Account, Category, Transaction, TransactionType } from '../../types';
+import { Account, Category, Transaction, TransactionAuditEntry, TransactionSplit, TransactionType } from '../../types';
 import BaseModal from './BaseModal';
 import Button from '../ui/Button';
+import Spinner from '../ui/Spinner';
 import CategoryEditor from '../CategoryEditor';
-import { Trash2 } from 'lucide-react';
+import AttachmentList from '../AttachmentList';
+import { History, Plus, RotateCcw, Split, Tag, Trash2, X } from 'lucide-react';
+import { CHANGE_SOURCE_LABELS, CREATED_FIELD, DELETED_FIELD, auditFieldLabel, canRevertEntry } from '../../services/auditService';
+import { deleteAttachments, loadAuditTrail } from '../../services/storageService';
+import { primarySplitCategory, splitRemainder, validateSplits } from '../../services/splitService';
+import { parseTags, retagTransaction } from '../../services/tagService';
 
 interface EditTransactionModalProps {
   isOpen: boolean;
@@ -14,6 +20,11 @@ interface EditTransactionModalProps {
   accounts: Account[];
   categories: Category[];
   setCategories: React.Dispatch<React.SetStateAction<Category[]>>;
+  onRevertField: (transactionId: string, field: string, value: unknown) => void;
+  // Changes whenever new history is saved, so the list below reloads.
+  auditRevision: number;
+  // Tags already used elsewhere, offered as suggestions.
+  knownTags: string[];
 }
 
 const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
@@ -24,14 +35,51 @@ const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
   onDelete,
   accounts,
   categories,
-  setCategories
+  setCategories,
+  onRevertField,
+  auditRevision,
+  knownTags
 }) => {
   const [editedTx, setEditedTx] = useState(transaction);
+  const [tagInput, setTagInput] = useState('');
+  const tagListId = React.useId();
+  const [history, setHistory] = useState<TransactionAuditEntry[] | null>(null);
 
   useEffect(() => {
     setEditedTx(transaction);
   }, [transaction]);
 
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    loadAuditTrail(transaction.id)
+      .then(entries => { if (!cancelled) setHistory(entries.reverse()); })
+      .catch(error => { console.error(error); if (!cancelled) setHistory([]); });
+    return () => { cancelled = true; };
+  }, [isOpen, transaction.id, auditRevision]);
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (field === 'accountId') return accounts.find(a => a.id === value)?.name || 'Deleted account';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (typeof value === 'number') return value.toLocaleString();
+    if (typeof value === 'string') return value;
+    if (field === 'tags' && Array.isArray(value)) return value.join(', ');
+    if (field === 'splits' && Array.isArray(value)) return (value as TransactionSplit[]).map(split => `${split.category} ${split.amount.toLocaleString()}`).join(', ');
+    return Array.isArray(value) ? `${value.length} item${value.length === 1 ? '' : 's'}` : 'Changed';
+  };
+
+  const describeEntry = (entry: TransactionAuditEntry) => {
+    if (entry.field === CREATED_FIELD) return 'Added';
+    if (entry.field === DELETED_FIELD) return 'Deleted';
+    if (entry.from === null) return `${auditFieldLabel(entry.field)} set to ${formatValue(entry.field, entry.to)}`;
+    return `${auditFieldLabel(entry.field)}: ${formatValue(entry.field, entry.from)} → ${formatValue(entry.field, entry.to)}`;
+  };
+
+  const handleRevert = (entry: TransactionAuditEntry) => {
+    onRevertField(transaction.id, entry.field, entry.from);
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     let finalValue: string | number = value;
@@ -48,23 +96,104 @@ const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
   }
   
   const handleCategoryBlur = () => {
-    if (editedTx.category && !categories.includes(editedTx.category)) {
-      setCategories(prev => [...prev, editedTx.category].sort());
+    const used = editedTx.splits ? editedTx.splits.map(split => split.category) : [editedTx.category];
+    const added = Array.from(new Set(used.filter(category => category && !categories.includes(category))));
+    if (added.length > 0) {
+      setCategories(prev => [...prev, ...added].sort());
     }
   }
 
+  // Splitting starts with the whole amount on the current category and an empty second line.
+  const handleStartSplit = () => {
+    setEditedTx(prev => ({ ...prev, splits: [{ category: prev.category, amount: prev.amount }, { category: '', amount: 0 }] }));
+  };
+
+  const handleSplitChange = (index: number, updates: Partial<TransactionSplit>) => {
+    setEditedTx(prev => ({ ...prev, splits: prev.splits?.map((split, i) => i === index ? { ...split, ...updates } : split) }));
+  };
+
+  const handleAddSplitLine = () => {
+    setEditedTx(prev => {
+      const splits = prev.splits || [];
+      return { ...prev, splits: [...splits, { category: '', amount: Math.max(splitRemainder(prev.amount, splits), 0) }] };
+    });
+  };
+
+  // With one line left the transaction is no longer split, so that line's category becomes its category.
+  const handleRemoveSplitLine = (index: number) => {
+    setEditedTx(prev => {
+      const splits = (prev.splits || []).filter((_, i) => i !== index);
+      if (splits.length > 1) return { ...prev, splits };
+      const { splits: _removed, ...rest } = prev;
+      return { ...rest, category: splits[0]?.category || prev.category };
+    });
+  };
+
+  const commitTagInput = () => {
+    const tags = parseTags(tagInput);
+    if (tags.length > 0) setEditedTx(prev => retagTransaction(prev, tags));
+    setTagInput('');
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      commitTagInput();
+    } else if (e.key === 'Backspace' && !tagInput && editedTx.tags?.length) {
+      const last = editedTx.tags[editedTx.tags.length - 1];
+      setEditedTx(prev => retagTransaction(prev, [], [last]));
+    }
+  };
+
+  const handleNotesChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const notes = e.target.value;
+    setEditedTx(prev => {
+      if (notes) return { ...prev, notes };
+      const { notes: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleAttachmentsChange = (attachmentIds: string[]) => {
+    setEditedTx(prev => {
+      if (attachmentIds.length > 0) return { ...prev, attachmentIds };
+      const { attachmentIds: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // Files attached in this edit are already stored; if the edit is dropped nothing refers to them.
+  // Files taken off a saved transaction are kept, since undoing the save brings the reference back.
+  const handleClose = () => {
+    const saved = new Set(transaction.attachmentIds || []);
+    deleteAttachments((editedTx.attachmentIds || []).filter(id => !saved.has(id))).catch(error => console.error(error));
+    setEditedTx(transaction);
+    onClose();
+  };
+
+  const splitError = editedTx.splits ? validateSplits(editedTx.amount, editedTx.splits) : null;
+
   const handleSave = () => {
-    onSave(editedTx);
+    if (splitError) return;
+    // A tag still being typed is kept rather than lost.
+    const withTags = tagInput.trim() ? retagTransaction(editedTx, parseTags(tagInput)) : editedTx;
+    setTagInput('');
+    if (withTags.splits) {
+      const category = primarySplitCategory(withTags.splits);
+      onSave({ ...withTags, category, isTransfer: category === 'Internal Transfer' });
+      return;
+    }
+    onSave(withTags);
   };
   
   const handleDelete = () => {
-    if(window.confirm("Are you sure you want to delete this transaction? This action cannot be undone.")) {
+    if(window.confirm("Delete this transaction? You can undo this straight afterwards.")) {
         onDelete(transaction.id);
     }
   }
 
   return (
-    <BaseModal isOpen={isOpen} onClose={onClose} title="Edit Transaction">
+    <BaseModal isOpen={isOpen} onClose={handleClose} title="Edit Transaction">
       <div className="space-y-4">
         <div>
           <label htmlFor="merchant" className="block text-sm font-medium text-brand-gray-700">Merchant</label>
@@ -96,22 +225,106 @@ const EditTransactionModal: React.FC<EditTransactionModalProps> = ({
             </div>
         </div>
         <div>
-            <label htmlFor="category" className="block text-sm font-medium text-brand-gray-700">Category</label>
-            <CategoryEditor
-                value={editedTx.category}
-                onChange={handleCategoryChange}
-                onBlur={handleCategoryBlur}
-                categories={categories}
-            />
+            <div className="flex items-center justify-between">
+              <label htmlFor="category" className="block text-sm font-medium text-brand-gray-700">Category</label>
+              {!editedTx.splits && (
+                <button type="button" onClick={handleStartSplit} className="text-xs font-medium text-brand-green hover:underline flex items-center gap-1"><Split size={12} /> Split</button>
+              )}
+            </div>
+            {editedTx.splits ? (
+              <div className="mt-1 space-y-2">
+                {editedTx.splits.map((split, index) => (
+                  <div key={index} className="flex gap-2 items-start">
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <CategoryEditor
+                          value={split.category}
+                          onChange={category => handleSplitChange(index, { category })}
+                          onBlur={handleCategoryBlur}
+                          categories={categories}
+                          autoFocus={false}
+                      />
+                      <input type="text" value={split.note || ''} onChange={e => handleSplitChange(index, { note: e.target.value || undefined })} placeholder="Note (optional)" className="block w-full rounded-md border-brand-gray-300 shadow-sm focus:border-brand-green focus:ring-brand-green text-xs p-1" />
+                    </div>
+                    <input type="number" value={split.amount} onChange={e => handleSplitChange(index, { amount: parseFloat(e.target.value) || 0 })} aria-label="Line amount" className="w-28 rounded-md border-brand-gray-300 shadow-sm focus:border-brand-green focus:ring-brand-green sm:text-sm p-1" />
+                    <Button size="sm" variant="ghost" onClick={() => handleRemoveSplitLine(index)} aria-label="Remove line"><X size={14} /></Button>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between gap-2">
+                  <button type="button" onClick={handleAddSplitLine} className="text-xs font-medium text-brand-green hover:underline flex items-center gap-1"><Plus size={12} /> Add line</button>
+                  <p className={`text-xs ${splitError ? 'text-red-600' : 'text-brand-gray-500'}`}>{splitError || `Adds up to ${editedTx.amount.toLocaleString()}.`}</p>
+                </div>
+              </div>
+            ) : (
+              <CategoryEditor
+                  value={editedTx.category}
+                  onChange={handleCategoryChange}
+                  onBlur={handleCategoryBlur}
+                  categories={categories}
+              />
+            )}
         </div>
+        <div>
+            <label htmlFor="tags" className="block text-sm font-medium text-brand-gray-700">Tags</label>
+            <div className="mt-1 flex flex-wrap items-center gap-1 rounded-md border border-brand-gray-300 p-1 focus-within:border-brand-green">
+              {editedTx.tags?.map(tag => (
+                <span key={tag} className="inline-flex items-center gap-1 rounded-full bg-brand-green-50 px-2 py-0.5 text-xs font-medium text-brand-green-800">
+                  <Tag size={10} /> {tag}
+                  <button type="button" onClick={() => setEditedTx(prev => retagTransaction(prev, [], [tag]))} aria-label={`Remove tag ${tag}`}><X size={10} /></button>
+                </span>
+              ))}
+              <input
+                id="tags"
+                list={tagListId}
+                value={tagInput}
+                onChange={e => setTagInput(e.target.value)}
+                onKeyDown={handleTagKeyDown}
+                onBlur={commitTagInput}
+                placeholder={editedTx.tags?.length ? '' : 'e.g. wedding 2026, reimbursable'}
+                className="flex-1 min-w-[8rem] border-0 p-1 text-sm focus:ring-0"
+              />
+              <datalist id={tagListId}>
+                {knownTags.filter(tag => !editedTx.tags?.includes(tag)).map(tag => <option key={tag} value={tag} />)}
+              </datalist>
+            </div>
+        </div>
+        <div>
+            <label htmlFor="notes" className="block text-sm font-medium text-brand-gray-700">Notes</label>
+            <textarea id="notes" rows={2} value={editedTx.notes || ''} onChange={handleNotesChange} className="mt-1 block w-full rounded-md border-brand-gray-300 shadow-sm focus:border-brand-green focus:ring-brand-green sm:text-sm" />
+        </div>
+        <div>
+            <p className="block text-sm font-medium text-brand-gray-700 mb-1">Receipts and documents</p>
+            <AttachmentList attachmentIds={editedTx.attachmentIds || []} onChange={handleAttachmentsChange} />
+        </div>
+      </div>
+      <div className="mt-6 border-t border-brand-gray-200 pt-4">
+        <h3 className="text-sm font-semibold text-brand-gray-700 flex items-center gap-2 mb-2"><History size={16} /> History</h3>
+        {history === null ? <Spinner size="sm" /> : history.length === 0 ? (
+          <p className="text-xs text-brand-gray-500">No changes recorded yet. Changes are recorded from now on.</p>
+        ) : (
+          <ul className="max-h-48 overflow-y-auto divide-y divide-brand-gray-100">
+            {history.map(entry => (
+              <li key={entry.id} className="py-2 flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm text-brand-gray-800 break-words">{describeEntry(entry)}</p>
+                  <p className="text-xs text-brand-gray-500">{CHANGE_SOURCE_LABELS[entry.source]}{entry.note && ` · ${entry.note}`} · {new Date(entry.at).toLocaleString()}</p>
+                </div>
+                {canRevertEntry(entry, transaction) && (
+                  <Button size="sm" variant="ghost" onClick={() => handleRevert(entry)} title={`Put back ${formatValue(entry.field, entry.from)}`}>
+                    <RotateCcw size={14} />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
       <div className="mt-6 flex justify-between items-center">
         <Button variant="ghost" className="text-red-600 hover:bg-red-50" onClick={handleDelete} aria-label="Delete transaction">
             <Trash2 size={16} />
         </Button>
         <div className="flex gap-3">
-          <Button variant="secondary" onClick={onClose}>Cancel</Button>
-          <Button onClick={handleSave}>Save Changes</Button>
+          <Button variant="secondary" onClick={handleClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!!splitError}>Save Changes</Button>
         </div>
       </div>
     </BaseModal>
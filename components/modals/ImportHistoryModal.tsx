@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Account, ImportBatch, Transaction, TransactionType } from '../../types';
+import BaseModal from './BaseModal';
+import Button from '../ui/Button';
+import { ChevronDown, ChevronRight, FileText, Undo2 } from 'lucide-react';
+
+interface ImportHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  batches: ImportBatch[];
+  transactions: Transaction[];
+  accounts: Account[];
+  onRollback: (batchId: string) => void;
+}
+
+const KESFormatter = new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'KES',
+});
+
+const ImportHistoryModal: React.FC<ImportHistoryModalProps> = ({ isOpen, onClose, batches, transactions, accounts, onRollback }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setExpandedId(null);
+    setConfirmingId(null);
+    onClose();
+  };
+
+  const handleRollback = (batchId: string) => {
+    onRollback(batchId);
+    setConfirmingId(null);
+  };
+
+  const renderBatch = (batch: ImportBatch) => {
+    const isExpanded = expandedId === batch.id;
+    const isRolledBack = !!batch.rolledBackAt;
+    const batchTransactions = isExpanded ? transactions.filter(t => t.importBatchId === batch.id) : [];
+    const accountName = accounts.find(a => a.id === batch.accountId)?.name || 'Unknown account';
+
+    return (
+      <div key={batch.id} className={`rounded-lg border ${isRolledBack ? 'border-brand-gray-200 bg-brand-gray-50 opacity-70' : 'border-brand-gray-200'}`}>
+        <button onClick={() => setExpandedId(isExpanded ? null : batch.id)} className="w-full p-3 flex items-center gap-3 text-left">
+          {isExpanded ? <ChevronDown size={16} className="text-brand-gray-400" /> : <ChevronRight size={16} className="text-brand-gray-400" />}
+          <FileText size={18} className="text-brand-gray-500 flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-brand-gray-800 truncate">{batch.fileName}</p>
+            <p className="text-xs text-brand-gray-500">{accountName} · {batch.parser} · {new Date(batch.createdAt).toLocaleString()}</p>
+          </div>
+          <div className="text-right text-xs">
+            {isRolledBack ? (
+              <span className="font-medium text-brand-gray-500">Undone</span>
+            ) : (
+              <>
+                <p className="font-semibold text-brand-gray-800">{batch.importedCount} imported</p>
+                {batch.skippedCount > 0 && <p className="text-brand-gray-500">{batch.skippedCount} skipped</p>}
+              </>
+            )}
+          </div>
+        </button>
+
+        {isExpanded && (
+          <div className="border-t border-brand-gray-200 p-3 space-y-3">
+            {isRolledBack ? (
+              <p className="text-xs text-brand-gray-500">Undone on {new Date(batch.rolledBackAt!).toLocaleString()}.</p>
+            ) : batch.importedCount === 0 ? (
+              <p className="text-xs text-brand-gray-500">Every row was already recorded, so nothing was imported.</p>
+            ) : (
+              <>
+                <div className="max-h-48 overflow-y-auto divide-y divide-brand-gray-100">
+                  {batchTransactions.length === 0 && <p className="text-xs text-brand-gray-500 py-2">These transactions have since been deleted.</p>}
+                  {batchTransactions.map(tx => (
+                    <div key={tx.id} className="flex items-center justify-between py-1.5 text-xs">
+                      <div className="min-w-0">
+                        <p className="font-medium text-brand-gray-800 truncate">{tx.merchant}</p>
+                        <p className="text-brand-gray-500">{tx.date} · {tx.category}</p>
+                      </div>
+                      <p className={`font-semibold ${tx.type === TransactionType.Income ? 'text-green-600' : 'text-brand-gray-800'}`}>
+                        {tx.type === TransactionType.Income ? '+' : '-'}{KESFormatter.format(tx.amount)}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+                {(batch.addedCategories.length > 0 || batch.loyaltyCardChanges.length > 0) && (
+                  <p className="text-xs text-brand-gray-500">
+                    This import also added {batch.addedCategories.length} categor{batch.addedCategories.length === 1 ? 'y' : 'ies'} and updated {batch.loyaltyCardChanges.length} loyalty card{batch.loyaltyCardChanges.length === 1 ? '' : 's'}. Undoing reverts those too, unless they have changed since.
+                  </p>
+                )}
+                <div className="flex justify-end gap-2">
+                  {confirmingId === batch.id ? (
+                    <>
+                      <Button size="sm" variant="secondary" onClick={() => setConfirmingId(null)}>Keep</Button>
+                      <Button size="sm" onClick={() => handleRollback(batch.id)}>Remove {batchTransactions.length} transactions</Button>
+                    </>
+                  ) : (
+                    <Button size="sm" variant="ghost" onClick={() => setConfirmingId(batch.id)}><Undo2 size={14} className="mr-2" />Undo this import</Button>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={handleClose} title="Import History" maxWidth="max-w-xl">
+      {batches.length === 0 ? (
+        <div className="text-center py-8"><p className="text-brand-gray-600">No imports yet.</p></div>
+      ) : (
+        <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+          {batches.map(renderBatch)}
+        </div>
+      )}
+      <div className="mt-6 flex justify-end">
+        <Button variant="secondary" onClick={handleClose}>Close</Button>
+      </div>
+    </BaseModal>
+  );
+};
+
+export default ImportHistoryModal;
@@ -1,30 +1,60 @@
 
-import React, { useState, useEffect } from 'react';
-import { Account, CategorizationExample, ParsedTransaction, Transaction, TransactionType } from '../../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Account, CategorizationExample, DateFormat, ImportColumn, ImportProfile, ImportSource, ParsedTransaction, PreparsedImport, ImportedTransaction, StatementChunk, Transaction, TransactionType } from '../../types';
 import BaseModal from './BaseModal';
 import Button from '../ui/Button';
 import Spinner from '../ui/Spinner';
-import { UploadCloud, Calendar, ShoppingBag, Hash, Tag, Download, FileText, History, CheckCircle2, ArrowRight } from 'lucide-react';
-import { parseTransactionsFromFile, batchEnrichTransactions, TransactionToEnrich } from '../../services/geminiService';
+import { UploadCloud, Calendar, ShoppingBag, Hash, Tag, Download, FileText, History, CheckCircle2, ArrowRight, AlertTriangle, Columns, Sparkles, KeyRound, Scale, Copy, Receipt } from 'lucide-react';
+import { batchEnrichTransactions, TransactionToEnrich } from '../../services/geminiService';
+import { parseStatementChunks, splitCsvIntoChunks, splitPdfIntoPageChunks, wholeDocumentChunk } from '../../services/statementChunkingService';
 import { getCachedEnrichment } from '../../services/cachingService';
 import { extractHeuristicData } from '../../services/heuristicService';
 import { getCategoryForMerchant } from '../../services/merchantCategoryMapService';
+import { DateFormatDetection, DATE_FORMAT_LABELS, detectDateFormat, parseDateWithFormat } from '../../services/dateParsingService';
+import { isMpesaStatement, parseMpesaStatementCsv, parseMpesaStatementLines } from '../../services/mpesaStatementService';
+import { extractPdfLines, isPdfPasswordError } from '../../services/pdfTextService';
+import { BalanceIssue, suggestInitialBalance, verifyRunningBalances } from '../../services/balanceVerificationService';
+import { STATEMENT_FORMAT_LABELS, detectStatementFormat, parseStructuredStatement } from '../../services/statementFormatService';
+import { looksLikeSmsDump, parseSmsDump } from '../../services/smsParserService';
+import { buildDuplicateIndex, findLikelyDuplicate } from '../../services/deduplicationService';
+import { findRecordedFees, linkFees } from '../../services/feeLinkingService';
+import { ColumnMapping, DELIMITER_LABELS, IMPORT_COLUMN_LABELS, TableReadOptions, detectDelimiter, findMatchingProfile, guessColumnMapping, headerFingerprint, isMappingComplete, mapRowsToTransactions, readDelimitedTable } from '../../services/csvImportService';
 import CategoryEditor from '../CategoryEditor';
 import VirtualList from '../ui/VirtualList';
 
 interface ImportTransactionsModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onImport: (transactions: Omit<Transaction, 'id'>[]) => void;
+  onImport: (transactions: ImportedTransaction[], source: ImportSource) => void;
   accounts: Account[];
+  transactions: Transaction[];
+  onSetInitialBalance: (accountId: string, initialBalance: number) => void;
   categorizationExamples: CategorizationExample[];
   categories: string[];
+  importProfiles: ImportProfile[];
+  onSaveImportProfile: (profile: Omit<ImportProfile, 'id'>) => void;
   isInitialOnboarding?: boolean;
+  preparsed?: PreparsedImport | null;
 }
 
-type Step = 'intro' | 'selectAccount' | 'upload' | 'review' | 'loading';
+type Step = 'intro' | 'selectAccount' | 'upload' | 'mapping' | 'review' | 'loading' | 'partial';
 
-const ImportTransactionsModal: React.FC<ImportTransactionsModalProps> = ({ isOpen, onClose, onImport, accounts, categorizationExamples, categories, isInitialOnboarding = false }) => {
+const DEFAULT_TABLE_OPTIONS: TableReadOptions = { delimiter: ',', skipHeaderRows: 0, skipFooterRows: 0 };
+
+const KESFormatter = new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'KES',
+});
+
+const describeBalanceIssue = (issue: BalanceIssue): string => {
+  switch (issue.kind) {
+    case 'sign_flip': return 'Money in/out looks reversed';
+    case 'gap': return `${KESFormatter.format(Math.abs(issue.difference || 0))} ${(issue.difference || 0) > 0 ? 'in' : 'out'} unaccounted for before this row`;
+    case 'missing_balance': return 'No balance on this row';
+  }
+};
+
+const ImportTransactionsModal: React.FC<ImportTransactionsModalProps> = ({ isOpen, onClose, onImport, accounts, transactions, onSetInitialBalance, categorizationExamples, categories, importProfiles, onSaveImportProfile, isInitialOnboarding = false, preparsed = null }) => {
   const [step, setStep] = useState<Step>(isInitialOnboarding ? 'intro' : 'selectAccount');
   const [selectedAccountId, setSelectedAccountId] = useState<string>(accounts[0]?.id || '');
   const [file, setFile] = useState<File | null>(null);
@@ -33,6 +63,25 @@ const ImportTransactionsModal: React.FC<ImportTransactionsModalProps> = ({ isOpe
   const [loadingMessage, setLoadingMessage] = useState('Analyzing your statement...');
   const [enrichmentStatus, setEnrichmentStatus] = useState({ processed: 0, total: 0 });
   const [parsingMethod, setParsingMethod] = useState<'local' | 'ai'>('ai');
+  const [dateDetection, setDateDetection] = useState<DateFormatDetection | null>(null);
+  const [dateFormat, setDateFormat] = useState<DateFormat | null>(null);
+  const [csvText, setCsvText] = useState('');
+  const [tableOptions, setTableOptions] = useState<TableReadOptions>(DEFAULT_TABLE_OPTIONS);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [shouldSaveProfile, setShouldSaveProfile] = useState(true);
+  const [profileName, setProfileName] = useState('');
+  const [activeProfile, setActiveProfile] = useState<ImportProfile | null>(null);
+  const [pendingProfile, setPendingProfile] = useState<Omit<ImportProfile, 'id'> | null>(null);
+  const [localParserLabel, setLocalParserLabel] = useState('');
+  const [parserName, setParserName] = useState('AI');
+  const [pdfPassword, setPdfPassword] = useState('');
+  const [needsPdfPassword, setNeedsPdfPassword] = useState(false);
+  // The user's choice for review rows flagged as likely duplicates (true = import). Rows without one follow
+  // the default: near-exact matches are skipped, looser ones imported.
+  const [duplicateChoices, setDuplicateChoices] = useState<Map<number, boolean>>(new Map());
+  // AI parsing runs chunk by chunk; results are kept per chunk (null = failed) so a retry only resends failures.
+  const [aiChunks, setAiChunks] = useState<StatementChunk[]>([]);
+  const [chunkResults, setChunkResults] = useState<(ParsedTransaction[] | null)[]>([]);
 
   useEffect(() => {
     if (isOpen && accounts.length > 0) {
@@ -59,6 +108,22 @@ const ImportTransactionsModal: React.FC<ImportTransactionsModalProps> = ({ isOpe
     setError(null);
     setEnrichmentStatus({ processed: 0, total: 0 });
     setParsingMethod('ai');
+    setDateDetection(null);
+    setDateFormat(null);
+    setCsvText('');
+    setTableOptions(DEFAULT_TABLE_OPTIONS);
+    setColumnMapping({});
+    setShouldSaveProfile(true);
+    setProfileName('');
+    setActiveProfile(null);
+    setPendingProfile(null);
+    setLocalParserLabel('');
+    setParserName('AI');
+    setPdfPassword('');
+    setNeedsPdfPassword(false);
+    setDuplicateChoices(new Map());
+    setAiChunks([]);
+    setChunkResults([]);
   };
 
   const handleClose = () => {
@@ -69,99 +134,236 @@ const ImportTransactionsModal: React.FC<ImportTransactionsModalProps> = ({ isOpe
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files?.[0]) {
       setFile(e.target.files[0]);
+      setPdfPassword('');
+      setNeedsPdfPassword(false);
     }
   };
 
   const sanitizeTransaction = (tx: any): ParsedTransaction => {
     let amount = parseFloat(String(tx.amount).replace(/[^0-9.-]+/g, ""));
     if (isNaN(amount)) amount = 0;
-    let date = tx.date;
-    if (!date || isNaN(new Date(date).getTime())) {
-      date = new Date().toISOString().split('T')[0];
-    }
+    // The AI is asked for YYYY-MM-DD; anything else is flagged for the user rather than guessed.
+    const rawDate = tx.date ? String(tx.date) : '';
+    const date = parseDateWithFormat(rawDate, 'YYYY-MM-DD') || '';
     return {
       description: tx.description || 'Unknown Transaction',
       date: date,
+      rawDate,
+      dateUnparsed: !date,
       amount: Math.abs(amount),
       type: (tx.type === 'income' || tx.type === TransactionType.Income) ? TransactionType.Income : TransactionType.Expense,
       merchant: tx.merchant,
-      category: tx.category
+      category: tx.category,
+      balance: typeof tx.balance === 'number' ? tx.balance : undefined
     };
   };
 
-  const parseCSVLocally = (text: string): ParsedTransaction[] | null => {
-    try {
-      const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
-      if (lines.length < 2) return null;
-      const headers = lines[0].toLowerCase().split(',').map(h => h.trim().replace(/"/g, ''));
-      const dateIdx = headers.findIndex(h => h.includes('date'));
-      const descIdx = headers.findIndex(h => h.includes('description') || h.includes('details') || h.includes('narration'));
-      const amountIdx = headers.findIndex(h => h === 'amount' || h.includes('value'));
-      const debitIdx = headers.findIndex(h => h.includes('debit') || h.includes('withdrawal'));
-      const creditIdx = headers.findIndex(h => h.includes('credit') || h.includes('deposit'));
-
-      if (dateIdx === -1 || descIdx === -1) return null;
-      const results: ParsedTransaction[] = [];
-      const csvSplitRegex = /,(?=(?:(?:[^"]*"){2})*[^"]*$)/;
-
-      for (let i = 1; i < lines.length; i++) {
-        const row = lines[i].split(csvSplitRegex).map(cell => cell.trim().replace(/^"|"$/g, ''));
-        if (row.length < headers.length) continue;
-        const dateStr = row[dateIdx];
-        const description = row[descIdx];
-        let amount = 0;
-        let type = TransactionType.Expense;
-
-        if (debitIdx !== -1 && creditIdx !== -1) {
-          const debitVal = parseFloat(row[debitIdx].replace(/,/g, '')) || 0;
-          const creditVal = parseFloat(row[creditIdx].replace(/,/g, '')) || 0;
-          if (creditVal > 0) { amount = creditVal; type = TransactionType.Income; }
-          else { amount = debitVal; type = TransactionType.Expense; }
-        } else if (amountIdx !== -1) {
-          const rawAmt = parseFloat(row[amountIdx].replace(/,/g, ''));
-          if (!isNaN(rawAmt)) { amount = Math.abs(rawAmt); type = rawAmt < 0 ? TransactionType.Expense : TransactionType.Income; }
-        }
+  const applyDateFormat = (transactions: ParsedTransaction[], format: DateFormat | null): ParsedTransaction[] => {
+    return transactions.map(tx => {
+      // Rows that arrive already dated with nothing raw to re-read (e.g. SMS backups' received date) are kept,
+      // as are dates the user has fixed by hand.
+      if ((!tx.rawDate && tx.date) || tx.dateEdited) return tx;
+      const date = format ? parseDateWithFormat(tx.rawDate || '', format) : null;
+      return { ...tx, date: date || '', dateUnparsed: !date };
+    });
+  };
 
-        if (description && (amount > 0 || (debitIdx !== -1))) {
-          const dateObj = new Date(dateStr);
-          const validDate = !isNaN(dateObj.getTime()) ? dateObj.toISOString().split('T')[0] : new Date().toISOString().split('T')[0];
-          results.push({ date: validDate, description, amount, type, merchant: description, category: undefined });
+  /**
+   * @param label Shown above the review list.
+   * @param parser Short name recorded in import history.
+   */
+  const startLocalReview = (transactions: ParsedTransaction[], label: string, parser: string, savedFormat?: DateFormat) => {
+    const detection = detectDateFormat(transactions.map(tx => tx.rawDate || ''));
+    const format = savedFormat || detection.format;
+    setParsingMethod('local');
+    setLocalParserLabel(label);
+    setParserName(parser);
+    setDateDetection(savedFormat ? { ...detection, format: savedFormat, isAmbiguous: false } : detection);
+    setDateFormat(format);
+    setParsedTransactions(applyDateFormat(transactions, format));
+    setStep('review');
+  };
+
+  useEffect(() => {
+    if (isOpen && preparsed) {
+      setSelectedAccountId(preparsed.accountId);
+      startLocalReview(preparsed.transactions, preparsed.label, 'M-PESA SMS', 'DD/MM/YYYY');
+    }
+  }, [isOpen, preparsed]);
+
+  const parseWithAI = async () => {
+    if (!file) return;
+    setStep('loading');
+    setError(null);
+    try {
+      setParsingMethod('ai');
+      setParserName('AI');
+      setLoadingMessage("Complex file detected. Using AI to analyze...");
+      let chunks: StatementChunk[] = [];
+      if (file.type === 'text/csv' || file.name.endsWith('.csv')) {
+        chunks = splitCsvIntoChunks(await file.text());
+      } else if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
+        try {
+          chunks = await splitPdfIntoPageChunks(file, pdfPassword);
+        } catch (e) {
+          // A PDF we can't render here (corrupt, unusual, worker failure) may still be readable by the AI as a whole.
+          if (isPdfPasswordError(e)) throw e;
+          console.warn("Couldn't split the PDF into pages, sending it whole:", e);
         }
       }
-      return results.length > 0 ? results : null;
+      await runChunks(chunks.length > 0 ? chunks : [wholeDocumentChunk(file)], []);
     } catch (e) {
-      return null;
+      setError(e instanceof Error ? e.message : "An unknown error occurred.");
+      setStep('upload');
+    }
+  };
+
+  const runChunks = async (chunks: StatementChunk[], previous: (ParsedTransaction[] | null)[]) => {
+    setStep('loading');
+    setError(null);
+    const { results, failed } = await parseStatementChunks(chunks, previous, (finished, total, chunk) => {
+      if (total > 1) setLoadingMessage(`Analyzing ${chunk.label} (${finished} of ${total} parts done)...`);
+    });
+    setAiChunks(chunks);
+    setChunkResults(results);
+    if (failed.length === 0) {
+      finishChunkedParse(results);
+    } else {
+      setStep('partial');
     }
   };
 
+  const finishChunkedParse = (results: (ParsedTransaction[] | null)[]) => {
+    setParsedTransactions(results.flatMap(result => result || []).map(sanitizeTransaction));
+    setStep('review');
+  };
+
   const handleProcessFile = async () => {
     if (!file) return;
     setStep('loading');
     setError(null);
 
     try {
-      if (file.type === 'text/csv' || file.name.endsWith('.csv')) {
-        const text = await file.text();
-        const localResult = parseCSVLocally(text);
-        if (localResult) {
-          setParsingMethod('local');
-          setParsedTransactions(localResult);
-          setStep('review');
+      if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
+        // M-PESA statements are text PDFs we can read on-device; anything else goes to the AI.
+        setLoadingMessage("Reading your statement...");
+        let lines: string[] = [];
+        try {
+          lines = (await extractPdfLines(file, pdfPassword)).flat();
+        } catch (e) {
+          // Only a password stops the import; anything else on-device parsing can't handle goes to the AI.
+          if (isPdfPasswordError(e)) throw e;
+          console.warn("Couldn't read the PDF on this device, falling back to AI:", e);
+          await parseWithAI();
           return;
         }
+        setNeedsPdfPassword(false);
+        if (isMpesaStatement(lines.join('\n'))) {
+          const transactions = parseMpesaStatementLines(lines);
+          if (transactions.length > 0) {
+            startLocalReview(transactions, 'M-PESA statement read on this device', 'M-PESA statement (PDF)', 'MPESA_COMPLETION_TIME');
+            return;
+          }
+        }
       }
-      setParsingMethod('ai');
-      setLoadingMessage("Complex file detected. Using AI to analyze...");
-      const result = await parseTransactionsFromFile(file);
-      const sanitized = result.map(sanitizeTransaction);
-      setParsedTransactions(sanitized);
-      setStep('review');
+
+      const isTextFile = !file.type.startsWith('image/') && file.type !== 'application/pdf';
+      const text = isTextFile ? await file.text() : '';
+      const structuredFormat = isTextFile ? detectStatementFormat(file.name, text) : null;
+      if (structuredFormat) {
+        const transactions = parseStructuredStatement(structuredFormat, text);
+        if (transactions.length === 0) {
+          throw new Error(`No transactions found in this ${STATEMENT_FORMAT_LABELS[structuredFormat]} file.`);
+        }
+        // OFX and CAMT.053 dates are always ISO; QIF dates vary by writer, so those are detected.
+        startLocalReview(transactions, `${STATEMENT_FORMAT_LABELS[structuredFormat]} file read on this device`, STATEMENT_FORMAT_LABELS[structuredFormat], structuredFormat === 'qif' ? undefined : 'YYYY-MM-DD');
+        return;
+      }
+
+      const isCsvFile = file.type === 'text/csv' || file.name.endsWith('.csv');
+      if (isTextFile && !isCsvFile && looksLikeSmsDump(text)) {
+        const { transactions, unrecognised } = parseSmsDump(text);
+        if (transactions.length > 0) {
+          const label = `${transactions.length} M-PESA messages read on this device` + (unrecognised.length > 0 ? ` (${unrecognised.length} not recognised)` : '');
+          startLocalReview(transactions, label, 'M-PESA SMS', 'DD/MM/YYYY');
+          return;
+        }
+      }
+
+      if (isCsvFile) {
+        if (isMpesaStatement(text)) {
+          const transactions = parseMpesaStatementCsv(text);
+          if (transactions.length > 0) {
+            startLocalReview(transactions, 'M-PESA statement read on this device', 'M-PESA statement (CSV)', 'MPESA_COMPLETION_TIME');
+            return;
+          }
+        }
+
+        // A saved profile for this bank's layout skips the mapping step (and the AI) entirely.
+        const profile = findMatchingProfile(text, importProfiles, selectedAccountId);
+        if (profile) {
+          const transactions = mapRowsToTransactions(readDelimitedTable(text, profile).rows, profile.columns);
+          if (transactions.length > 0) {
+            setActiveProfile(profile);
+            startLocalReview(transactions, `Using saved profile "${profile.name}"`, `CSV profile "${profile.name}"`, profile.dateFormat);
+            return;
+          }
+        }
+
+        const options = { ...DEFAULT_TABLE_OPTIONS, delimiter: detectDelimiter(text) };
+        const accountName = accounts.find(a => a.id === selectedAccountId)?.name || 'Bank';
+        setCsvText(text);
+        setTableOptions(options);
+        setColumnMapping(guessColumnMapping(readDelimitedTable(text, options).headers));
+        setProfileName(`${accountName} statement`);
+        setStep('mapping');
+        return;
+      }
+      await parseWithAI();
     } catch (e) {
-      setError(e instanceof Error ? e.message : "An unknown error occurred.");
+      if (isPdfPasswordError(e)) {
+        setError(needsPdfPassword ? "That password didn't work. Please try again." : null);
+        setNeedsPdfPassword(true);
+      } else {
+        setError(e instanceof Error ? e.message : "An unknown error occurred.");
+      }
       setStep('upload');
     }
   };
 
+  const mappingTable = useMemo(() => step === 'mapping' ? readDelimitedTable(csvText, tableOptions) : null, [step, csvText, tableOptions]);
+
+  const handleTableOptionChange = (changes: Partial<TableReadOptions>) => {
+    const options = { ...tableOptions, ...changes };
+    setTableOptions(options);
+    // The header row moves with these options, so re-guess columns from the new headers.
+    setColumnMapping(guessColumnMapping(readDelimitedTable(csvText, options).headers));
+  };
+
+  const handleColumnChange = (column: ImportColumn, value: string) => {
+    setColumnMapping(prev => ({ ...prev, [column]: value === '' ? undefined : parseInt(value, 10) }));
+  };
+
+  const handleConfirmMapping = () => {
+    if (!mappingTable) return;
+    const transactions = mapRowsToTransactions(mappingTable.rows, columnMapping);
+    if (transactions.length === 0) {
+      setError("No transactions found with this mapping. Check the columns and skipped rows.");
+      return;
+    }
+    setError(null);
+    // Saved once the import is confirmed, so the profile keeps any date format override.
+    setPendingProfile(shouldSaveProfile && profileName.trim() ? {
+      name: profileName.trim(),
+      accountId: selectedAccountId,
+      headerFingerprint: headerFingerprint(mappingTable.headers),
+      ...tableOptions,
+      columns: columnMapping,
+      createdAt: new Date().toISOString(),
+    } : null);
+    startLocalReview(transactions, 'Fast Import Active: CSV processed locally', 'CSV column mapping');
+  };
+
   useEffect(() => {
     if (step === 'review' && parsedTransactions.length > 0) {
       setEnrichmentStatus({ processed: 0, total: parsedTransactions.length });
@@ -171,18 +373,24 @@ const ImportTransactionsModal: React.FC<ImportTransactionsModalProps> = ({ isOpe
         let processedOnDevice = 0;
 
         updatedTransactions.forEach((tx, index) => {
+          // Categories carried in the file itself (e.g. QIF) are kept as they are.
+          if (tx.category) {
+            updatedTransactions[index] = { ...tx, categorySource: tx.categorySource || 'import' };
+            processedOnDevice++;
+            return;
+          }
           const { merchant: identifiedMerchant, cacheKey } = extractHeuristicData(tx.description);
           if (identifiedMerchant) {
             const mappedCategory = getCategoryForMerchant(identifiedMerchant);
             if (mappedCategory) {
-              updatedTransactions[index] = { ...tx, merchant: identifiedMerchant, category: mappedCategory };
+              updatedTransactions[index] = { ...tx, merchant: identifiedMerchant, category: mappedCategory, categorySource: 'heuristic' };
               processedOnDevice++;
               return;
             }
           }
           const cachedData = getCachedEnrichment(cacheKey);
           if (cachedData) {
-            updatedTransactions[index] = { ...tx, merchant: identifiedMerchant || cachedData.merchant, ...cachedData };
+            updatedTransactions[index] = { ...tx, merchant: identifiedMerchant || cachedData.merchant, ...cachedData, categorySource: 'ai' };
             processedOnDevice++;
           } else {
             transactionsToEnrich.push({ index, description: tx.description, cacheKey, identifiedMerchant: identifiedMerchant || undefined });
@@ -199,7 +407,7 @@ const ImportTransactionsModal: React.FC<ImportTransactionsModalProps> = ({ isOpe
               const finalUpdated = [...prev];
               batchResults.forEach(result => {
                 if (finalUpdated[result.index]) {
-                  finalUpdated[result.index] = { ...finalUpdated[result.index], ...result };
+                  finalUpdated[result.index] = { ...finalUpdated[result.index], ...result, categorySource: 'ai' };
                 }
               });
               return finalUpdated;
@@ -217,11 +425,70 @@ const ImportTransactionsModal: React.FC<ImportTransactionsModalProps> = ({ isOpe
   const handleUpdateTransaction = (index: number, field: keyof ParsedTransaction, value: any) => {
     const updated = [...parsedTransactions];
     updated[index] = { ...updated[index], [field]: value };
+    if (field === 'category') {
+      updated[index].categorySource = 'user';
+    }
+    if (field === 'date') {
+      updated[index].dateUnparsed = !value;
+      updated[index].dateEdited = !!value;
+    }
     setParsedTransactions(updated);
   };
 
+  const handleDateFormatChange = (format: DateFormat) => {
+    setDateFormat(format);
+    setParsedTransactions(prev => applyDateFormat(prev, format));
+  };
+
+  const unparsedDateCount = parsedTransactions.filter(tx => tx.dateUnparsed).length;
+
+  // Re-run on every edit so fixing a row's amount or direction clears its warning.
+  const balanceCheck = useMemo(() => step === 'review' ? verifyRunningBalances(parsedTransactions) : null, [step, parsedTransactions]);
+  const balanceIssues = useMemo(() => new Map((balanceCheck?.issues || []).map(issue => [issue.index, issue])), [balanceCheck]);
+  const selectedAccount = accounts.find(a => a.id === selectedAccountId);
+  const suggestedInitialBalance = balanceCheck?.openingBalance != null && balanceCheck.startDate
+    ? suggestInitialBalance(balanceCheck.openingBalance, balanceCheck.startDate, selectedAccountId, transactions)
+    : null;
+
+  const duplicateIndex = useMemo(() => buildDuplicateIndex(transactions), [transactions]);
+  const duplicateMatches = useMemo(() => step === 'review'
+    ? parsedTransactions.map(tx => findLikelyDuplicate({ ...tx, merchant: tx.merchant || '', accountId: selectedAccountId }, duplicateIndex))
+    : [], [step, parsedTransactions, selectedAccountId, duplicateIndex]);
+  const isSkippedDuplicate = (index: number) => {
+    const match = duplicateMatches[index];
+    return !!match && !(duplicateChoices.get(index) ?? !match.nearExact);
+  };
+  const skippedDuplicateCount = parsedTransactions.filter((tx, index) => !tx.dateUnparsed && isSkippedDuplicate(index)).length;
+  const keptDuplicateCount = parsedTransactions.filter((tx, index) => !tx.dateUnparsed && !!duplicateMatches[index] && !isSkippedDuplicate(index)).length;
+  // Charge and excise duty rows already stored with their payment by an earlier import of an overlapping statement.
+  const recordedFees = useMemo(() => step === 'review'
+    ? findRecordedFees(parsedTransactions.map(tx => ({ ...tx, accountId: selectedAccountId })), transactions)
+    : new Map<number, Transaction>(), [step, parsedTransactions, selectedAccountId, transactions]);
+  const isImportedRow = (tx: ParsedTransaction, index: number) => !tx.dateUnparsed && !isSkippedDuplicate(index) && !recordedFees.has(index);
+  const recordedFeeCount = parsedTransactions.filter((tx, index) => !tx.dateUnparsed && !isSkippedDuplicate(index) && recordedFees.has(index)).length;
+  // Charge and excise duty rows that will be folded into the payment they were levied on.
+  const linkedFeeCount = useMemo(() => step === 'review'
+    ? linkFees(parsedTransactions.filter(isImportedRow).map(tx => ({ ...tx, accountId: selectedAccountId }))).linkedCount
+    : 0, [step, parsedTransactions, selectedAccountId, duplicateMatches, duplicateChoices, recordedFees]);
+
+  const handleToggleDuplicate = (index: number) => {
+    const include = isSkippedDuplicate(index);
+    setDuplicateChoices(prev => new Map(prev).set(index, include));
+  };
+
+  const handleFlipType = (index: number) => {
+    const tx = parsedTransactions[index];
+    handleUpdateTransaction(index, 'type', tx.type === TransactionType.Income ? TransactionType.Expense : TransactionType.Income);
+  };
+
   const handleConfirmImport = () => {
-    const newTransactions: Omit<Transaction, 'id'>[] = parsedTransactions.map(pt => {
+    if (pendingProfile) {
+      onSaveImportProfile({ ...pendingProfile, dateFormat: dateFormat || undefined });
+    } else if (activeProfile && dateFormat && dateFormat !== activeProfile.dateFormat) {
+      onSaveImportProfile({ ...activeProfile, dateFormat });
+    }
+    // Rows whose date could not be read are left out rather than dated today, as are likely duplicates and fees already recorded.
+    const newTransactions: ImportedTransaction[] = parsedTransactions.filter(isImportedRow).map(pt => {
       let logoUrl: string | undefined;
       // @ts-ignore 
       const website = pt.enrichedInfo?.website;
@@ -242,39 +509,71 @@ const ImportTransactionsModal: React.FC<ImportTransactionsModalProps> = ({ isOpe
         description: pt.description,
         logoUrl: logoUrl,
         isTransfer: pt.category === 'Internal Transfer',
+        reference: pt.reference,
+        externalId: pt.externalId,
+        categorySource: pt.category ? pt.categorySource : 'import',
       };
     });
-    onImport(newTransactions);
+    onImport(linkFees(newTransactions).rows, { fileName: file?.name || preparsed?.source || 'Unknown file', parser: parserName });
     handleClose();
   };
 
-  const renderReviewItem = (tx: ParsedTransaction, index: number) => (
-    <div className="p-4 rounded-lg border border-brand-gray-200 bg-brand-gray-50/50 mb-3 mx-1">
-      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-        <div className="col-span-1 sm:col-span-2">
-          <label className="flex items-center gap-2 text-xs font-medium text-brand-gray-500 mb-1"><ShoppingBag size={14} /> Merchant</label>
-          <input type="text" value={tx.merchant || ''} onChange={e => handleUpdateTransaction(index, 'merchant', e.target.value)} className="w-full border-brand-gray-300 rounded-md shadow-sm sm:text-sm p-2 focus:ring-brand-green focus:border-brand-green" />
-        </div>
-        <div>
-          <label className="flex items-center gap-2 text-xs font-medium text-brand-gray-500 mb-1"><Hash size={14} /> Amount</label>
-          <input type="number" value={tx.amount} onChange={e => handleUpdateTransaction(index, 'amount', parseFloat(e.target.value))} className="w-full border-brand-gray-300 rounded-md shadow-sm sm:text-sm p-2 focus:ring-brand-green focus:border-brand-green" />
-        </div>
-        <div>
-          <label className="flex items-center gap-2 text-xs font-medium text-brand-gray-500 mb-1"><Calendar size={14} /> Date</label>
-          <input type="date" value={tx.date} onChange={e => handleUpdateTransaction(index, 'date', e.target.value)} className="w-full border-brand-gray-300 rounded-md shadow-sm sm:text-sm p-2 focus:ring-brand-green focus:border-brand-green" />
-        </div>
-        <div className="col-span-1 sm:col-span-2">
-          <label className="flex items-center gap-2 text-xs font-medium text-brand-gray-500 mb-1"><Tag size={14} /> Category</label>
-          <CategoryEditor
-            value={tx.category || ''}
-            onChange={value => handleUpdateTransaction(index, 'category', value)}
-            onBlur={() => { }}
-            categories={categories}
-          />
+  const renderReviewItem = (tx: ParsedTransaction, index: number) => {
+    const balanceIssue = balanceIssues.get(index);
+    const duplicate = duplicateMatches[index];
+    const recordedOn = !duplicate ? recordedFees.get(index) : undefined;
+    const borderClass = tx.dateUnparsed ? 'border-red-300 bg-red-50/40'
+      : isSkippedDuplicate(index) || recordedOn ? 'border-brand-gray-200 bg-brand-gray-100 opacity-60'
+      : balanceIssue ? 'border-orange-300 bg-orange-50/40'
+      : 'border-brand-gray-200 bg-brand-gray-50/50';
+    return (
+      <div className={`p-4 rounded-lg border mb-3 mx-1 ${borderClass}`}>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="col-span-1 sm:col-span-2">
+            {duplicate ? (
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <span className="flex items-center gap-2 text-xs font-medium text-orange-600 truncate"><Copy size={14} /> Looks like {duplicate.existing.merchant} on {duplicate.existing.date}</span>
+                <label className="flex items-center gap-1 text-xs text-brand-gray-600 flex-shrink-0">
+                  <input type="checkbox" checked={!isSkippedDuplicate(index)} onChange={() => handleToggleDuplicate(index)} className="h-3.5 w-3.5 rounded border-gray-300 text-brand-green focus:ring-brand-green" />
+                  Import anyway
+                </label>
+              </div>
+            ) : recordedOn ? (
+              <span className="flex items-center gap-2 text-xs font-medium text-brand-gray-600 mb-1 truncate"><Receipt size={14} /> Already recorded with {recordedOn.merchant} on {recordedOn.date}</span>
+            ) : (
+              <label className="flex items-center gap-2 text-xs font-medium text-brand-gray-500 mb-1"><ShoppingBag size={14} /> Merchant</label>
+            )}
+            <input type="text" value={tx.merchant || ''} onChange={e => handleUpdateTransaction(index, 'merchant', e.target.value)} className="w-full border-brand-gray-300 rounded-md shadow-sm sm:text-sm p-2 focus:ring-brand-green focus:border-brand-green" />
+          </div>
+          <div>
+            {balanceIssue ? (
+              <label className="flex items-center gap-2 text-xs font-medium text-orange-600 mb-1 truncate" title={describeBalanceIssue(balanceIssue)}><Scale size={14} /> {describeBalanceIssue(balanceIssue)}</label>
+            ) : (
+              <label className="flex items-center gap-2 text-xs font-medium text-brand-gray-500 mb-1"><Hash size={14} /> {tx.type === TransactionType.Income ? 'Amount in' : 'Amount out'}</label>
+            )}
+            <input type="number" value={tx.amount} onChange={e => handleUpdateTransaction(index, 'amount', parseFloat(e.target.value))} className="w-full border-brand-gray-300 rounded-md shadow-sm sm:text-sm p-2 focus:ring-brand-green focus:border-brand-green" />
+          </div>
+          <div>
+            {tx.dateUnparsed ? (
+              <label className="flex items-center gap-2 text-xs font-medium text-red-600 mb-1 truncate" title={tx.rawDate}><AlertTriangle size={14} /> Couldn't read "{tx.rawDate || 'blank'}"</label>
+            ) : (
+              <label className="flex items-center gap-2 text-xs font-medium text-brand-gray-500 mb-1"><Calendar size={14} /> Date</label>
+            )}
+            <input type="date" value={tx.date} onChange={e => handleUpdateTransaction(index, 'date', e.target.value)} className={`w-full rounded-md shadow-sm sm:text-sm p-2 focus:ring-brand-green focus:border-brand-green ${tx.dateUnparsed ? 'border-red-300' : 'border-brand-gray-300'}`} />
+          </div>
+          <div className="col-span-1 sm:col-span-2">
+            <label className="flex items-center gap-2 text-xs font-medium text-brand-gray-500 mb-1"><Tag size={14} /> Category</label>
+            <CategoryEditor
+              value={tx.category || ''}
+              onChange={value => handleUpdateTransaction(index, 'category', value)}
+              onBlur={() => { }}
+              categories={categories}
+            />
+          </div>
         </div>
       </div>
-    </div>
-  );
+    );
+  };
 
   const isEnriching = enrichmentStatus.processed < enrichmentStatus.total;
 
@@ -318,14 +617,21 @@ const ImportTransactionsModal: React.FC<ImportTransactionsModalProps> = ({ isOpe
                 <div className="mt-4 flex text-sm leading-6 text-gray-600">
                   <label className="relative cursor-pointer rounded-md bg-white font-semibold text-brand-green hover:text-brand-green-500">
                     <span>Upload a file</span>
-                    <input type="file" className="sr-only" onChange={handleFileChange} accept="image/*,application/pdf,text/csv,.csv" />
+                    <input type="file" className="sr-only" onChange={handleFileChange} accept="image/*,application/pdf,text/csv,.csv,.ofx,.qfx,.qif,.xml,.txt" />
                   </label>
                   <p className="pl-1">or drag and drop</p>
                 </div>
-                <p className="text-xs leading-5 text-gray-600">PDF, CSV, PNG, JPG up to 10MB</p>
+                <p className="text-xs leading-5 text-gray-600">PDF, CSV, OFX, QIF, CAMT.053, SMS backup, PNG, JPG up to 10MB. M-PESA statements, SMS and bank export files are read on your device.</p>
                 {file && <p className="text-sm font-medium text-brand-gray-800 mt-2">{file.name}</p>}
               </div>
             </div>
+            {needsPdfPassword && (
+              <div className="mt-4">
+                <label htmlFor="pdfPassword" className="flex items-center gap-2 text-sm font-medium text-brand-gray-700"><KeyRound size={14} /> Statement password</label>
+                <input id="pdfPassword" type="password" value={pdfPassword} onChange={e => setPdfPassword(e.target.value)} className="mt-1 block w-full rounded-md border-brand-gray-300 shadow-sm focus:border-brand-green focus:ring-brand-green" autoFocus />
+                <p className="mt-1 text-xs text-brand-gray-500">This PDF is protected. M-PESA statements use your ID number.</p>
+              </div>
+            )}
             {error && <p className="text-sm text-red-600 mt-2 text-center">{error}</p>}
             <div className="mt-6 flex justify-between">
               <Button variant="secondary" onClick={() => setStep('selectAccount')}>Back</Button>
@@ -333,6 +639,101 @@ const ImportTransactionsModal: React.FC<ImportTransactionsModalProps> = ({ isOpe
             </div>
           </>
         );
+      case 'mapping': {
+        const headers = mappingTable?.headers || [];
+        const previewRows = mappingTable?.rows.slice(0, 3) || [];
+        return (
+          <>
+            <p className="text-sm text-brand-gray-600 mb-4">Tell us which column holds what. We'll remember this layout for the next statement from this bank.</p>
+            <div className="grid grid-cols-3 gap-3 mb-4">
+              <div>
+                <label htmlFor="delimiter" className="block text-xs font-medium text-brand-gray-500 mb-1">Delimiter</label>
+                <select id="delimiter" value={tableOptions.delimiter} onChange={e => handleTableOptionChange({ delimiter: e.target.value })} className="w-full text-sm rounded-md border-brand-gray-300 focus:border-brand-green focus:ring-brand-green">
+                  {Object.entries(DELIMITER_LABELS).map(([value, label]) => <option key={label} value={value}>{label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="skipHeaderRows" className="block text-xs font-medium text-brand-gray-500 mb-1">Skip rows above header</label>
+                <input id="skipHeaderRows" type="number" min={0} value={tableOptions.skipHeaderRows} onChange={e => handleTableOptionChange({ skipHeaderRows: Math.max(0, parseInt(e.target.value) || 0) })} className="w-full text-sm rounded-md border-brand-gray-300 focus:border-brand-green focus:ring-brand-green" />
+              </div>
+              <div>
+                <label htmlFor="skipFooterRows" className="block text-xs font-medium text-brand-gray-500 mb-1">Skip footer rows</label>
+                <input id="skipFooterRows" type="number" min={0} value={tableOptions.skipFooterRows} onChange={e => handleTableOptionChange({ skipFooterRows: Math.max(0, parseInt(e.target.value) || 0) })} className="w-full text-sm rounded-md border-brand-gray-300 focus:border-brand-green focus:ring-brand-green" />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              {(Object.keys(IMPORT_COLUMN_LABELS) as ImportColumn[]).map(column => (
+                <div key={column}>
+                  <label className="block text-xs font-medium text-brand-gray-500 mb-1">{IMPORT_COLUMN_LABELS[column]}</label>
+                  <select value={columnMapping[column] ?? ''} onChange={e => handleColumnChange(column, e.target.value)} className="w-full text-sm rounded-md border-brand-gray-300 focus:border-brand-green focus:ring-brand-green">
+                    <option value="">Not in this file</option>
+                    {headers.map((header, index) => <option key={index} value={index}>{header || `Column ${index + 1}`}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            {previewRows.length > 0 && (
+              <div className="mb-4 overflow-x-auto rounded-md border border-brand-gray-200">
+                <table className="min-w-full text-xs">
+                  <thead className="bg-brand-gray-50 text-brand-gray-500">
+                    <tr>{headers.map((header, index) => <th key={index} className="px-2 py-1 text-left font-medium whitespace-nowrap">{header}</th>)}</tr>
+                  </thead>
+                  <tbody>
+                    {previewRows.map((row, rowIndex) => (
+                      <tr key={rowIndex} className="border-t border-brand-gray-100">
+                        {headers.map((_, index) => <td key={index} className="px-2 py-1 whitespace-nowrap max-w-[160px] truncate">{row[index]}</td>)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2 mb-2">
+              <input id="saveProfile" type="checkbox" checked={shouldSaveProfile} onChange={e => setShouldSaveProfile(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-brand-green focus:ring-brand-green" />
+              <label htmlFor="saveProfile" className="text-sm text-brand-gray-700">Save as profile</label>
+              <input type="text" value={profileName} onChange={e => setProfileName(e.target.value)} disabled={!shouldSaveProfile} className="flex-1 text-sm rounded-md border-brand-gray-300 py-1 focus:border-brand-green focus:ring-brand-green disabled:opacity-50" placeholder="e.g. Equity Bank CSV" />
+            </div>
+
+            {error && <p className="text-sm text-red-600 mt-2 text-center">{error}</p>}
+            <div className="mt-6 flex justify-between">
+              <Button variant="secondary" onClick={() => setStep('upload')}>Back</Button>
+              <div className="flex gap-2">
+                <Button variant="ghost" onClick={parseWithAI}><Sparkles size={16} className="mr-2" />Use AI instead</Button>
+                <Button onClick={handleConfirmMapping} disabled={!isMappingComplete(columnMapping)}>Continue</Button>
+              </div>
+            </div>
+          </>
+        );
+      }
+      case 'partial': {
+        const failedLabels = aiChunks.filter((_, index) => !chunkResults[index]).map(chunk => chunk.label);
+        const keptCount = chunkResults.reduce((sum, result) => sum + (result?.length || 0), 0);
+        return (
+          <div className="space-y-4">
+            <div className="flex items-start gap-3 p-3 rounded-md bg-orange-50 border border-orange-100 text-orange-800 text-sm">
+              <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+              {aiChunks.length === 1 ? (
+                <p className="font-medium">The AI couldn't read this statement. You can try again.</p>
+              ) : (
+                <div>
+                  <p className="font-medium">{failedLabels.length} of {aiChunks.length} parts of this statement couldn't be read ({failedLabels.join(', ')}).</p>
+                  <p className="text-xs mt-1">The {keptCount} transactions from the other parts are kept. Retrying only sends the failed parts again.</p>
+                </div>
+              )}
+            </div>
+            <div className="flex justify-between">
+              <Button variant="secondary" onClick={() => setStep('upload')}>Back</Button>
+              <div className="flex gap-2">
+                {keptCount > 0 && <Button variant="ghost" onClick={() => finishChunkedParse(chunkResults)}>Continue with {keptCount}</Button>}
+                <Button onClick={() => runChunks(aiChunks, chunkResults)}>Retry failed part{failedLabels.length === 1 ? '' : 's'}</Button>
+              </div>
+            </div>
+          </div>
+        );
+      }
       case 'loading':
         return <div className="flex flex-col items-center justify-center h-48"><Spinner /><p className="mt-4 text-brand-gray-600">{loadingMessage}</p></div>;
       case 'review':
@@ -346,7 +747,86 @@ const ImportTransactionsModal: React.FC<ImportTransactionsModalProps> = ({ isOpe
                 </div>
               </div>
             ) : parsingMethod === 'local' && (
-              <div className="mb-4 text-center p-2 rounded-md bg-blue-50 border border-blue-100"><div className="flex items-center justify-center gap-2 text-blue-700"><FileText size={14} /><span className="text-xs font-medium">Fast Import Active: CSV processed locally</span></div></div>
+              <div className="mb-4 text-center p-2 rounded-md bg-blue-50 border border-blue-100"><div className="flex items-center justify-center gap-2 text-blue-700">{activeProfile ? <Columns size={14} /> : <FileText size={14} />}<span className="text-xs font-medium">{localParserLabel}</span></div></div>
+            )}
+
+            {parsingMethod === 'local' && (
+              <div className="mb-4 flex flex-wrap items-center justify-between gap-2 p-2 rounded-md border border-brand-gray-200 bg-brand-gray-50">
+                <label htmlFor="dateFormat" className="flex items-center gap-2 text-xs font-medium text-brand-gray-600">
+                  <Calendar size={14} /> Dates read as
+                  {dateDetection?.isAmbiguous && <span className="text-orange-600">(guessed, please check)</span>}
+                </label>
+                <select id="dateFormat" value={dateFormat || ''} onChange={e => handleDateFormatChange(e.target.value as DateFormat)} className="text-xs rounded-md border-brand-gray-300 py-1 focus:border-brand-green focus:ring-brand-green">
+                  {!dateFormat && <option value="" disabled>Not recognised</option>}
+                  {(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map(format => <option key={format} value={format}>{DATE_FORMAT_LABELS[format]}</option>)}
+                </select>
+              </div>
+            )}
+
+            {unparsedDateCount > 0 && (
+              <div className="mb-4 flex items-center gap-2 p-2 rounded-md bg-red-50 border border-red-100 text-red-700 text-xs font-medium">
+                <AlertTriangle size={14} className="flex-shrink-0" />
+                <span>{unparsedDateCount} row{unparsedDateCount === 1 ? '' : 's'} with unreadable dates will be skipped unless you set a date.</span>
+              </div>
+            )}
+
+            {skippedDuplicateCount > 0 && (
+              <div className="mb-4 flex items-center gap-2 p-2 rounded-md bg-orange-50 border border-orange-100 text-orange-800 text-xs font-medium">
+                <Copy size={14} className="flex-shrink-0" />
+                <span>{skippedDuplicateCount} row{skippedDuplicateCount === 1 ? '' : 's'} look like transactions you already have and will be skipped. Tick "Import anyway" to keep one.</span>
+              </div>
+            )}
+
+            {keptDuplicateCount > 0 && (
+              <div className="mb-4 flex items-center gap-2 p-2 rounded-md bg-brand-gray-50 border border-brand-gray-200 text-brand-gray-700 text-xs font-medium">
+                <Copy size={14} className="flex-shrink-0" />
+                <span>{keptDuplicateCount} row{keptDuplicateCount === 1 ? '' : 's'} might be transactions you already have but will be imported. Untick "Import anyway" to skip one.</span>
+              </div>
+            )}
+
+            {recordedFeeCount > 0 && (
+              <div className="mb-4 flex items-center gap-2 p-2 rounded-md bg-brand-gray-50 border border-brand-gray-200 text-brand-gray-700 text-xs font-medium">
+                <Receipt size={14} className="flex-shrink-0" />
+                <span>{recordedFeeCount} bank charge and excise duty row{recordedFeeCount === 1 ? ' is' : 's are'} already recorded with {recordedFeeCount === 1 ? 'its' : 'their'} payment and will be skipped.</span>
+              </div>
+            )}
+
+            {linkedFeeCount > 0 && (
+              <div className="mb-4 flex items-center gap-2 p-2 rounded-md bg-brand-gray-50 border border-brand-gray-200 text-brand-gray-700 text-xs font-medium">
+                <Receipt size={14} className="flex-shrink-0" />
+                <span>{linkedFeeCount} bank charge and excise duty row{linkedFeeCount === 1 ? '' : 's'} will be attached to the payment{linkedFeeCount === 1 ? '' : 's'} they were charged on.</span>
+              </div>
+            )}
+
+            {balanceCheck && (
+              <div className={`mb-4 p-2 rounded-md border text-xs ${balanceCheck.issues.length > 0 ? 'bg-orange-50 border-orange-100 text-orange-800' : 'bg-brand-green-50 border-brand-green-100 text-brand-green-700'}`}>
+                <div className="flex items-center gap-2 font-medium">
+                  <Scale size={14} className="flex-shrink-0" />
+                  {balanceCheck.issues.length === 0
+                    ? <span>Running balance checks out across {balanceCheck.checkedCount + 1} rows.</span>
+                    : <span>{balanceCheck.issues.length} row{balanceCheck.issues.length === 1 ? '' : 's'} don't match the statement's running balance.</span>}
+                </div>
+                {balanceCheck.issues.length > 0 && (
+                  <ul className="mt-2 space-y-1 max-h-24 overflow-y-auto">
+                    {balanceCheck.issues.map(issue => (
+                      <li key={`${issue.kind}-${issue.index}`} className="flex items-center justify-between gap-2">
+                        <span className="truncate">Row {issue.index + 1} ({parsedTransactions[issue.index]?.description}): {describeBalanceIssue(issue)}</span>
+                        {issue.kind === 'sign_flip' && <button onClick={() => handleFlipType(issue.index)} className="font-semibold underline flex-shrink-0">Flip</button>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {selectedAccount && suggestedInitialBalance !== null && balanceCheck.openingBalance !== null && (
+                  Math.abs(suggestedInitialBalance - selectedAccount.initialBalance) < 0.01 ? (
+                    <p className="mt-2 text-brand-gray-600">{selectedAccount.name}'s starting balance agrees with the statement's opening balance of {KESFormatter.format(balanceCheck.openingBalance)}.</p>
+                  ) : (
+                    <div className="mt-2 flex items-center justify-between gap-2 text-brand-gray-700">
+                      <span>Statement opens at {KESFormatter.format(balanceCheck.openingBalance)}. Set {selectedAccount.name}'s starting balance to {KESFormatter.format(suggestedInitialBalance)} (now {KESFormatter.format(selectedAccount.initialBalance)}) so balances match?</span>
+                      <button onClick={() => onSetInitialBalance(selectedAccount.id, suggestedInitialBalance)} className="font-semibold text-brand-green underline flex-shrink-0">Set balance</button>
+                    </div>
+                  )
+                )}
+              </div>
             )}
 
             {error && <p className="text-sm text-red-600 my-2 text-center">{error}</p>}
@@ -363,17 +843,17 @@ const ImportTransactionsModal: React.FC<ImportTransactionsModalProps> = ({ isOpe
 
             <div className="mt-6 flex justify-between">
               <Button variant="secondary" onClick={() => setStep('upload')}>Back</Button>
-              <Button onClick={handleConfirmImport} disabled={isEnriching}>Confirm and Add ({parsedTransactions.length})</Button>
+              <Button onClick={handleConfirmImport} disabled={isEnriching}>Confirm and Add ({parsedTransactions.length - unparsedDateCount - skippedDuplicateCount - recordedFeeCount - linkedFeeCount})</Button>
             </div>
           </>
         );
     }
   };
 
-  const backdropShouldClose = step !== 'review' && step !== 'loading' && step !== 'intro';
+  const backdropShouldClose = step !== 'review' && step !== 'loading' && step !== 'intro' && step !== 'mapping' && step !== 'partial';
 
   return (
-    <BaseModal isOpen={isOpen} onClose={handleClose} title={step === 'intro' ? "Setup" : "Import Statement"} backdropClosable={backdropShouldClose}>
+    <BaseModal isOpen={isOpen} onClose={handleClose} title={step === 'intro' ? "Setup" : step === 'mapping' ? "Map Columns" : "Import Statement"} backdropClosable={backdropShouldClose} maxWidth={step === 'mapping' ? 'max-w-2xl' : undefined}>
       {renderContent()}
     </BaseModal>
   );
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { QuarantinedRecord } from '../../types';
+import BaseModal from './BaseModal';
+import Button from '../ui/Button';
+import { ChevronDown, ChevronRight, Download, Trash2 } from 'lucide-react';
+
+interface QuarantineModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  records: QuarantinedRecord[];
+  onDelete: (id: string) => void;
+}
+
+const QuarantineModal: React.FC<QuarantineModalProps> = ({ isOpen, onClose, records, onDelete }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const handleDownload = () => {
+    const blob = new Blob([JSON.stringify(records, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `shilling-sense-quarantine-${new Date().toISOString().split('T')[0]}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={onClose} title="Records Set Aside" maxWidth="max-w-xl">
+      {records.length === 0 ? (
+        <div className="text-center py-8"><p className="text-brand-gray-600">Nothing set aside.</p></div>
+      ) : (
+        <>
+          <p className="text-sm text-brand-gray-600 mb-4">These saved records didn't match the current data format when the app was updated, so they were kept aside instead of being loaded. Download them to keep a copy, or delete the ones you don't need.</p>
+          <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+            {records.map(record => (
+              <div key={record.id} className="rounded-lg border border-brand-gray-200">
+                <div className="flex items-center gap-2 p-3">
+                  <button onClick={() => setExpandedId(expandedId === record.id ? null : record.id)} className="flex-1 flex items-center gap-2 text-left min-w-0">
+                    {expandedId === record.id ? <ChevronDown size={16} className="text-brand-gray-400 flex-shrink-0" /> : <ChevronRight size={16} className="text-brand-gray-400 flex-shrink-0" />}
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-brand-gray-800">{record.collection}</p>
+                      <p className="text-xs text-brand-gray-500 truncate">{record.reason} · from data version {record.schemaVersion}</p>
+                    </div>
+                  </button>
+                  <button onClick={() => onDelete(record.id)} className="p-1.5 text-brand-gray-400 hover:text-red-600" title="Delete"><Trash2 size={16} /></button>
+                </div>
+                {expandedId === record.id && (
+                  <pre className="border-t border-brand-gray-200 p-3 text-xs text-brand-gray-700 bg-brand-gray-50 overflow-x-auto">{JSON.stringify(record.record, null, 2)}</pre>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+      <div className="mt-6 flex justify-between">
+        <Button variant="ghost" onClick={handleDownload} disabled={records.length === 0}><Download size={16} className="mr-2" />Download JSON</Button>
+        <Button variant="secondary" onClick={onClose}>Close</Button>
+      </div>
+    </BaseModal>
+  );
+};
+
+export default QuarantineModal;
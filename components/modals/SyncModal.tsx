@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import BaseModal from './BaseModal';
+import Button from '../ui/Button';
+import Spinner from '../ui/Spinner';
+import { AlertTriangle, Cloud, CloudOff, Copy, RefreshCw } from 'lucide-react';
+import { SyncFieldConflict } from '../../types';
+import { RemoteSync, RemoteSyncStatus } from '../../hooks/useRemoteSync';
+import { isVaultEnabled } from '../../services/vaultService';
+
+interface SyncModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  remoteSync: RemoteSync;
+  onResolveConflict: (id: string, useOther: boolean) => void;
+}
+
+const DEFAULT_SERVER_URL = 'http://localhost:8787';
+
+const STATUS_LABELS: Record<RemoteSyncStatus, string> = {
+  off: 'Not set up',
+  paused: 'Paused',
+  offline: 'Offline. Changes are saved here and sent when you reconnect.',
+  syncing: 'Syncing...',
+  synced: 'Up to date',
+  error: "Couldn't sync",
+};
+
+const inputClass = "block w-full rounded-md border-brand-gray-300 shadow-sm focus:border-brand-green focus:ring-brand-green text-sm py-2";
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// The vault seals data on this device only; what goes to the sync server is readable there.
+const PlaintextNotice: React.FC = () => (
+  <p className="flex items-start gap-2 text-xs text-orange-800 bg-orange-50 border border-orange-100 rounded-md p-2">
+    <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+    <span>
+      Changes are sent to the sync server unencrypted{isVaultEnabled() ? ', even though encryption is on for this device' : ''}.
+      Anyone who can read the server's files can read this ledger, so only use a server you control.
+    </span>
+  </p>
+);
+
+const ConflictRow: React.FC<{ conflict: SyncFieldConflict; onResolve: (useOther: boolean) => void }> = ({ conflict, onResolve }) => (
+  <li className="py-3">
+    <p className="text-sm font-semibold text-brand-gray-800">{conflict.recordLabel} <span className="font-normal text-brand-gray-500">· {conflict.field}</span></p>
+    <div className="grid grid-cols-2 gap-2 mt-2 text-xs">
+      <div className="bg-brand-green-50 rounded-md p-2">
+        <p className="text-brand-gray-500 mb-0.5">Kept ({conflict.keptFrom === 'this_device' ? 'this device' : 'other device'})</p>
+        <p className="text-brand-gray-800 break-words">{formatValue(conflict.keptValue)}</p>
+      </div>
+      <div className="bg-brand-gray-100 rounded-md p-2">
+        <p className="text-brand-gray-500 mb-0.5">Other ({conflict.keptFrom === 'this_device' ? 'other device' : 'this device'})</p>
+        <p className="text-brand-gray-800 break-words">{formatValue(conflict.otherValue)}</p>
+      </div>
+    </div>
+    <div className="flex justify-end gap-2 mt-2">
+      <Button size="sm" variant="ghost" onClick={() => onResolve(true)}>Use Other</Button>
+      <Button size="sm" variant="secondary" onClick={() => onResolve(false)}>Keep</Button>
+    </div>
+  </li>
+);
+
+const SyncModal: React.FC<SyncModalProps> = ({ isOpen, onClose, remoteSync, onResolveConflict }) => {
+  const { settings, status, error, lastSyncedAt, pendingCount, conflicts } = remoteSync;
+  const [serverUrl, setServerUrl] = useState(DEFAULT_SERVER_URL);
+  const [serverToken, setServerToken] = useState('');
+  const [ledgerId, setLedgerId] = useState('');
+  const [setupError, setSetupError] = useState<string | null>(null);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const handleConnect = async () => {
+    if (!serverUrl.trim()) {
+      setSetupError('Enter the address of your sync server.');
+      return;
+    }
+    setIsConnecting(true);
+    setSetupError(null);
+    try {
+      await remoteSync.connect(serverUrl, ledgerId, serverToken);
+      setLedgerId('');
+    } catch (err) {
+      setSetupError(err instanceof Error ? err.message : "Couldn't connect to the sync server.");
+    }
+    setIsConnecting(false);
+  };
+
+  const handleDisconnect = () => {
+    if (pendingCount > 0 && !window.confirm(`${pendingCount} changes haven't been sent yet and will stay on this device only. Leave the ledger?`)) return;
+    remoteSync.disconnect();
+  };
+
+  const handleCopy = () => {
+    if (!settings) return;
+    navigator.clipboard?.writeText(settings.ledgerId).then(() => {
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 2000);
+    }).catch(error => console.error(error));
+  };
+
+  if (!settings) {
+    return (
+      <BaseModal isOpen={isOpen} onClose={onClose} title="Sync">
+        <div className="flex items-start gap-3 mb-5">
+          <div className="bg-brand-green-50 w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0">
+            <Cloud className="text-brand-green h-5 w-5" />
+          </div>
+          <p className="text-sm text-brand-gray-600">
+            Share one ledger between devices through a sync server you run yourself (<code className="text-xs">npm run sync-server</code>).
+            Start a new ledger here, then join it from the other device with its ledger ID.
+          </p>
+        </div>
+        <div className="space-y-3">
+          <div>
+            <label className="block text-xs font-bold text-brand-gray-700 uppercase tracking-wide mb-1">Server address</label>
+            <input value={serverUrl} onChange={(e) => setServerUrl(e.target.value)} disabled={isConnecting} className={inputClass} placeholder={DEFAULT_SERVER_URL} />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-brand-gray-700 uppercase tracking-wide mb-1">Server token (if it has one)</label>
+            <input type="password" value={serverToken} onChange={(e) => setServerToken(e.target.value)} disabled={isConnecting} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-brand-gray-700 uppercase tracking-wide mb-1">Ledger ID</label>
+            <input value={ledgerId} onChange={(e) => setLedgerId(e.target.value)} disabled={isConnecting} className={inputClass} placeholder="Leave empty to start a new ledger" />
+          </div>
+          <p className="text-xs text-brand-gray-500">Everything on this device is added to the ledger. Your profile and import history stay on this device.</p>
+          <PlaintextNotice />
+          {setupError && <p className="text-sm text-red-600">{setupError}</p>}
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="secondary" onClick={onClose} disabled={isConnecting}>Close</Button>
+            <Button onClick={handleConnect} disabled={isConnecting}>
+              {isConnecting ? <Spinner size="sm" /> : ledgerId.trim() ? 'Join Ledger' : 'Start New Ledger'}
+            </Button>
+          </div>
+        </div>
+      </BaseModal>
+    );
+  }
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={onClose} title="Sync">
+      <div className="flex items-start gap-3 mb-4">
+        <div className="bg-brand-green-50 w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0">
+          {status === 'error' || status === 'offline' ? <CloudOff className="text-brand-green h-5 w-5" /> : <Cloud className="text-brand-green h-5 w-5" />}
+        </div>
+        <div className="min-w-0">
+          <p className="font-semibold text-brand-gray-800">{STATUS_LABELS[status]}</p>
+          {error && status === 'error' && <p className="text-sm text-red-600">{error}</p>}
+          <p className="text-sm text-brand-gray-600">
+            {pendingCount > 0 ? `${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting to send.` : 'Nothing waiting to send.'}
+            {lastSyncedAt && ` Last synced ${new Date(lastSyncedAt).toLocaleTimeString()}.`}
+          </p>
+          <p className="text-xs text-brand-gray-500 mt-1 truncate">{settings.serverUrl}</p>
+        </div>
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-xs font-bold text-brand-gray-700 uppercase tracking-wide mb-1">Ledger ID</label>
+        <div className="flex gap-2">
+          <input readOnly value={settings.ledgerId} className={`${inputClass} font-mono`} />
+          <Button variant="secondary" size="sm" onClick={handleCopy} title="Copy ledger ID"><Copy className="h-4 w-4" /></Button>
+        </div>
+        <p className="text-xs text-brand-gray-500 mt-1">{copied ? 'Copied.' : 'Anyone with this ID and access to the server can read and change the ledger.'}</p>
+      </div>
+
+      <div className="mb-4"><PlaintextNotice /></div>
+
+      {conflicts.length > 0 && (
+        <div className="border-t border-brand-gray-200 pt-3 mb-4">
+          <p className="text-sm font-semibold text-brand-gray-800">Edits to review ({conflicts.length})</p>
+          <p className="text-xs text-brand-gray-500">These were changed on both devices before either had synced. The later edit was kept.</p>
+          <ul className="divide-y divide-brand-gray-100 max-h-72 overflow-y-auto">
+            {conflicts.map(conflict => (
+              <ConflictRow key={conflict.id} conflict={conflict} onResolve={(useOther) => onResolveConflict(conflict.id, useOther)} />
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-wrap justify-between gap-2 border-t border-brand-gray-200 pt-4">
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={() => remoteSync.setPaused(settings.enabled)}>{settings.enabled ? 'Pause' : 'Resume'}</Button>
+          <Button variant="ghost" onClick={handleDisconnect}>Leave Ledger</Button>
+        </div>
+        <Button onClick={() => remoteSync.syncNow()} disabled={!settings.enabled || status === 'syncing'}>
+          <RefreshCw size={16} className={`mr-2 ${status === 'syncing' ? 'animate-spin' : ''}`} />Sync Now
+        </Button>
+      </div>
+    </BaseModal>
+  );
+};
+
+export default SyncModal;
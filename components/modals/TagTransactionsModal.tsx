@@ -0,0 +1,75 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import BaseModal from './BaseModal';
+import Button from '../ui/Button';
+import { Tag, X } from 'lucide-react';
+import { Transaction } from '../../types';
+import { collectTags, parseTags } from '../../services/tagService';
+
+interface TagTransactionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The transactions being tagged, e.g. everything the list is showing.
+  transactions: Transaction[];
+  knownTags: string[];
+  onApply: (transactionIds: string[], add: string[], remove: string[]) => void;
+}
+
+const inputClass = "block w-full rounded-md border-brand-gray-300 shadow-sm focus:border-brand-green focus:ring-brand-green text-sm py-2";
+
+const TagTransactionsModal: React.FC<TagTransactionsModalProps> = ({ isOpen, onClose, transactions, knownTags, onApply }) => {
+  const [input, setInput] = useState('');
+  const tagListId = React.useId();
+
+  useEffect(() => {
+    if (isOpen) setInput('');
+  }, [isOpen]);
+
+  const tags = parseTags(input);
+  const currentTags = useMemo(() => collectTags(transactions), [transactions]);
+  const ids = transactions.map(t => t.id);
+  const count = transactions.length;
+
+  const handleAdd = () => {
+    if (tags.length === 0) return;
+    onApply(ids, tags, []);
+    onClose();
+  };
+
+  const handleRemove = (tag: string) => {
+    onApply(ids, [], [tag]);
+    onClose();
+  };
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={onClose} title={`Tag ${count} transaction${count === 1 ? '' : 's'}`}>
+      <form className="mt-4 space-y-3" onSubmit={(e) => { e.preventDefault(); handleAdd(); }}>
+        <div>
+          <label htmlFor="bulk-tags" className="block text-sm font-medium text-brand-gray-700">Add tags</label>
+          <input id="bulk-tags" list={tagListId} autoFocus value={input} onChange={(e) => setInput(e.target.value)} className={`mt-1 ${inputClass}`} placeholder="Separate tags with commas" />
+          <datalist id={tagListId}>
+            {knownTags.map(tag => <option key={tag} value={tag} />)}
+          </datalist>
+        </div>
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="secondary" onClick={onClose}>Cancel</Button>
+          <Button type="submit" disabled={tags.length === 0 || count === 0}><Tag className="h-4 w-4 mr-2" /> Add to all</Button>
+        </div>
+      </form>
+
+      {currentTags.length > 0 && (
+        <div className="border-t border-brand-gray-200 pt-4 mt-4">
+          <p className="text-sm font-medium text-brand-gray-700 mb-2">Remove a tag from all of them</p>
+          <div className="flex flex-wrap gap-2">
+            {currentTags.map(tag => (
+              <button key={tag} type="button" onClick={() => handleRemove(tag)} className="inline-flex items-center gap-1 rounded-full bg-brand-gray-100 px-2 py-1 text-xs font-medium text-brand-gray-700 hover:bg-red-50 hover:text-red-600">
+                {tag} <X size={12} />
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </BaseModal>
+  );
+};
+
+export default TagTransactionsModal;
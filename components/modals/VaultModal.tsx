@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import BaseModal from './BaseModal';
+import Button from '../ui/Button';
+import Spinner from '../ui/Spinner';
+import { Lock, ShieldCheck } from 'lucide-react';
+import { DEFAULT_AUTO_LOCK_MINUTES, getVaultConfig, saveVaultConfig } from '../../services/vaultService';
+import { changeEncryptionPassphrase, disableEncryption, enableEncryption } from '../../services/storageService';
+
+interface VaultModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onLock: () => void;
+}
+
+type VaultAction = 'enable' | 'change' | 'disable';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 60, 0];
+
+const inputClass = "block w-full rounded-md border-brand-gray-300 shadow-sm focus:border-brand-green focus:ring-brand-green text-sm py-2";
+
+const VaultModal: React.FC<VaultModalProps> = ({ isOpen, onClose, onLock }) => {
+  const [config, setConfig] = useState(getVaultConfig);
+  const [action, setAction] = useState<VaultAction | null>(null);
+  const [current, setCurrent] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [autoLockMinutes, setAutoLockMinutes] = useState(config?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const latest = getVaultConfig();
+    setConfig(latest);
+    setAutoLockMinutes(latest?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES);
+  }, [isOpen]);
+
+  const reset = (next: VaultAction | null) => {
+    setAction(next);
+    setCurrent('');
+    setPassphrase('');
+    setConfirm('');
+    setError(null);
+  };
+
+  const handleClose = () => {
+    if (isWorking) return;
+    reset(null);
+    onClose();
+  };
+
+  const handleAutoLockChange = (minutes: number) => {
+    setAutoLockMinutes(minutes);
+    if (config) {
+      const next = { ...config, autoLockMinutes: minutes };
+      saveVaultConfig(next);
+      setConfig(next);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const needsNew = action !== 'disable';
+    if (needsNew && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (needsNew && passphrase !== confirm) {
+      setError("The passphrases don't match.");
+      return;
+    }
+    setIsWorking(true);
+    setError(null);
+    try {
+      if (action === 'enable') await enableEncryption(passphrase, autoLockMinutes);
+      else if (action === 'change') await changeEncryptionPassphrase(current, passphrase);
+      else await disableEncryption(current);
+      setConfig(getVaultConfig());
+      reset(null);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Something went wrong. Your data was not changed.');
+    }
+    setIsWorking(false);
+  };
+
+  const title = config ? 'Encryption is on' : 'Encrypt your data';
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={handleClose} title="Vault">
+      <div className="flex items-start gap-3 mb-5">
+        <div className="bg-brand-green-50 w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0">
+          {config ? <ShieldCheck className="text-brand-green h-5 w-5" /> : <Lock className="text-brand-green h-5 w-5" />}
+        </div>
+        <div>
+          <p className="font-semibold text-brand-gray-800">{title}</p>
+          <p className="text-sm text-brand-gray-600">
+            {config
+              ? 'Everything saved on this device is encrypted with your passphrase and opens only after you unlock.'
+              : 'Protect everything saved on this device with a passphrase. It is needed every time the app opens, and there is no way to recover it.'}
+          </p>
+        </div>
+      </div>
+
+      <div className="mb-5">
+        <label className="block text-xs font-bold text-brand-gray-700 uppercase tracking-wide mb-1">Lock after inactivity</label>
+        <select value={autoLockMinutes} onChange={(e) => handleAutoLockChange(Number(e.target.value))} disabled={isWorking} className={inputClass}>
+          {AUTO_LOCK_OPTIONS.map(minutes => (
+            <option key={minutes} value={minutes}>{minutes === 0 ? 'Never' : `${minutes} minute${minutes === 1 ? '' : 's'}`}</option>
+          ))}
+        </select>
+      </div>
+
+      {action && (
+        <div className="space-y-3 border-t border-brand-gray-200 pt-4">
+          {action !== 'enable' && (
+            <input type="password" value={current} onChange={(e) => setCurrent(e.target.value)} disabled={isWorking} className={inputClass} placeholder="Current passphrase" autoFocus />
+          )}
+          {action !== 'disable' && (
+            <>
+              <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} disabled={isWorking} className={inputClass} placeholder="New passphrase" autoFocus={action === 'enable'} />
+              <input type="password" value={confirm} onChange={(e) => setConfirm(e.target.value)} disabled={isWorking} className={inputClass} placeholder="Confirm new passphrase" />
+            </>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {isWorking && <p className="text-sm text-brand-gray-500 flex items-center gap-2"><Spinner size="sm" /> Re-encrypting your data. Keep this tab open.</p>}
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => reset(null)} disabled={isWorking}>Cancel</Button>
+            <Button onClick={handleSubmit} disabled={isWorking || (action !== 'enable' && !current)}>
+              {action === 'enable' ? 'Turn On Encryption' : action === 'change' ? 'Change Passphrase' : 'Turn Off Encryption'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!action && (
+        <div className="flex flex-wrap justify-between gap-2 border-t border-brand-gray-200 pt-4">
+          {config ? (
+            <>
+              <div className="flex gap-2">
+                <Button variant="secondary" onClick={() => reset('change')}>Change Passphrase</Button>
+                <Button variant="ghost" onClick={() => reset('disable')}>Turn Off</Button>
+              </div>
+              <Button onClick={() => { handleClose(); onLock(); }}><Lock size={16} className="mr-2" />Lock Now</Button>
+            </>
+          ) : (
+            <>
+              <Button variant="secondary" onClick={handleClose}>Close</Button>
+              <Button onClick={() => reset('enable')}>Set a Passphrase</Button>
+            </>
+          )}
+        </div>
+      )}
+    </BaseModal>
+  );
+};
+
+export default VaultModal;
@@ -40,4 +40,27 @@ export const SAVINGS_CATEGORIES: string[] = [
   "Money Market Fund",
   "Pension",
   "Financial Services/Investments"
-];
\ No newline at end of file
+];
+
+// Linked bank charges and excise duty are reported under this name in spending breakdowns.
+export const FEE_CATEGORY = "Fees & Charges";
+
+// Excise duty is levied on the fee itself, not on the amount moved.
+export const EXCISE_DUTY_RATES: number[] = [0.15, 0.2];
+
+// Published M-PESA send-money tariff (KES), used to judge which payment a charge most plausibly belongs to.
+// Each band is [upper amount limit, fee].
+export const MPESA_TRANSFER_TARIFF: [number, number][] = [
+  [100, 0],
+  [500, 7],
+  [1000, 13],
+  [1500, 23],
+  [2500, 33],
+  [3500, 53],
+  [5000, 57],
+  [7500, 78],
+  [10000, 90],
+  [15000, 100],
+  [20000, 105],
+  [250000, 108],
+];
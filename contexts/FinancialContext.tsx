@@ -1,10 +1,30 @@
 
-import React, { createContext, useContext, useCallback, useState, ReactNode, useEffect } from 'react';
-import { Account, Transaction, Category, Budget, UserProfile, LoyaltyCard, Debt, Chama, CategorizationExample, TransactionType } from '../types';
+import React, { createContext, useContext, useCallback, useState, useRef, ReactNode, useEffect } from 'react';
+import { Account, Attachment, Transaction, Category, Budget, UserProfile, LoyaltyCard, Debt, Chama, CategorizationExample, TransactionType, ImportProfile, ImportBatch, ImportSource, LoyaltyCardChange, MigrationReport, QuarantinedRecord, SyncCollection, ChangeSource, ImportedTransaction, SavedSearch, BulkTransactionChanges } from '../types';
 import useLocalStorage from '../hooks/useLocalStorage';
+import useIndexedDbStore from '../hooks/useIndexedDbStore';
+import useJournal from '../hooks/useJournal';
+import useRemoteSync, { RemoteSync } from '../hooks/useRemoteSync';
+import useAuditTrail from '../hooks/useAuditTrail';
+import { withChangeSource } from '../services/auditService';
 import { DEFAULT_CATEGORIES } from '../constants';
 import { validateCategoryMismatch } from '../services/geminiService';
 import { extractPointsFromDescription } from '../services/heuristicService';
+import { duplicatePairKey, getImportKey, mergeDuplicate } from '../services/deduplicationService';
+import { linkFees } from '../services/feeLinkingService';
+import { transactionCategories } from '../services/splitService';
+import { retagTransaction } from '../services/tagService';
+import { createId } from '../services/idService';
+import Spinner from '../components/ui/Spinner';
+import { deleteUnreferencedAttachments, lockStorage, prepareStorage, saveAttachments } from '../services/storageService';
+import { recordsInHistory } from '../services/journalService';
+import { VAULT_CONFIG_KEY, getVaultConfig, isVaultEnabled, isVaultUnlocked } from '../services/vaultService';
+import LockScreen from '../components/LockScreen';
+import { storageKey } from '../services/bookService';
+import { BackupData } from '../services/backupService';
+import { getAllCachedEnrichments, replaceCachedEnrichments } from '../services/cachingService';
+import { merchantService } from '../services/merchantService';
+import { SyncConflict } from '../services/syncService';
 
 interface FinancialContextType {
     accounts: Account[];
@@ -16,6 +36,10 @@ interface FinancialContextType {
     debts: Debt[];
     chamas: Chama[];
     categorizationExamples: CategorizationExample[];
+    importProfiles: ImportProfile[];
+    importBatches: ImportBatch[];
+    dismissedDuplicates: string[];
+    quarantinedRecords: QuarantinedRecord[];
 
     setAccounts: React.Dispatch<React.SetStateAction<Account[]>>;
     setTransactions: React.Dispatch<React.SetStateAction<Transaction[]>>;
@@ -26,108 +50,329 @@ interface FinancialContextType {
     setChamas: React.Dispatch<React.SetStateAction<Chama[]>>;
     setCategories: React.Dispatch<React.SetStateAction<Category[]>>;
 
-    addTransaction: (tx: Omit<Transaction, 'id'>) => void;
+    addTransaction: (tx: Omit<Transaction, 'id'>, categorySource?: ChangeSource) => void;
     updateTransaction: (tx: Transaction) => void;
     deleteTransaction: (id: string) => void;
     updateCategory: (txId: string, newCategory: Category) => void;
-    importTransactions: (txs: Omit<Transaction, 'id'>[]) => void;
+    revertTransactionField: (txId: string, field: string, value: unknown) => void;
+    tagTransactions: (txIds: string[], add: string[], remove?: string[]) => void;
+    bulkUpdateTransactions: (txIds: string[], changes: BulkTransactionChanges) => void;
+    deleteTransactions: (txIds: string[]) => void;
+    auditRevision: number;
+    importTransactions: (txs: ImportedTransaction[], source: ImportSource) => void;
+    rollbackImportBatch: (batchId: string) => void;
+    mergeDuplicateTransactions: (keepId: string, removeId: string) => void;
+    dismissDuplicatePair: (idA: string, idB: string) => void;
+    linkExistingFees: () => void;
+    deleteQuarantinedRecord: (id: string) => void;
+    lockVault: () => void;
+    collectBackupData: () => BackupData;
+    restoreBackup: (data: BackupData, attachments: Attachment[]) => void;
     addBudget: (budgets: Omit<Budget, 'id'> | Omit<Budget, 'id'>[]) => void;
     clearBudgets: () => void;
+    saveImportProfile: (profile: Omit<ImportProfile, 'id'> & { id?: string }) => void;
+    savedSearches: SavedSearch[];
+    saveSearch: (name: string, query: string) => void;
+    deleteSavedSearch: (id: string) => void;
 
-    notification: { message: string; show: boolean; type?: 'info' | 'warning' };
+    undo: () => void;
+    redo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+    runUndoable: (label: string, fn: () => void) => void;
+
+    remoteSync: RemoteSync;
+    resolveSyncConflict: (id: string, useOther: boolean) => void;
+
+    notification: { message: string; show: boolean; type?: 'info' | 'warning'; action?: ToastAction };
     dismissNotification: () => void;
 }
 
+export interface ToastAction {
+    label: string;
+    onClick: () => void;
+}
+
 const FinancialContext = createContext<FinancialContextType | undefined>(undefined);
 
+// Returns the updated cards if the transaction reports a points balance, otherwise null.
+const applyLoyaltyPoints = (cards: LoyaltyCard[], transaction: Omit<Transaction, 'id'>): LoyaltyCard[] | null => {
+    const extractedPoints = extractPointsFromDescription(transaction.description);
+    if (!extractedPoints) return null;
+
+    const providerName = transaction.merchant;
+    const today = new Date().toISOString().split('T')[0];
+    const existingIndex = cards.findIndex(c => c.provider.toLowerCase() === providerName.toLowerCase());
+    if (existingIndex >= 0) {
+        const updated = [...cards];
+        updated[existingIndex] = { ...updated[existingIndex], points: extractedPoints, lastUpdated: today };
+        return updated;
+    }
+    return [...cards, { id: createId(), provider: providerName, points: extractedPoints, lastUpdated: today }];
+};
+
+const StorageLoading = () => <div className="min-h-screen flex items-center justify-center bg-brand-gray-100"><Spinner /></div>;
+
+const ACTIVITY_EVENTS = ['mousemove', 'keydown', 'pointerdown', 'scroll', 'touchstart'];
+
+// Files newer than this are never cleaned up, since the transaction they were added to may still be open for editing.
+const ATTACHMENT_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// With the vault on, nothing is read until it is unlocked. Stored data is then upgraded to the current
+// schema before any state hook reads it. Locking unmounts the state, so nothing decrypted stays in memory.
 export const FinancialProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const [isLocked, setIsLocked] = useState(() => isVaultEnabled() && !isVaultUnlocked());
+    const [migration, setMigration] = useState<{ done: boolean; report: MigrationReport | null }>({ done: false, report: null });
+
+    const lock = useCallback(() => {
+        lockStorage();
+        setIsLocked(true);
+        // The migration toast has been shown; don't repeat it on unlock.
+        setMigration(current => ({ ...current, report: null }));
+    }, []);
+
+    useEffect(() => {
+        if (isLocked || migration.done) return;
+        prepareStorage()
+            .then(report => setMigration({ done: true, report }))
+            .catch(error => {
+                // Leave the data untouched; the app still runs on it as stored.
+                console.error("Schema migration failed:", error);
+                setMigration({ done: true, report: null });
+            });
+    }, [isLocked, migration.done]);
+
+    useEffect(() => {
+        if (isLocked) return;
+        let lastActivity = Date.now();
+        const markActive = () => { lastActivity = Date.now(); };
+        ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+
+        // Read each tick so changes to the setting apply without a reload.
+        const timer = window.setInterval(() => {
+            const config = getVaultConfig();
+            if (config && config.autoLockMinutes > 0 && Date.now() - lastActivity >= config.autoLockMinutes * 60000) lock();
+        }, 15000);
+
+        // Another tab changed the passphrase or turned the vault off, so this tab's key no longer matches what is stored.
+        const handleStorage = (event: StorageEvent) => {
+            if (event.key !== storageKey(VAULT_CONFIG_KEY)) return;
+            if (event.newValue) lock();
+            else window.location.reload();
+        };
+        window.addEventListener('storage', handleStorage);
+
+        return () => {
+            ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+            window.clearInterval(timer);
+            window.removeEventListener('storage', handleStorage);
+        };
+    }, [isLocked, lock]);
+
+    if (isLocked) return <LockScreen onUnlock={() => setIsLocked(false)} />;
+    if (!migration.done) return <StorageLoading />;
+    return <FinancialStateProvider migrationReport={migration.report} onLock={lock}>{children}</FinancialStateProvider>;
+};
+
+const FinancialStateProvider: React.FC<{ children: ReactNode; migrationReport: MigrationReport | null; onLock: () => void }> = ({ children, migrationReport, onLock }) => {
+    // Another tab edited the same record at the same time; both edits were merged, ours winning per field.
+    const handleSyncConflict = (conflicts: SyncConflict[]) => {
+        const fields = Array.from(new Set(conflicts.flatMap(c => c.fields)));
+        const subject = conflicts.length === 1 ? 'Something you edited was' : `${conflicts.length} records you edited were`;
+        showToast(`${subject} also changed in another tab. Kept your ${fields.join(', ')} and merged the rest.`, 'warning');
+    };
+
     // State Storage
-    const [accounts, setAccounts] = useLocalStorage<Account[]>('accounts', []);
-    const [transactions, setTransactions] = useLocalStorage<Transaction[]>('transactions', []);
-    const [categories, setCategories] = useLocalStorage<Category[]>('categories', DEFAULT_CATEGORIES);
-    const [budgets, setBudgets] = useLocalStorage<Budget[]>('budgets', []);
-    const [userProfile, setUserProfile] = useLocalStorage<UserProfile | null>('userProfile', null);
-    const [loyaltyCards, setLoyaltyCards] = useLocalStorage<LoyaltyCard[]>('loyaltyCards', []);
-    const [debts, setDebts] = useLocalStorage<Debt[]>('debts', []);
-    const [chamas, setChamas] = useLocalStorage<Chama[]>('chamas', []);
-    const [categorizationExamples, setCategorizationExamples] = useLocalStorage<CategorizationExample[]>('categorizationExamples', []);
+    const [accounts, storeAccounts, accountsLoaded] = useIndexedDbStore('accounts', handleSyncConflict);
+    const [transactions, storeTransactions, transactionsLoaded] = useIndexedDbStore('transactions', handleSyncConflict);
+    const [categories, storeCategories] = useLocalStorage<Category[]>('categories', DEFAULT_CATEGORIES);
+    const [budgets, storeBudgets, budgetsLoaded] = useIndexedDbStore('budgets', handleSyncConflict);
+    const [userProfile, storeUserProfile] = useLocalStorage<UserProfile | null>('userProfile', null);
+    const [loyaltyCards, storeLoyaltyCards, loyaltyCardsLoaded] = useIndexedDbStore('loyaltyCards', handleSyncConflict);
+    const [debts, storeDebts, debtsLoaded] = useIndexedDbStore('debts', handleSyncConflict);
+    const [chamas, storeChamas, chamasLoaded] = useIndexedDbStore('chamas', handleSyncConflict);
+    const [quarantinedRecords, storeQuarantinedRecords, quarantineLoaded] = useIndexedDbStore('quarantine');
+    const remoteSync = useRemoteSync();
+    const isStorageReady = accountsLoaded && transactionsLoaded && budgetsLoaded && loyaltyCardsLoaded && debtsLoaded && chamasLoaded && quarantineLoaded && remoteSync.isLoaded;
+    const [categorizationExamples, storeCategorizationExamples] = useLocalStorage<CategorizationExample[]>('categorizationExamples', []);
+    const [importProfiles, setImportProfiles] = useLocalStorage<ImportProfile[]>('importProfiles', []);
+    const [importBatches, storeImportBatches] = useLocalStorage<ImportBatch[]>('importBatches', []);
+    const [dismissedDuplicates, storeDismissedDuplicates] = useLocalStorage<string[]>('dismissedDuplicates', []);
+    const [savedSearches, setSavedSearches] = useLocalStorage<SavedSearch[]>('savedSearches', []);
+
+    // Every change made through these setters is recorded for undo/redo, and the shared ones are also
+    // queued for the sync ledger. Undo goes through the sync wrapper, so undoing an edit syncs too.
+    // Transaction changes are also written to their history; see useAuditTrail.
+    const journal = useJournal();
+    const audit = useAuditTrail();
+    const setAccounts = journal.track('accounts', accounts, remoteSync.track('accounts', accounts, storeAccounts));
+    const setTransactions = journal.track('transactions', transactions, remoteSync.track('transactions', transactions, audit.track(transactions, storeTransactions)));
+    const setCategories = journal.track('categories', categories, remoteSync.track('categories', categories, storeCategories));
+    const setBudgets = journal.track('budgets', budgets, remoteSync.track('budgets', budgets, storeBudgets));
+    const setUserProfile = journal.track('userProfile', userProfile, storeUserProfile);
+    const setLoyaltyCards = journal.track('loyaltyCards', loyaltyCards, remoteSync.track('loyaltyCards', loyaltyCards, storeLoyaltyCards));
+    const setDebts = journal.track('debts', debts, remoteSync.track('debts', debts, storeDebts));
+    const setChamas = journal.track('chamas', chamas, remoteSync.track('chamas', chamas, storeChamas));
+    const setQuarantinedRecords = journal.track('quarantine', quarantinedRecords, storeQuarantinedRecords);
+    const setImportBatches = journal.track('importBatches', importBatches, storeImportBatches);
+    const setDismissedDuplicates = journal.track('dismissedDuplicates', dismissedDuplicates, storeDismissedDuplicates);
+    const setCategorizationExamples = journal.track('categorizationExamples', categorizationExamples, storeCategorizationExamples);
 
     // FIX: Explicitly typed the useState hook for notification to allow 'warning' type assignment.
-    const [notification, setNotification] = useState<{ message: string; show: boolean; type: 'info' | 'warning' }>({ message: '', show: false, type: 'info' });
+    const [notification, setNotification] = useState<{ message: string; show: boolean; type: 'info' | 'warning'; action?: ToastAction }>({ message: '', show: false, type: 'info' });
 
-    const showToast = (message: string, type: 'info' | 'warning' = 'info') => {
-        setNotification({ message, show: true, type });
+    const showToast = (message: string, type: 'info' | 'warning' = 'info', action?: ToastAction) => {
+        setNotification({ message, show: true, type, action });
     };
 
     const dismissNotification = () => setNotification(prev => ({ ...prev, show: false }));
 
+    // Logic: Undo/redo
+    const undo = useCallback(() => {
+        const entry = withChangeSource({ source: 'undo' }, journal.undo);
+        if (entry) showToast(`Undone: ${entry.label}.`, 'info', { label: 'Redo', onClick: () => redo() });
+    }, []);
+
+    const redo = useCallback(() => {
+        const entry = withChangeSource({ source: 'undo' }, journal.redo);
+        if (entry) showToast(`Redone: ${entry.label}.`, 'info', { label: 'Undo', onClick: () => undo() });
+    }, []);
+
+    const undoAction: ToastAction = { label: 'Undo', onClick: undo };
+
+    // Runs a change as one undoable step and offers to undo it.
+    const runUndoable = useCallback((label: string, fn: () => void) => {
+        journal.transact(label, fn);
+        showToast(`${label}.`, 'info', { label: 'Undo', onClick: undo });
+    }, [undo]);
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+            // Leave text fields their own undo.
+            const target = event.target as HTMLElement | null;
+            if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+            const key = event.key.toLowerCase();
+            if (key === 'z' && !event.shiftKey) {
+                event.preventDefault();
+                undo();
+            } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+                event.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [undo, redo]);
+
     // Logic: Loyalty Points
     const checkAndAddPoints = useCallback((transaction: Omit<Transaction, 'id'>) => {
-        const extractedPoints = extractPointsFromDescription(transaction.description);
-        if (extractedPoints) {
-            const providerName = transaction.merchant;
-            setLoyaltyCards(prev => {
-                const existingIndex = prev.findIndex(c => c.provider.toLowerCase() === providerName.toLowerCase());
-                if (existingIndex >= 0) {
-                    const updated = [...prev];
-                    updated[existingIndex] = {
-                        ...updated[existingIndex],
-                        points: extractedPoints,
-                        lastUpdated: new Date().toISOString().split('T')[0]
-                    };
-                    return updated;
-                } else {
-                    return [...prev, {
-                        id: Date.now().toString(),
-                        provider: providerName,
-                        points: extractedPoints,
-                        lastUpdated: new Date().toISOString().split('T')[0]
-                    }];
-                }
-            });
-            return true;
-        }
-        return false;
+        if (!extractPointsFromDescription(transaction.description)) return false;
+        setLoyaltyCards(prev => applyLoyaltyPoints(prev, transaction) || prev);
+        return true;
     }, [setLoyaltyCards]);
 
     // Logic: Add Transaction
-    const addTransaction = useCallback((transactionData: Omit<Transaction, 'id'>) => {
-        const newTransaction: Transaction = { ...transactionData, id: Date.now().toString() };
-        setTransactions(prev => [...prev, newTransaction]);
-        checkAndAddPoints(newTransaction);
+    const addTransaction = useCallback((transactionData: Omit<Transaction, 'id'>, categorySource?: ChangeSource) => {
+        const newTransaction: Transaction = { ...transactionData, id: createId() };
+        const categorySources = categorySource ? new Map([[newTransaction.id, categorySource]]) : undefined;
+        runUndoable('Transaction added', () => {
+            withChangeSource({ source: 'user', categorySources }, () => setTransactions(prev => [...prev, newTransaction]));
+            checkAndAddPoints(newTransaction);
+        });
 
         if (transactions.length === 0) {
-            showToast("Achievement Unlocked: First transaction logged!", 'info');
+            showToast("Achievement Unlocked: First transaction logged!", 'info', undoAction);
         }
-    }, [setTransactions, transactions.length, checkAndAddPoints]);
+    }, [setTransactions, transactions.length, checkAndAddPoints, runUndoable]);
 
     // Logic: Update Transaction
     const updateTransaction = useCallback((updatedTransaction: Transaction) => {
-        setTransactions(prev => prev.map(t => t.id === updatedTransaction.id ? updatedTransaction : t));
-    }, [setTransactions]);
+        runUndoable('Transaction updated', () => setTransactions(prev => prev.map(t => t.id === updatedTransaction.id ? updatedTransaction : t)));
+    }, [setTransactions, runUndoable]);
 
     const deleteTransaction = useCallback((id: string) => {
-        setTransactions(prev => prev.filter(t => t.id !== id));
-    }, [setTransactions]);
+        runUndoable('Transaction deleted', () => setTransactions(prev => prev.filter(t => t.id !== id)));
+    }, [setTransactions, runUndoable]);
+
+    // Puts one field back to an earlier value from the transaction's history. Null clears the field.
+    const revertTransactionField = useCallback((id: string, field: string, value: unknown) => {
+        runUndoable('Change reverted', () => withChangeSource({ source: 'user', note: 'Reverted' }, () => setTransactions(prev => prev.map(t => {
+            if (t.id !== id) return t;
+            const next = { ...t } as Record<string, unknown>;
+            if (value === null) delete next[field];
+            else next[field] = value;
+            return next as unknown as Transaction;
+        }))));
+    }, [setTransactions, runUndoable]);
+
+    // Applies the same change to many transactions as one undoable step. A new category replaces any
+    // split, and each recategorised description becomes an example for future categorisation.
+    const bulkUpdateTransactions = useCallback((ids: string[], changes: BulkTransactionChanges) => {
+        const targets = new Set(ids);
+        const count = `${ids.length} transaction${ids.length === 1 ? '' : 's'}`;
+        const label = changes.category !== undefined ? `Recategorised ${count}`
+            : changes.accountId !== undefined ? `Moved ${count}`
+            : changes.isTransfer ? `Marked ${count} as transfers` : `Unmarked ${count} as transfers`;
+        const { category: rawCategory, ...otherChanges } = changes;
+        const category = rawCategory?.trim();
+        runUndoable(label, () => {
+            setTransactions(prev => prev.map(t => {
+                if (!targets.has(t.id)) return t;
+                const next = { ...t, ...otherChanges };
+                if (!category) return next;
+                const { splits, ...rest } = next;
+                return { ...rest, category, isTransfer: changes.isTransfer ?? category === 'Internal Transfer' };
+            }));
+            if (!category) return;
+            if (!categories.includes(category)) {
+                setCategories(prev => [...prev, category].sort());
+            }
+            const descriptions = new Set(transactions.filter(t => targets.has(t.id)).map(t => t.description).filter(Boolean));
+            setCategorizationExamples(prev => [
+                ...prev.filter(example => !descriptions.has(example.description)),
+                ...Array.from(descriptions).map(description => ({ description, category })),
+            ]);
+        });
+    }, [transactions, categories, setTransactions, setCategories, setCategorizationExamples, runUndoable]);
+
+    const deleteTransactions = useCallback((ids: string[]) => {
+        const targets = new Set(ids);
+        runUndoable(`Deleted ${ids.length} transaction${ids.length === 1 ? '' : 's'}`, () => setTransactions(prev => prev.filter(t => !targets.has(t.id))));
+    }, [setTransactions, runUndoable]);
+
+    // Adds and removes tags on many transactions as one undoable step.
+    const tagTransactions = useCallback((ids: string[], add: string[], remove: string[] = []) => {
+        const targets = new Set(ids);
+        const label = add.length > 0 ? `Tagged ${ids.length} transaction${ids.length === 1 ? '' : 's'}` : `Tags removed from ${ids.length} transaction${ids.length === 1 ? '' : 's'}`;
+        runUndoable(label, () => setTransactions(prev => prev.map(t => targets.has(t.id) ? retagTransaction(t, add, remove) : t)));
+    }, [setTransactions, runUndoable]);
 
     // Logic: Optimistic Category Update
     const updateCategory = useCallback(async (transactionId: string, newCategory: Category) => {
         const transaction = transactions.find(t => t.id === transactionId);
         if (!transaction) return;
 
-        // 1. OPTIMISTIC UPDATE: Update UI immediately
-        setTransactions(prev => prev.map(t => t.id === transactionId ? { ...t, category: newCategory, isTransfer: newCategory === 'Internal Transfer' } : t));
+        // 1. OPTIMISTIC UPDATE: Update UI immediately. One category for the whole amount replaces any split.
+        // A new category is added in the same undo step.
+        runUndoable(`Category changed to ${newCategory}`, () => {
+            setTransactions(prev => prev.map(t => {
+                if (t.id !== transactionId) return t;
+                const { splits, ...rest } = t;
+                return { ...rest, category: newCategory, isTransfer: newCategory === 'Internal Transfer' };
+            }));
 
-        if (!categories.includes(newCategory)) {
-            setCategories(prev => [...prev, newCategory].sort());
-        }
+            if (!categories.includes(newCategory)) {
+                setCategories(prev => [...prev, newCategory].sort());
+            }
+        });
 
         // 2. BACKGROUND VALIDATION
         try {
             const isLogical = await validateCategoryMismatch(transaction.description, newCategory);
             if (isLogical) {
-                // Update training data silently
-                setCategorizationExamples(prev => [...prev, { description: transaction.description, category: newCategory }]);
+                // Update training data silently. This lands after the change's undo step has closed, so it isn't recorded.
+                storeCategorizationExamples(prev => [...prev, { description: transaction.description, category: newCategory }]);
             } else {
                 // Notify user if AI thinks it's wrong, but don't revert automatically
                 showToast(`Tip: AI thinks "${newCategory}" might be unusual for this.`, 'warning');
@@ -135,69 +380,287 @@ export const FinancialProvider: React.FC<{ children: ReactNode }> = ({ children
         } catch (e) {
             // Ignore validation errors
         }
-    }, [transactions, categories, setTransactions, setCategories, setCategorizationExamples]);
+    }, [transactions, categories, setTransactions, setCategories, storeCategorizationExamples, runUndoable]);
 
-    // Logic: Import
-    const importTransactions = useCallback((importedTransactions: Omit<Transaction, 'id'>[]) => {
-        const existingTxKeys = new Set(transactions.map(t => `${t.date}|${t.description.trim()}|${t.amount}|${t.type}|${t.accountId}`));
+    // Logic: Import (each call is recorded as an ImportBatch so it can be rolled back)
+    const importTransactions = useCallback((importedTransactions: ImportedTransaction[], source: ImportSource) => {
+        const existingTxKeys = new Set(transactions.map(getImportKey));
 
+        // Source IDs are added as we go so a file that repeats a row (same FITID/receipt) only imports it once.
+        // Rows without one are matched only against what's stored: identical rows in one file (two bus
+        // fares on the same day) are separate transactions.
         const uniqueImportedTransactions = importedTransactions.filter(t => {
-            const key = `${t.date}|${t.description.trim()}|${t.amount}|${t.type}|${t.accountId}`;
-            return !existingTxKeys.has(key);
+            const key = getImportKey(t);
+            if (existingTxKeys.has(key)) return false;
+            if (t.externalId) existingTxKeys.add(key);
+            return true;
         });
 
         const skippedCount = importedTransactions.length - uniqueImportedTransactions.length;
 
         if (uniqueImportedTransactions.length > 0) {
-            const newTransactions: Transaction[] = uniqueImportedTransactions.map((t, i) => ({ ...t, id: `${Date.now()}-${i}` }));
-            setTransactions(prev => [...prev, ...newTransactions]);
+            journal.transact('Import', () => {
+                const batchId = createId();
+                const categorySources = new Map<string, ChangeSource>();
+                const newTransactions: Transaction[] = uniqueImportedTransactions.map(({ categorySource, ...t }) => {
+                    const transaction = { ...t, id: createId(), importBatchId: batchId };
+                    if (categorySource) categorySources.set(transaction.id, categorySource);
+                    return transaction;
+                });
+                withChangeSource({ source: 'import', note: source.fileName, categorySources }, () => setTransactions(prev => [...prev, ...newTransactions]));
 
-            let pointsFound = 0;
-            newTransactions.forEach(tx => {
-                if (checkAndAddPoints(tx)) pointsFound++;
-            });
+                let pointsFound = 0;
+                let updatedCards = loyaltyCards;
+                newTransactions.forEach(tx => {
+                    const applied = applyLoyaltyPoints(updatedCards, tx);
+                    if (applied) {
+                        updatedCards = applied;
+                        pointsFound++;
+                    }
+                });
+                const loyaltyCardChanges: LoyaltyCardChange[] = updatedCards
+                    .filter(card => !loyaltyCards.includes(card))
+                    .map(card => ({ cardId: card.id, previous: loyaltyCards.find(c => c.id === card.id) || null, applied: card }));
+                if (loyaltyCardChanges.length > 0) {
+                    setLoyaltyCards(updatedCards);
+                }
 
-            const importedCategories = new Set(uniqueImportedTransactions.map(t => t.category));
-            const newCategories = Array.from(importedCategories).filter(cat => !categories.includes(cat));
-            if (newCategories.length > 0) {
-                setCategories(prev => [...prev, ...newCategories].sort());
-            }
+                const importedCategories = new Set(uniqueImportedTransactions.map(t => t.category));
+                const newCategories = Array.from(importedCategories).filter(cat => !categories.includes(cat));
+                if (newCategories.length > 0) {
+                    setCategories(prev => [...prev, ...newCategories].sort());
+                }
 
-            const pointsMsg = pointsFound > 0 ? ` & updated ${pointsFound} loyalty cards` : '';
-            showToast(`${newTransactions.length} imported${pointsMsg}. ${skippedCount > 0 ? skippedCount + ' skipped.' : ''}`, 'info');
+                setImportBatches(prev => [{
+                    ...source,
+                    id: batchId,
+                    accountId: newTransactions[0].accountId,
+                    importedCount: newTransactions.length,
+                    skippedCount,
+                    createdAt: new Date().toISOString(),
+                    addedCategories: newCategories,
+                    loyaltyCardChanges,
+                }, ...prev]);
+
+                const pointsMsg = pointsFound > 0 ? ` & updated ${pointsFound} loyalty cards` : '';
+                showToast(`${newTransactions.length} imported${pointsMsg}. ${skippedCount > 0 ? skippedCount + ' skipped.' : ''}`, 'info', undoAction);
+            });
         } else if (skippedCount > 0) {
+            // Nothing new, but the file was still imported and belongs in the history.
+            journal.transact('Import', () => setImportBatches(prev => [{
+                ...source,
+                id: createId(),
+                accountId: importedTransactions[0].accountId,
+                importedCount: 0,
+                skippedCount,
+                createdAt: new Date().toISOString(),
+                addedCategories: [],
+                loyaltyCardChanges: [],
+            }, ...prev]));
             showToast("All transactions were duplicates.", 'warning');
         }
-    }, [transactions, categories, setTransactions, setCategories, checkAndAddPoints]);
+    }, [transactions, categories, loyaltyCards, setTransactions, setCategories, setLoyaltyCards, setImportBatches]);
+
+    // Logic: Undo an import, including the categories and loyalty card updates it caused
+    const rollbackImportBatch = useCallback((batchId: string) => {
+        const batch = importBatches.find(b => b.id === batchId);
+        if (!batch || batch.rolledBackAt) return;
+        journal.transact('Import rolled back', () => {
+            const remaining = transactions.filter(t => t.importBatchId !== batchId);
+            const removedCount = transactions.length - remaining.length;
+            setTransactions(remaining);
+
+            // Categories stay if anything else now uses them, including a budget set up for one.
+            const stillUsed = new Set([...remaining.flatMap(transactionCategories), ...budgets.map(b => b.category)]);
+            const orphanedCategories = batch.addedCategories.filter(cat => !stillUsed.has(cat));
+            if (orphanedCategories.length > 0) {
+                setCategories(prev => prev.filter(cat => !orphanedCategories.includes(cat)));
+            }
+
+            // Cards changed again since the import (manually or by a later import) are left alone.
+            setLoyaltyCards(prev => batch.loyaltyCardChanges.reduce((cards, change) => {
+                const current = cards.find(c => c.id === change.cardId);
+                if (!current || JSON.stringify(current) !== JSON.stringify(change.applied)) return cards;
+                return change.previous
+                    ? cards.map(c => c.id === change.cardId ? change.previous! : c)
+                    : cards.filter(c => c.id !== change.cardId);
+            }, prev));
+
+            setImportBatches(prev => prev.map(b => b.id === batchId ? { ...b, rolledBackAt: new Date().toISOString() } : b));
+            showToast(`Import undone: ${removedCount} transactions removed.`, 'info', undoAction);
+        });
+    }, [importBatches, transactions, budgets, setTransactions, setCategories, setLoyaltyCards, setImportBatches]);
+
+    // Logic: Duplicates (pairs are keyed by duplicatePairKey)
+    const mergeDuplicateTransactions = useCallback((keepId: string, removeId: string) => {
+        const keep = transactions.find(t => t.id === keepId);
+        const remove = transactions.find(t => t.id === removeId);
+        if (!keep || !remove) return;
+        const merged = mergeDuplicate(keep, remove);
+        runUndoable('Duplicate merged', () => setTransactions(prev => prev.filter(t => t.id !== removeId).map(t => t.id === keepId ? merged : t)));
+    }, [transactions, setTransactions]);
+
+    const dismissDuplicatePair = useCallback((idA: string, idB: string) => {
+        const key = duplicatePairKey(idA, idB);
+        setDismissedDuplicates(prev => prev.includes(key) ? prev : [...prev, key]);
+    }, [setDismissedDuplicates]);
+
+    // Logic: Fees (for charge rows imported before linking existed, or left unlinked at the time)
+    const linkExistingFees = useCallback(() => {
+        const { rows, linkedCount } = linkFees(transactions);
+        if (linkedCount === 0) {
+            showToast("No unlinked charges found.", 'info');
+            return;
+        }
+        journal.transact('Charges linked', () => withChangeSource({ source: 'heuristic', note: 'Charges linked' }, () => setTransactions(rows)));
+        showToast(`${linkedCount} charges attached to their payments.`, 'info', undoAction);
+    }, [transactions, setTransactions]);
+
+    // Logic: Schema migration results
+    useEffect(() => {
+        if (!migrationReport) return;
+        const setAside = migrationReport.quarantinedCount > 0 ? ` ${migrationReport.quarantinedCount} record${migrationReport.quarantinedCount === 1 ? '' : 's'} couldn't be upgraded and were set aside for review.` : '';
+        if (migrationReport.upgradedCount > 0 || setAside) {
+            showToast(`Your data was updated to the latest format (${migrationReport.upgradedCount} records upgraded).${setAside}`, setAside ? 'warning' : 'info');
+        }
+    }, [migrationReport]);
+
+    const deleteQuarantinedRecord = useCallback((id: string) => {
+        runUndoable('Set-aside record deleted', () => setQuarantinedRecords(prev => prev.filter(r => r.id !== id)));
+    }, [setQuarantinedRecords, runUndoable]);
+
+    // Logic: Attachments
+    // Deleting a transaction keeps its files while undo could bring it back. Once neither the data nor the
+    // history refers to a file any more, it is removed. Runs shortly after changes settle, and on startup.
+    useEffect(() => {
+        if (!isStorageReady) return;
+        const timer = window.setTimeout(() => {
+            const inHistory = recordsInHistory(journal.entries, 'transactions') as Transaction[];
+            const referenced = new Set([...transactions, ...inHistory].flatMap(tx => tx.attachmentIds || []));
+            deleteUnreferencedAttachments(referenced, new Date(Date.now() - ATTACHMENT_GRACE_MS).toISOString())
+                .catch(error => console.error("Attachment cleanup failed:", error));
+        }, 2000);
+        return () => window.clearTimeout(timer);
+    }, [isStorageReady, transactions, journal.entries]);
+
+    // Logic: Backups
+    const collectBackupData = useCallback((): BackupData => ({
+        accounts, transactions, categories, budgets, userProfile, debts, chamas, loyaltyCards, categorizationExamples, importProfiles, importBatches, dismissedDuplicates,
+        merchantCache: getAllCachedEnrichments(),
+        merchantDictionary: merchantService.getDictionary(),
+    }), [accounts, transactions, categories, budgets, userProfile, debts, chamas, loyaltyCards, categorizationExamples, importProfiles, importBatches, dismissedDuplicates]);
+
+    // `data` is the finished result (see planRestore), so every collection is simply set to it.
+    // Undo puts the financial data and examples back; import profiles, merchant names and files stay restored.
+    const restoreBackup = useCallback((data: BackupData, attachments: Attachment[]) => {
+        journal.transact('Backup restored', () => {
+            setAccounts(data.accounts);
+            withChangeSource({ source: 'restore' }, () => setTransactions(data.transactions));
+            setCategories(data.categories);
+            setBudgets(data.budgets);
+            setUserProfile(data.userProfile);
+            setDebts(data.debts);
+            setChamas(data.chamas);
+            setLoyaltyCards(data.loyaltyCards);
+            setCategorizationExamples(data.categorizationExamples);
+            setImportProfiles(data.importProfiles);
+            setImportBatches(data.importBatches);
+            setDismissedDuplicates(data.dismissedDuplicates);
+        });
+        replaceCachedEnrichments(data.merchantCache);
+        merchantService.replaceDictionary(data.merchantDictionary);
+        showToast("Backup restored.", 'info', undoAction);
+        saveAttachments(attachments).catch(error => {
+            console.error(error);
+            showToast("Backup restored, but its attachments couldn't be saved on this device.", 'warning');
+        });
+    }, [setAccounts, setTransactions, setCategories, setBudgets, setUserProfile, setDebts, setChamas, setLoyaltyCards, setCategorizationExamples, setImportProfiles, setImportBatches, setDismissedDuplicates]);
+
+    // Logic: Shared ledger sync
+    const conflictCount = remoteSync.conflicts.length;
+    const seenConflictCount = useRef(conflictCount);
+    useEffect(() => {
+        if (conflictCount > seenConflictCount.current) {
+            showToast(`${conflictCount - seenConflictCount.current} of your edits clashed with another device's. Review them under Sync.`, 'warning');
+        }
+        seenConflictCount.current = conflictCount;
+    }, [conflictCount]);
+
+    // Keeping the value that won needs no change; taking the other one is a new edit, so it syncs and can be undone.
+    const resolveSyncConflict = useCallback((id: string, useOther: boolean) => {
+        const conflict = remoteSync.conflicts.find(c => c.id === id);
+        if (!conflict) return;
+        if (useOther && conflict.collection !== 'categories') {
+            const setters: Record<Exclude<SyncCollection, 'categories'>, React.Dispatch<React.SetStateAction<{ id: string }[]>>> = {
+                accounts: setAccounts, transactions: setTransactions, budgets: setBudgets, debts: setDebts, chamas: setChamas, loyaltyCards: setLoyaltyCards,
+            };
+            runUndoable('Sync conflict resolved', () => setters[conflict.collection](prev => prev.map(record => {
+                if (record.id !== conflict.recordId) return record;
+                const next: Record<string, unknown> = { ...record };
+                if (conflict.otherValue === null) delete next[conflict.field];
+                else next[conflict.field] = conflict.otherValue;
+                return next as { id: string };
+            })));
+        }
+        remoteSync.dismissConflict(id);
+    }, [remoteSync.conflicts, setAccounts, setTransactions, setBudgets, setDebts, setChamas, setLoyaltyCards, runUndoable]);
 
     // Logic: Budgets
     const addBudget = useCallback((budgetOrBudgets: Omit<Budget, 'id'> | Omit<Budget, 'id'>[]) => {
         const newBudgets = Array.isArray(budgetOrBudgets) ? budgetOrBudgets : [budgetOrBudgets];
-        setBudgets(prev => {
+        journal.transact('Budget strategy updated', () => setBudgets(prev => {
             const updated = [...prev];
             newBudgets.forEach(newB => {
                 const idx = updated.findIndex(b => b.category === newB.category);
                 if (idx >= 0) {
                     updated[idx] = { ...newB, id: updated[idx].id };
                 } else {
-                    updated.push({ ...newB, id: Date.now().toString() + Math.random() });
+                    updated.push({ ...newB, id: createId() });
                 }
             });
             return updated;
-        });
-        showToast("Budget Strategy Updated", 'info');
+        }));
+        showToast("Budget Strategy Updated", 'info', undoAction);
     }, [setBudgets]);
 
     const clearBudgets = useCallback(() => {
-        setBudgets([]);
-        showToast("All strategies cleared.", 'info');
+        journal.transact('Strategies cleared', () => setBudgets([]));
+        showToast("All strategies cleared.", 'info', undoAction);
     }, [setBudgets]);
 
+    // Logic: Import Profiles (one per bank layout and account)
+    const saveImportProfile = useCallback((profile: Omit<ImportProfile, 'id'> & { id?: string }) => {
+        setImportProfiles(prev => {
+            const existing = prev.find(p => p.id === profile.id || (p.headerFingerprint === profile.headerFingerprint && p.accountId === profile.accountId));
+            if (existing) {
+                return prev.map(p => p.id === existing.id ? { ...profile, id: existing.id } : p);
+            }
+            return [...prev, { ...profile, id: createId() }];
+        });
+    }, [setImportProfiles]);
+
+    // Saving under an existing name replaces that search.
+    const saveSearch = useCallback((name: string, query: string) => {
+        const others = savedSearches.filter(s => s.name.toLowerCase() !== name.trim().toLowerCase());
+        setSavedSearches([...others, { id: createId(), name: name.trim(), query: query.trim(), createdAt: new Date().toISOString() }]);
+    }, [savedSearches, setSavedSearches]);
+
+    const deleteSavedSearch = useCallback((id: string) => {
+        setSavedSearches(savedSearches.filter(s => s.id !== id));
+    }, [savedSearches, setSavedSearches]);
+
+    // Collections load from IndexedDB asynchronously; rendering before then would look like an empty account.
+    if (!isStorageReady) {
+        return <StorageLoading />;
+    }
+
     return (
         <FinancialContext.Provider value={{
-            accounts, transactions, categories, budgets, userProfile, loyaltyCards, debts, chamas, categorizationExamples,
+            accounts, transactions, categories, budgets, userProfile, loyaltyCards, debts, chamas, categorizationExamples, importProfiles, importBatches, dismissedDuplicates, quarantinedRecords,
             setAccounts, setTransactions, setUserProfile, setBudgets, setLoyaltyCards, setDebts, setChamas, setCategories,
-            addTransaction, updateTransaction, deleteTransaction, updateCategory, importTransactions, addBudget, clearBudgets,
+            addTransaction, updateTransaction, deleteTransaction, updateCategory, revertTransactionField, tagTransactions, bulkUpdateTransactions, deleteTransactions, auditRevision: audit.revision, importTransactions, rollbackImportBatch, mergeDuplicateTransactions, dismissDuplicatePair, linkExistingFees, deleteQuarantinedRecord, lockVault: onLock, collectBackupData, restoreBackup, addBudget, clearBudgets, saveImportProfile, savedSearches, saveSearch, deleteSavedSearch,
+            undo, redo, canUndo: journal.canUndo, canRedo: journal.canRedo, runUndoable,
+            remoteSync, resolveSyncConflict,
             notification, dismissNotification
         }}>
             {children}
@@ -0,0 +1,48 @@
+import { useRef, useState, Dispatch, SetStateAction } from 'react';
+import { Transaction } from '../types';
+import { diffForAudit } from '../services/auditService';
+import { appendAuditEntries } from '../services/storageService';
+
+interface Tracked {
+  latest: Transaction[];
+  setValue: Dispatch<SetStateAction<Transaction[]>>;
+  setter?: Dispatch<SetStateAction<Transaction[]>>;
+}
+
+export interface AuditTrail {
+  // Bumped after entries are saved, so an open history view knows to reload.
+  revision: number;
+  // Wraps the transactions setter so every change is recorded. Call on every render with the current value.
+  track: (value: Transaction[], setValue: Dispatch<SetStateAction<Transaction[]>>) => Dispatch<SetStateAction<Transaction[]>>;
+}
+
+// Records transaction changes field by field (see auditService). It wraps the store's own setter, so
+// changes from undo and from other devices are recorded as well as direct edits.
+function useAuditTrail(): AuditTrail {
+  const [revision, setRevision] = useState(0);
+  const tracked = useRef<Tracked | null>(null);
+
+  const track = (value: Transaction[], setValue: Dispatch<SetStateAction<Transaction[]>>) => {
+    if (!tracked.current) tracked.current = { latest: value, setValue };
+    const entry = tracked.current;
+    entry.latest = value;
+    entry.setValue = setValue;
+    if (!entry.setter) {
+      // Created once, so it is as stable as the setter it wraps.
+      entry.setter = (action: SetStateAction<Transaction[]>) => {
+        const next = action instanceof Function ? action(entry.latest) : action;
+        const entries = diffForAudit(entry.latest, next);
+        entry.latest = next;
+        entry.setValue(next);
+        appendAuditEntries(entries)
+          .then(() => { if (entries.length > 0) setRevision(current => current + 1); })
+          .catch(error => console.error('Failed to save transaction history:', error));
+      };
+    }
+    return entry.setter;
+  };
+
+  return { revision, track };
+}
+
+export default useAuditTrail;
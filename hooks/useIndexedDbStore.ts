@@ -0,0 +1,121 @@
+import { useState, useEffect, useRef, useCallback, Dispatch, SetStateAction } from 'react';
+import { StoreName, StoreRecords, loadRecords, loadStore, readLegacyCollection, refreshSetting, saveStoreChanges, writeSetting } from '../services/storageService';
+import { SyncConflict, subscribeToStoreChanges } from '../services/syncService';
+import { storageKey } from '../services/bookService';
+
+// Drop-in replacement for useLocalStorage on collections kept in IndexedDB.
+// Updates diff the new array against the last one by id and object identity, so only records that
+// were added, replaced or removed are written. Changes made in other tabs are merged in as they land.
+function useIndexedDbStore<K extends StoreName>(name: K, onConflict?: (conflicts: SyncConflict[]) => void): [StoreRecords[K][], Dispatch<SetStateAction<StoreRecords[K][]>>, boolean] {
+  const [items, setItems] = useState<StoreRecords[K][]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Latest value, so several updates in one handler each build on the previous one.
+  const current = useRef<StoreRecords[K][]>([]);
+  // Set when IndexedDB can't be opened; the collection is then kept in localStorage as before.
+  const useFallback = useRef(false);
+  // Ids with a local write still in flight. Remote copies of these are stale by the time they arrive.
+  const pendingWrites = useRef(new Map<string, number>());
+  const conflictHandler = useRef(onConflict);
+  conflictHandler.current = onConflict;
+
+  const replaceItems = (next: StoreRecords[K][]) => {
+    current.current = next;
+    setItems(next);
+  };
+
+  // Swaps in newer copies of records (or drops them when `undefined`) without writing anything back.
+  const mergeRecords = (records: Map<string, StoreRecords[K] | undefined>) => {
+    const seen = new Set<string>();
+    const next = current.current.flatMap(item => {
+      if (!records.has(item.id)) return [item];
+      seen.add(item.id);
+      const record = records.get(item.id);
+      return record ? [record] : [];
+    });
+    records.forEach((record, id) => {
+      if (record && !seen.has(id)) next.push(record);
+    });
+    replaceItems(next);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    loadStore(name)
+      .catch(error => {
+        console.error(error);
+        useFallback.current = true;
+        return readLegacyCollection(name);
+      })
+      .then(records => {
+        if (cancelled) return;
+        replaceItems(records);
+        setIsLoaded(true);
+      });
+    return () => { cancelled = true; };
+  }, [name]);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToStoreChanges(name, ids => {
+      const remoteIds = ids.filter(id => !pendingWrites.current.has(id));
+      if (remoteIds.length === 0 || useFallback.current) return;
+      loadRecords(name, remoteIds).then(mergeRecords).catch(error => console.error(`Failed to sync ${name}:`, error));
+    });
+
+    // Without IndexedDB the whole collection lives under one localStorage key, which fires a storage event.
+    const handleStorage = (event: StorageEvent) => {
+      if (!useFallback.current || event.key !== storageKey(name)) return;
+      refreshSetting(name)
+        .then(records => replaceItems(Array.isArray(records) ? records : []))
+        .catch(error => console.error(`Failed to sync ${name}:`, error));
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [name]);
+
+  const setValue = useCallback((value: SetStateAction<StoreRecords[K][]>) => {
+    const previous = current.current;
+    const next = value instanceof Function ? value(previous) : value;
+    replaceItems(next);
+
+    if (useFallback.current) {
+      writeSetting(name, next).catch(error => console.error(error));
+      return;
+    }
+
+    const previousById = new Map<string, StoreRecords[K]>(previous.map(item => [item.id, item]));
+    const nextIds = new Set(next.map(item => item.id));
+    const put = next.filter(item => previousById.get(item.id) !== item);
+    const remove = previous.filter(item => !nextIds.has(item.id)).map(item => item.id);
+    if (put.length === 0 && remove.length === 0) return;
+
+    // The version each edit started from, so the write can tell if another tab changed it meanwhile.
+    const bases = new Map<string, StoreRecords[K]>();
+    put.forEach(item => {
+      const base = previousById.get(item.id);
+      if (base) bases.set(item.id, base);
+    });
+
+    const ids = [...put.map(item => item.id), ...remove];
+    ids.forEach(id => pendingWrites.current.set(id, (pendingWrites.current.get(id) || 0) + 1));
+    saveStoreChanges(name, put, remove, bases)
+      .then(({ merged, conflicts }) => {
+        if (merged.length > 0) mergeRecords(new Map(merged.map(record => [record.id, record])));
+        if (conflicts.length > 0) conflictHandler.current?.(conflicts);
+      })
+      .catch(error => console.error(`Failed to save ${name}:`, error))
+      .finally(() => {
+        ids.forEach(id => {
+          const count = (pendingWrites.current.get(id) || 1) - 1;
+          if (count > 0) pendingWrites.current.set(id, count);
+          else pendingWrites.current.delete(id);
+        });
+      });
+  }, [name]);
+
+  return [items, setValue, isLoaded];
+}
+
+export default useIndexedDbStore;
@@ -0,0 +1,146 @@
+import { useRef, useCallback, useMemo, Dispatch, SetStateAction } from 'react';
+import useLocalStorage from './useLocalStorage';
+import { EMPTY_JOURNAL, JournalCollection, JournalEntry, JournalState, applyPatch, diffCollection, pushEntry, replayableEntries } from '../services/journalService';
+import { createId } from '../services/idService';
+
+// Collections hold different types; each one's setter is typed where `track` creates it.
+interface Tracked {
+  latest: unknown;
+  setValue: Dispatch<SetStateAction<unknown>>;
+  setter?: Dispatch<SetStateAction<unknown>>;
+}
+
+export interface Journal {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+  // What undo and redo can still replay, undo history first. Changes whenever the history does.
+  entries: JournalEntry[];
+  // Wraps a state setter so its changes are recorded. Call on every render with the current value.
+  track: <T>(collection: JournalCollection, value: T, setValue: Dispatch<SetStateAction<T>>) => Dispatch<SetStateAction<T>>;
+  // Groups the changes `fn` makes into one entry with this label.
+  transact: (label: string, fn: () => void) => void;
+  undo: () => JournalEntry | null;
+  redo: () => JournalEntry | null;
+}
+
+// Records changes made through tracked setters. Changes in the same tick become one entry, labelled by
+// `transact` or "Edit" when made directly, so an action that touches several collections undoes as one.
+function useJournal(): Journal {
+  const [journal, setJournal] = useLocalStorage<JournalState>('journal', EMPTY_JOURNAL);
+  // Latest history, so several updates before the next render each build on the previous one.
+  const journalRef = useRef(journal);
+  journalRef.current = journal;
+  // Full copies of the entries too large to save, by id, for as long as this tab is open.
+  const heldEntries = useRef(new Map<string, JournalEntry>());
+
+  const tracked = useRef(new Map<JournalCollection, Tracked>());
+  // The entry being gathered: its label and each touched collection's value before the first change.
+  const pending = useRef<{ label: string; before: Map<JournalCollection, unknown> } | null>(null);
+
+  const saveJournal = (next: JournalState) => {
+    journalRef.current = next;
+    setJournal(next);
+    const kept = new Set([...next.undo, ...next.redo].map(entry => entry.id));
+    heldEntries.current.forEach((_, id) => { if (!kept.has(id)) heldEntries.current.delete(id); });
+  };
+
+  const flush = () => {
+    const entry = pending.current;
+    pending.current = null;
+    if (!entry) return;
+    const patches = Array.from(entry.before.entries())
+      .map(([collection, before]) => diffCollection(collection, before, tracked.current.get(collection)!.latest))
+      .filter(patch => patch !== null);
+    if (patches.length === 0) return;
+    const full: JournalEntry = { id: createId(), label: entry.label, at: new Date().toISOString(), patches };
+    const next = pushEntry(journalRef.current, full);
+    if (next.undo[next.undo.length - 1].unsaved) heldEntries.current.set(full.id, full);
+    saveJournal(next);
+  };
+
+  const open = (label: string) => {
+    if (pending.current) return;
+    pending.current = { label, before: new Map() };
+    queueMicrotask(flush);
+  };
+
+  const track = <T,>(collection: JournalCollection, value: T, setValue: Dispatch<SetStateAction<T>>): Dispatch<SetStateAction<T>> => {
+    let entry = tracked.current.get(collection);
+    if (!entry) {
+      entry = { latest: value, setValue };
+      tracked.current.set(collection, entry);
+    }
+    entry.latest = value;
+    entry.setValue = setValue;
+    if (!entry.setter) {
+      const current = entry;
+      // Created once per collection, so it is as stable as the setter it wraps.
+      const setter: Dispatch<SetStateAction<T>> = action => {
+        const next = action instanceof Function ? action(current.latest as T) : action;
+        open('Edit');
+        if (!pending.current!.before.has(collection)) pending.current!.before.set(collection, current.latest);
+        current.latest = next;
+        current.setValue(next);
+      };
+      current.setter = setter;
+    }
+    return entry.setter;
+  };
+
+  const transact = useCallback((label: string, fn: () => void) => {
+    // Anything gathered so far belongs to whatever ran before this action.
+    flush();
+    open(label);
+    fn();
+  }, []);
+
+  const replay = (direction: 'undo' | 'redo'): JournalEntry | null => {
+    flush();
+    const state = journalRef.current;
+    const stack = direction === 'undo' ? state.undo : state.redo;
+    const entry = replayableEntries(stack, heldEntries.current).pop();
+    if (!entry) return null;
+
+    const patches = direction === 'undo' ? [...entry.patches].reverse() : entry.patches;
+    patches.forEach(patch => {
+      const target = tracked.current.get(patch.collection);
+      if (!target) return;
+      // Written through the raw setter, so replaying isn't itself recorded.
+      target.latest = applyPatch(target.latest, patch, direction);
+      target.setValue(target.latest);
+    });
+
+    // The entry moves between stacks as saved, so an unsaved one stays a stub.
+    const saved = stack[stack.length - 1];
+    saveJournal(direction === 'undo'
+      ? { undo: state.undo.slice(0, -1), redo: [...state.redo, saved] }
+      : { undo: [...state.undo, saved], redo: state.redo.slice(0, -1) });
+    return entry;
+  };
+
+  const undo = useCallback(() => replay('undo'), []);
+  const redo = useCallback(() => replay('redo'), []);
+
+  // Held entries only change along with the saved history, so it is enough to key on that.
+  const { undoable, redoable } = useMemo(() => ({
+    undoable: replayableEntries(journal.undo, heldEntries.current),
+    redoable: replayableEntries(journal.redo, heldEntries.current),
+  }), [journal]);
+  const entries = useMemo(() => [...undoable, ...redoable], [undoable, redoable]);
+
+  return {
+    canUndo: undoable.length > 0,
+    canRedo: redoable.length > 0,
+    undoLabel: undoable[undoable.length - 1]?.label,
+    redoLabel: redoable[redoable.length - 1]?.label,
+    entries,
+    track,
+    transact,
+    undo,
+    redo,
+  };
+}
+
+export default useJournal;
@@ -1,31 +1,33 @@
 import { useState, useEffect, Dispatch, SetStateAction } from 'react';
+import { readSetting, refreshSetting, writeSetting } from '../services/storageService';
+import { storageKey } from '../services/bookService';
 
 // FIX: Updated function signature to use Dispatch and SetStateAction types imported from React, resolving the 'React' namespace error.
 function useLocalStorage<T,>(key: string, initialValue: T): [T, Dispatch<SetStateAction<T>>] {
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    try {
-      const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item) : initialValue;
-    } catch (error) {
-      console.error(error);
-      return initialValue;
-    }
-  });
+  // Reads and writes go through storageService, which seals them when the vault is on.
+  const [storedValue, setStoredValue] = useState<T>(() => (readSetting(key) as T | null) ?? initialValue);
 
   const setValue = (value: T | ((val: T) => T)) => {
     try {
       const valueToStore = value instanceof Function ? value(storedValue) : value;
       setStoredValue(valueToStore);
-      window.localStorage.setItem(key, JSON.stringify(valueToStore));
+      writeSetting(key, valueToStore).catch(error => console.error(error));
     } catch (error) {
       console.error(error);
     }
   };
   
-  // This useEffect is not strictly necessary if you only want to set the value,
-  // but it's good practice to keep the state in sync if the local storage is
-  // changed by another tab. However, for simplicity here we'll assume this app
-  // is the only one modifying its own local storage.
+  // Another tab saved this key: take its value so our next write builds on it instead of overwriting it.
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== storageKey(key) || event.storageArea !== window.localStorage) return;
+      refreshSetting(key)
+        .then(value => setStoredValue((value as T | null) ?? initialValue))
+        .catch(error => console.error(error));
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [key]);
 
   return [storedValue, setValue];
 }
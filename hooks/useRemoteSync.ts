@@ -0,0 +1,303 @@
+import { useRef, useState, useEffect, useCallback, Dispatch, SetStateAction } from 'react';
+import useLocalStorage from './useLocalStorage';
+import useIndexedDbStore from './useIndexedDbStore';
+import { RemoteSyncSettings, SyncChange, SyncCollection, SyncFieldConflict, SyncRecordMeta } from '../types';
+import {
+  SYNC_COLLECTIONS, SyncCollections, acknowledgeChange, applyRemoteChanges, createLedgerId, diffForSync, metaKey, pullChanges, pushChanges, snapshotForSync, stampLocalChange,
+} from '../services/remoteSyncService';
+import { createId } from '../services/idService';
+import { withChangeSource } from '../services/auditService';
+
+export type RemoteSyncStatus = 'off' | 'paused' | 'offline' | 'syncing' | 'synced' | 'error';
+
+// Collections hold different record types; each one's setter is typed where `track` creates it.
+interface Tracked {
+  latest: unknown[];
+  setValue: Dispatch<SetStateAction<unknown[]>>;
+  setter?: Dispatch<SetStateAction<unknown[]>>;
+}
+
+export interface RemoteSync {
+  settings: RemoteSyncSettings | null;
+  status: RemoteSyncStatus;
+  error: string | null;
+  lastSyncedAt: string | null;
+  pendingCount: number;
+  conflicts: SyncFieldConflict[];
+  isLoaded: boolean;
+  // Wraps a state setter so its changes are queued for the ledger. Call on every render with the current value.
+  track: <T extends unknown[]>(collection: SyncCollection, value: T, setValue: Dispatch<SetStateAction<T>>) => Dispatch<SetStateAction<T>>;
+  // Joins `ledgerId`, or starts a new ledger when it is empty, and sends everything already here.
+  connect: (serverUrl: string, ledgerId: string, serverToken?: string) => Promise<void>;
+  disconnect: () => void;
+  setPaused: (paused: boolean) => void;
+  syncNow: () => Promise<void>;
+  dismissConflict: (id: string) => void;
+}
+
+const PUSH_DELAY = 2000;
+const PULL_INTERVAL = 30000;
+const PUSH_BATCH = 500;
+
+// Keeps the shared ledger and this device in step. Local edits are queued in IndexedDB (so they
+// survive going offline or closing the tab) and pushed shortly after they're made; the server is
+// polled for other devices' changes, which are written straight to the stores so they are neither
+// queued again nor recorded as undoable edits.
+function useRemoteSync(): RemoteSync {
+  const [settings, setSettings] = useLocalStorage<RemoteSyncSettings | null>('remoteSync', null);
+  const [cursor, setCursor] = useLocalStorage<number>('remoteSyncCursor', 0);
+  const [conflicts, setConflicts] = useLocalStorage<SyncFieldConflict[]>('remoteSyncConflicts', []);
+  const [meta, setMeta, metaLoaded] = useIndexedDbStore('syncMeta');
+  const [outbox, setOutbox, outboxLoaded] = useIndexedDbStore('syncOutbox');
+  const [status, setStatus] = useState<RemoteSyncStatus>('off');
+  const [error, setError] = useState<string | null>(null);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+
+  // Latest values, so changes made before the next render build on each other.
+  const settingsRef = useRef(settings);
+  const cursorRef = useRef(cursor);
+  const conflictsRef = useRef(conflicts);
+  const outboxRef = useRef(outbox);
+  settingsRef.current = settings;
+  cursorRef.current = cursor;
+  conflictsRef.current = conflicts;
+  outboxRef.current = outbox;
+
+  const metaSource = useRef<SyncRecordMeta[] | null>(null);
+  const metaById = useRef(new Map<string, SyncRecordMeta>());
+  if (metaSource.current !== meta) {
+    metaSource.current = meta;
+    metaById.current = new Map(meta.map(record => [record.id, record]));
+  }
+
+  const tracked = useRef(new Map<SyncCollection, Tracked>());
+  const isSyncing = useRef(false);
+  const pushTimer = useRef<number | undefined>(undefined);
+
+  const saveMeta = (records: SyncRecordMeta[]) => {
+    if (records.length === 0) return;
+    records.forEach(record => metaById.current.set(record.id, record));
+    const byId = new Map(records.map(record => [record.id, record]));
+    setMeta(prev => {
+      const next = prev.map(record => byId.get(record.id) ?? record);
+      const present = new Set(prev.map(record => record.id));
+      records.forEach(record => { if (!present.has(record.id)) next.push(record); });
+      return next;
+    });
+  };
+
+  const saveCursor = (next: number) => {
+    cursorRef.current = next;
+    setCursor(next);
+  };
+
+  const saveConflicts = (next: SyncFieldConflict[]) => {
+    conflictsRef.current = next;
+    setConflicts(next);
+  };
+
+  const enqueue = (changes: { collection: SyncCollection; recordId: string; fields: Record<string, unknown> }[]) => {
+    const current = settingsRef.current;
+    if (!current || changes.length === 0) return;
+    const queued: SyncChange[] = [];
+    const stamped = changes.map(({ collection, recordId, fields }) => {
+      const result = stampLocalChange(collection, recordId, fields, current, cursorRef.current, metaById.current.get(metaKey(collection, recordId)));
+      queued.push(result.change);
+      metaById.current.set(result.meta.id, result.meta);
+      return result.meta;
+    });
+    saveMeta(stamped);
+    outboxRef.current = [...outboxRef.current, ...queued];
+    setOutbox(prev => [...prev, ...queued]);
+    schedulePush();
+  };
+
+  const track = <T extends unknown[]>(collection: SyncCollection, value: T, setValue: Dispatch<SetStateAction<T>>): Dispatch<SetStateAction<T>> => {
+    let entry = tracked.current.get(collection);
+    if (!entry) {
+      entry = { latest: value, setValue };
+      tracked.current.set(collection, entry);
+    }
+    entry.latest = value;
+    entry.setValue = setValue;
+    if (!entry.setter) {
+      const current = entry;
+      // Created once per collection, so it is as stable as the setter it wraps.
+      const setter: Dispatch<SetStateAction<T>> = action => {
+        const next = action instanceof Function ? action(current.latest as T) : action;
+        if (settingsRef.current) {
+          enqueue(diffForSync(collection, current.latest, next).map(change => ({ ...change, collection })));
+        }
+        current.latest = next;
+        current.setValue(next);
+      };
+      current.setter = setter;
+    }
+    return entry.setter;
+  };
+
+  const currentCollections = (): SyncCollections => {
+    const collections = {} as SyncCollections;
+    SYNC_COLLECTIONS.forEach(collection => { collections[collection] = tracked.current.get(collection)?.latest || []; });
+    return collections;
+  };
+
+  // --- Talking to the server ---
+
+  const push = async (current: RemoteSyncSettings) => {
+    while (outboxRef.current.length > 0) {
+      const batch = outboxRef.current.slice(0, PUSH_BATCH);
+      const seqs = await pushChanges(current, batch);
+      const acknowledged = batch.flatMap((change, index) => {
+        const key = metaKey(change.collection, change.recordId);
+        const updated = acknowledgeChange(metaById.current.get(key), change.id, seqs[index]);
+        return updated ? [updated] : [];
+      });
+      saveMeta(acknowledged);
+      const sent = new Set(batch.map(change => change.id));
+      outboxRef.current = outboxRef.current.filter(change => !sent.has(change.id));
+      setOutbox(prev => prev.filter(change => !sent.has(change.id)));
+    }
+  };
+
+  const pull = async (current: RemoteSyncSettings) => {
+    let hasMore = true;
+    while (hasMore) {
+      const page = await pullChanges(current, cursorRef.current);
+      if (page.changes.length > 0) {
+        const result = applyRemoteChanges(currentCollections(), metaById.current, page.changes, current.deviceId);
+        Object.entries(result.collections).forEach(([collection, value]) => {
+          const entry = tracked.current.get(collection as SyncCollection);
+          if (!entry) return;
+          entry.latest = value!;
+          withChangeSource({ source: 'sync' }, () => entry.setValue(value));
+        });
+        saveMeta(result.meta);
+        if (result.conflicts.length > 0) {
+          // A newer conflict on the same field replaces the older one.
+          const ids = new Set(result.conflicts.map(conflict => conflict.id));
+          saveConflicts([...conflictsRef.current.filter(conflict => !ids.has(conflict.id)), ...result.conflicts]);
+        }
+      }
+      saveCursor(page.cursor);
+      hasMore = page.hasMore;
+    }
+  };
+
+  const syncNow = useCallback(async () => {
+    const current = settingsRef.current;
+    if (!current || !current.enabled || isSyncing.current) return;
+    if (!navigator.onLine) {
+      setStatus('offline');
+      return;
+    }
+    isSyncing.current = true;
+    setStatus('syncing');
+    try {
+      await push(current);
+      await pull(current);
+      setStatus('synced');
+      setError(null);
+      setLastSyncedAt(new Date().toISOString());
+    } catch (syncError) {
+      // Nothing is lost: unsent changes stay queued and the cursor only moves past applied pages.
+      console.error(syncError);
+      setStatus('error');
+      setError((syncError as Error).message);
+    } finally {
+      isSyncing.current = false;
+    }
+  }, []);
+
+  function schedulePush() {
+    window.clearTimeout(pushTimer.current);
+    pushTimer.current = window.setTimeout(() => { syncNow(); }, PUSH_DELAY);
+  }
+
+  useEffect(() => {
+    if (!settings) {
+      setStatus('off');
+      return;
+    }
+    if (!settings.enabled) {
+      setStatus('paused');
+      return;
+    }
+    if (!metaLoaded || !outboxLoaded) return;
+    syncNow();
+    const timer = window.setInterval(() => { syncNow(); }, PULL_INTERVAL);
+    const handleOnline = () => { syncNow(); };
+    const handleOffline = () => setStatus('offline');
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.clearInterval(timer);
+      window.clearTimeout(pushTimer.current);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [settings?.enabled, settings?.ledgerId, settings?.serverUrl, metaLoaded, outboxLoaded]);
+
+  // --- Setup ---
+
+  const connect = useCallback(async (serverUrl: string, ledgerId: string, serverToken?: string) => {
+    const next: RemoteSyncSettings = {
+      serverUrl: serverUrl.trim(),
+      serverToken: serverToken?.trim() || undefined,
+      ledgerId: ledgerId.trim() || createLedgerId(),
+      deviceId: settingsRef.current?.deviceId || createId(),
+      enabled: true,
+    };
+    // Fails before anything is saved if the server can't be reached or refuses the ledger.
+    await pullChanges(next, 0);
+
+    settingsRef.current = next;
+    setSettings(next);
+    saveCursor(0);
+    saveConflicts([]);
+    // This device's data joins the ledger as new records alongside whatever is already there.
+    enqueue(snapshotForSync(currentCollections()));
+  }, []);
+
+  const disconnect = useCallback(() => {
+    window.clearTimeout(pushTimer.current);
+    settingsRef.current = null;
+    setSettings(null);
+    saveCursor(0);
+    saveConflicts([]);
+    metaById.current = new Map();
+    outboxRef.current = [];
+    setMeta([]);
+    setOutbox([]);
+  }, []);
+
+  const setPaused = useCallback((paused: boolean) => {
+    const current = settingsRef.current;
+    if (!current) return;
+    const next = { ...current, enabled: !paused };
+    settingsRef.current = next;
+    setSettings(next);
+  }, []);
+
+  const dismissConflict = useCallback((id: string) => {
+    saveConflicts(conflictsRef.current.filter(conflict => conflict.id !== id));
+  }, []);
+
+  return {
+    settings,
+    status,
+    error,
+    lastSyncedAt,
+    pendingCount: outbox.length,
+    conflicts,
+    isLoaded: metaLoaded && outboxLoaded,
+    track,
+    connect,
+    disconnect,
+    setPaused,
+    syncNow,
+    dismissConflict,
+  };
+}
+
+export default useRemoteSync;
@@ -0,0 +1,57 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+export interface Selection {
+  selectedIds: Set<string>;
+  isSelected: (id: string) => boolean;
+  // Toggles one row, or with `extend` (shift-click) selects every row from the last one clicked to this one.
+  toggle: (index: number, extend?: boolean) => void;
+  selectAll: () => void;
+  clear: () => void;
+}
+
+// Multi-select over a list shown in order. Rows that drop out of the list (filtered away, deleted)
+// are dropped from the selection, so bulk actions only ever touch what is on screen.
+function useSelection<T extends { id: string }>(items: T[]): Selection {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const anchor = useRef<number | null>(null);
+
+  useEffect(() => {
+    setSelectedIds(prev => {
+      if (prev.size === 0) return prev;
+      const listed = new Set(items.map(item => item.id));
+      const next = new Set<string>();
+      prev.forEach(id => { if (listed.has(id)) next.add(id); });
+      return next.size === prev.size ? prev : next;
+    });
+    anchor.current = null;
+  }, [items]);
+
+  const toggle = useCallback((index: number, extend = false) => {
+    const item = items[index];
+    if (!item) return;
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (extend && anchor.current !== null) {
+        const [from, to] = anchor.current < index ? [anchor.current, index] : [index, anchor.current];
+        items.slice(from, to + 1).forEach(row => next.add(row.id));
+      } else if (next.has(item.id)) {
+        next.delete(item.id);
+      } else {
+        next.add(item.id);
+      }
+      return next;
+    });
+    anchor.current = index;
+  }, [items]);
+
+  const selectAll = useCallback(() => setSelectedIds(new Set(items.map(item => item.id))), [items]);
+
+  const clear = useCallback(() => {
+    setSelectedIds(new Set());
+    anchor.current = null;
+  }, []);
+
+  return { selectedIds, isSelected: (id: string) => selectedIds.has(id), toggle, selectAll, clear };
+}
+
+export default useSelection;
@@ -0,0 +1,217 @@
+import { createServer } from 'node:http';
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+
+/** @typedef {import('../types').SyncChange} SyncChange */
+
+// Change-log server for shared ledgers. Each ledger is an append-only log of record changes kept in
+// one JSON-lines file; devices push the changes they make and pull everyone else's by sequence number.
+// It never merges anything itself: resolving concurrent edits happens on each device (see remoteSyncService).
+// Plain JavaScript with no dependencies, so it runs on any current Node.js without a build step.
+//
+//   npm run sync-server
+//
+// SYNC_PORT (default 8787), SYNC_HOST (default 127.0.0.1), SYNC_DATA_DIR (default ./sync-data) and
+// SYNC_SERVER_TOKEN (optional; when set, requests must send it as a bearer token) configure it.
+// Records are stored and served unencrypted, so by default only this machine can connect. To sync with
+// other devices set SYNC_HOST (e.g. 0.0.0.0) and a token: without one, anyone who can reach the port
+// and knows a ledger ID can read and add to that ledger.
+
+const PORT = Number(process.env.SYNC_PORT) || 8787;
+const HOST = process.env.SYNC_HOST || '127.0.0.1';
+const DATA_DIR = resolve(process.env.SYNC_DATA_DIR || 'sync-data');
+const TOKEN = process.env.SYNC_SERVER_TOKEN || '';
+
+const LEDGER_ID_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+const MAX_BODY_BYTES = 5_000_000;
+const MAX_PAGE = 1000;
+
+/**
+ * @typedef {object} Ledger
+ * @property {string} file
+ * @property {SyncChange[]} changes Index + 1 is the sequence number
+ * @property {Map<string, number>} seqById
+ */
+
+/** @type {Map<string, Ledger>} */
+const ledgers = new Map();
+
+/**
+ * @param {string} ledgerId
+ * @returns {Ledger}
+ */
+const openLedger = (ledgerId) => {
+    const open = ledgers.get(ledgerId);
+    if (open) return open;
+
+    const file = join(DATA_DIR, `${ledgerId}.jsonl`);
+    /** @type {SyncChange[]} */
+    const changes = [];
+    if (existsSync(file)) {
+        // A crash mid-append can leave a partial last line; everything before it is intact.
+        readFileSync(file, 'utf8').split('\n').filter(Boolean).forEach(line => {
+            try {
+                changes.push(JSON.parse(line));
+            } catch {
+                console.warn(`Skipped an unreadable line in ${file}`);
+            }
+        });
+    }
+    const ledger = { file, changes, seqById: new Map(changes.map(change => [change.id, change.seq])) };
+    ledgers.set(ledgerId, ledger);
+    return ledger;
+};
+
+/**
+ * @param {unknown} value
+ * @returns {value is SyncChange}
+ */
+const isChange = (value) => {
+    return !!value && typeof value.id === 'string' && typeof value.deviceId === 'string' && typeof value.collection === 'string'
+        && typeof value.recordId === 'string' && typeof value.clock === 'string' && typeof value.baseSeq === 'number'
+        && !!value.fields && typeof value.fields === 'object';
+};
+
+/**
+ * Appends changes to a ledger. A change already in the log (a retried push) keeps its original position.
+ * @param {Ledger} ledger
+ * @param {SyncChange[]} incoming
+ * @returns {number[]} The sequence number of each change, in the order given.
+ */
+const appendChanges = (ledger, incoming) => {
+    const lines = [];
+    const seqs = incoming.map(change => {
+        const existing = ledger.seqById.get(change.id);
+        if (existing) return existing;
+        const stored = { ...change, seq: ledger.changes.length + 1 };
+        ledger.changes.push(stored);
+        ledger.seqById.set(stored.id, stored.seq);
+        lines.push(JSON.stringify(stored) + '\n');
+        return stored.seq;
+    });
+    if (lines.length > 0) appendFileSync(ledger.file, lines.join(''));
+    return seqs;
+};
+
+// --- HTTP ---
+
+/**
+ * @param {import('node:http').ServerResponse} res
+ * @param {number} status
+ * @param {unknown} body
+ */
+const send = (res, status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+/**
+ * @param {import('node:http').IncomingMessage} req
+ * @returns {Promise<unknown>}
+ */
+const readBody = (req) => new Promise((resolveBody, reject) => {
+    let size = 0;
+    /** @type {Buffer[]} */
+    const chunks = [];
+    req.on('data', (chunk) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new Error('Request body is too large.'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        try {
+            resolveBody(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+        } catch {
+            reject(new Error('Request body is not valid JSON.'));
+        }
+    });
+    req.on('error', reject);
+});
+
+/**
+ * @param {import('node:http').IncomingMessage} req
+ * @param {import('node:http').ServerResponse} res
+ */
+const handle = async (req, res) => {
+    // The app is served from another origin (the Vite dev server or a static host).
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname === '/health') {
+        send(res, 200, { ok: true });
+        return;
+    }
+    if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+        send(res, 401, { error: 'Missing or wrong server token.' });
+        return;
+    }
+
+    const match = /^\/ledgers\/([^/]+)\/changes$/.exec(url.pathname);
+    if (!match) {
+        send(res, 404, { error: 'Not found.' });
+        return;
+    }
+    let ledgerId;
+    try {
+        ledgerId = decodeURIComponent(match[1]);
+    } catch {
+        ledgerId = '';
+    }
+    if (!LEDGER_ID_PATTERN.test(ledgerId)) {
+        send(res, 400, { error: 'Ledger IDs are 16-64 letters, digits, dashes or underscores.' });
+        return;
+    }
+    const ledger = openLedger(ledgerId);
+
+    if (req.method === 'GET') {
+        const since = Math.max(0, Number(url.searchParams.get('since')) || 0);
+        const limit = Math.min(MAX_PAGE, Math.max(1, Number(url.searchParams.get('limit')) || MAX_PAGE));
+        const changes = ledger.changes.slice(since, since + limit);
+        const cursor = since + changes.length;
+        send(res, 200, { changes, cursor, hasMore: cursor < ledger.changes.length });
+        return;
+    }
+
+    if (req.method === 'POST') {
+        let body;
+        try {
+            body = await readBody(req);
+        } catch (error) {
+            send(res, 400, { error: error.message });
+            return;
+        }
+        const changes = body && typeof body === 'object' && Array.isArray(body.changes) ? body.changes : null;
+        if (!changes || !changes.every(isChange)) {
+            send(res, 400, { error: 'Expected { changes: SyncChange[] }.' });
+            return;
+        }
+        send(res, 200, { seqs: appendChanges(ledger, changes) });
+        return;
+    }
+
+    send(res, 405, { error: 'Method not allowed.' });
+};
+
+mkdirSync(DATA_DIR, { recursive: true });
+createServer((req, res) => {
+    handle(req, res).catch(error => {
+        console.error(error);
+        if (!res.headersSent) send(res, 500, { error: 'Server error.' });
+    });
+}).listen(PORT, HOST, () => {
+    console.log(`Shilling Sense sync server listening on http://${HOST}:${PORT} (data in ${DATA_DIR})`);
+    if (!TOKEN && !['127.0.0.1', 'localhost', '::1'].includes(HOST)) {
+        console.warn('Warning: SYNC_SERVER_TOKEN is not set, so anyone who can reach this server and knows a ledger ID can read and change that ledger.');
+    }
+});
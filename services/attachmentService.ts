@@ -0,0 +1,68 @@
+import { Attachment } from '../types';
+import { createId } from './idService';
+import { renderFirstPdfPage } from './pdfTextService';
+
+// Receipts and documents kept with transactions: images and PDFs, read into data URLs so they can be
+// sealed like any other record when the vault is on, with a small JPEG thumbnail for lists.
+
+export const ATTACHMENT_ACCEPT = 'image/*,application/pdf';
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+const THUMBNAIL_SIZE = 160;
+
+export const isAttachableFile = (file: File) => file.type.startsWith('image/') || file.type === 'application/pdf';
+
+const readAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => typeof reader.result === 'string' ? resolve(reader.result) : reject(new Error('Failed to read the file.'));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load the image.'));
+    image.src = src;
+});
+
+const imageThumbnail = async (dataUrl: string): Promise<string> => {
+    const image = await loadImage(dataUrl);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.width * scale));
+    canvas.height = Math.max(1, Math.round(image.height * scale));
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+/**
+ * Reads a file into an attachment ready to save. A thumbnail that can't be drawn (e.g. a
+ * password-protected PDF) is left out rather than failing the attachment.
+ */
+export const createAttachment = async (file: File): Promise<Attachment> => {
+    if (!isAttachableFile(file)) throw new Error('Only images and PDFs can be attached.');
+    if (file.size > MAX_ATTACHMENT_BYTES) throw new Error(`"${file.name}" is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB.`);
+    const dataUrl = await readAsDataUrl(file);
+    let thumbnailUrl: string | undefined;
+    try {
+        thumbnailUrl = file.type === 'application/pdf'
+            ? (await renderFirstPdfPage(file, THUMBNAIL_SIZE)).toDataURL('image/jpeg', 0.7)
+            : await imageThumbnail(dataUrl);
+    } catch (error) {
+        console.warn(`No thumbnail for ${file.name}:`, error);
+    }
+    return { id: createId(), name: file.name, mimeType: file.type, size: file.size, dataUrl, thumbnailUrl, createdAt: new Date().toISOString() };
+};
+
+/**
+ * Opens an attachment in a new tab. Data URLs can't be opened directly, so it goes through a blob URL.
+ */
+export const openAttachment = async (attachment: Attachment) => {
+    const blob = await (await fetch(attachment.dataUrl)).blob();
+    const url = URL.createObjectURL(blob);
+    window.open(url, '_blank', 'noopener');
+    // Long enough for the new tab to load it.
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+};
+
+export const formatFileSize = (bytes: number) => bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
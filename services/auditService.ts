@@ -0,0 +1,104 @@
+import { ChangeSource, Transaction, TransactionAuditEntry } from '../types';
+import { createId } from './idService';
+
+// Field-level change history for transactions, so it's possible to see why a transaction ended up
+// the way it is and put back a single field. Entries are written by the audited setter in
+// FinancialContext; whatever is changing transactions says what it is with `withChangeSource`, and
+// anything that doesn't is taken to be the user.
+
+export const CREATED_FIELD = '$created';
+export const DELETED_FIELD = '$deleted';
+
+export interface ChangeContext {
+    source: ChangeSource;
+    note?: string;
+    // What picked the category of each new transaction, by id, when it wasn't `source` itself.
+    categorySources?: Map<string, ChangeSource>;
+}
+
+const USER_CHANGE: ChangeContext = { source: 'user' };
+let currentContext: ChangeContext = USER_CHANGE;
+
+/**
+ * Runs `fn` with its transaction changes attributed to `context`. Setters are called synchronously,
+ * so this covers everything `fn` sets before it returns.
+ */
+export const withChangeSource = <T>(context: ChangeContext, fn: () => T): T => {
+    const previous = currentContext;
+    currentContext = context;
+    try {
+        return fn();
+    } finally {
+        currentContext = previous;
+    }
+};
+
+export const currentChangeContext = () => currentContext;
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * History entries for the difference between two versions of the transaction list.
+ */
+export const diffForAudit = (before: Transaction[], after: Transaction[], context = currentContext): TransactionAuditEntry[] => {
+    if (before === after) return [];
+    const at = new Date().toISOString();
+    const beforeById = new Map(before.map(tx => [tx.id, tx]));
+    const afterIds = new Set<string>();
+    const entries: TransactionAuditEntry[] = [];
+    const entry = (transactionId: string, field: string, from: unknown, to: unknown, source = context.source): TransactionAuditEntry => (
+        { id: createId(), transactionId, field, from: from ?? null, to: to ?? null, source, note: context.note, at }
+    );
+
+    after.forEach(tx => {
+        afterIds.add(tx.id);
+        const previous = beforeById.get(tx.id);
+        if (previous === tx) return;
+        if (!previous) {
+            entries.push(entry(tx.id, CREATED_FIELD, null, null));
+            entries.push(entry(tx.id, 'category', null, tx.category, context.categorySources?.get(tx.id) ?? context.source));
+            return;
+        }
+        const oldFields = previous as unknown as Record<string, unknown>;
+        const newFields = tx as unknown as Record<string, unknown>;
+        new Set([...Object.keys(oldFields), ...Object.keys(newFields)]).forEach(field => {
+            if (field !== 'id' && !sameValue(oldFields[field], newFields[field])) entries.push(entry(tx.id, field, oldFields[field], newFields[field]));
+        });
+    });
+    before.forEach(tx => {
+        if (!afterIds.has(tx.id)) entries.push(entry(tx.id, DELETED_FIELD, null, null));
+    });
+    return entries;
+};
+
+// --- DISPLAY ---
+
+export const CHANGE_SOURCE_LABELS: Record<ChangeSource, string> = {
+    user: 'You',
+    heuristic: 'Auto-rule',
+    ai: 'AI',
+    import: 'Import',
+    sync: 'Other device',
+    undo: 'Undo/redo',
+    restore: 'Backup restore',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+    accountId: 'Account',
+    isTransfer: 'Transfer',
+    importBatchId: 'Import batch',
+    externalId: 'Receipt number',
+    logoUrl: 'Logo',
+    attachmentIds: 'Attachments',
+};
+
+export const auditFieldLabel = (field: string) => FIELD_LABELS[field] ?? field.charAt(0).toUpperCase() + field.slice(1);
+
+/**
+ * Whether putting `entry.from` back makes sense: the field had a value before and still holds the one this change set.
+ */
+export const canRevertEntry = (entry: TransactionAuditEntry, current: Transaction | undefined): boolean => {
+    if (!current || entry.field === CREATED_FIELD || entry.field === DELETED_FIELD || entry.field === 'id') return false;
+    const value = (current as unknown as Record<string, unknown>)[entry.field] ?? null;
+    return sameValue(value, entry.to) && !sameValue(entry.from, entry.to);
+};
@@ -0,0 +1,243 @@
+import { Attachment, UserProfile } from '../types';
+import { EnrichedData } from './cachingService';
+import { CurrentData, PersistedData, SCHEMA_VERSION, migratePersistedData } from './schemaMigrationService';
+import { PassphraseSealedValue, openWithPassphrase, sealWithPassphrase } from './vaultService';
+import { loadAttachments, openDatabase } from './storageService';
+
+// One-file backups of everything the app stores, for moving between browsers or recovering from a
+// cleared cache. The file records the schema version of its data, so a backup from an older release
+// is upgraded with the same migrations as stored data before it is restored. The files attached to
+// transactions go in the same file, so a restored receipt opens on the new device too.
+
+const BACKUP_FORMAT = 'shilling-sense-backup';
+const BACKUP_VERSION = 1;
+
+export interface BackupData extends CurrentData {
+    merchantCache: Record<string, EnrichedData>;
+    merchantDictionary: Record<string, string>;
+}
+
+// What the file holds. Backups made before attachments were included have none.
+type BackupPayload = BackupData & { attachments?: Attachment[] };
+
+export interface BackupFile {
+    format: typeof BACKUP_FORMAT;
+    backupVersion: number;
+    schemaVersion: number;
+    createdAt: string;
+    data?: BackupPayload;
+    encrypted?: PassphraseSealedValue; // Set instead of `data` when the backup has a passphrase
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+// What a restore would do to one collection.
+export interface RestoreChange {
+    label: string;
+    added: number;
+    updated: number;
+    removed: number;
+    unchanged: number;
+}
+
+export interface ReadBackupResult {
+    data: BackupData;
+    attachments: Attachment[];
+    createdAt: string;
+    skipped: number; // Records and merchant entries that no longer fit the data format
+}
+
+// Without IndexedDB nothing can have been attached, so there is nothing to add.
+const loadBackupAttachments = async (data: BackupData): Promise<Attachment[]> => {
+    try {
+        await openDatabase();
+    } catch {
+        return [];
+    }
+    return loadAttachments(data.transactions.flatMap(tx => tx.attachmentIds || []));
+};
+
+// A backup file can be edited by hand, so nothing read from it is trusted until it has been checked.
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isAttachment = (value: unknown): value is Attachment => {
+    return isObject(value) && typeof value.id === 'string' && typeof value.dataUrl === 'string';
+};
+
+const isEnrichedData = (value: unknown): value is EnrichedData => {
+    return isObject(value) && typeof value.merchant === 'string' && typeof value.category === 'string';
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const listOf = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+// The entries of a map whose values fit; `dropped` counts the rest.
+const readMap = <V>(value: unknown, isValue: (entry: unknown) => entry is V): { map: Record<string, V>; dropped: number } => {
+    const entries = isObject(value) ? Object.entries(value) : [];
+    const kept = entries.filter((entry): entry is [string, V] => isValue(entry[1]));
+    return { map: Object.fromEntries(kept), dropped: entries.length - kept.length };
+};
+
+/**
+ * Builds the backup file contents, with the files attached to the transactions, sealed with `passphrase` when one is given.
+ */
+export const createBackupFile = async (data: BackupData, passphrase?: string): Promise<BackupFile> => {
+    const file: BackupFile = { format: BACKUP_FORMAT, backupVersion: BACKUP_VERSION, schemaVersion: SCHEMA_VERSION, createdAt: new Date().toISOString() };
+    const payload: BackupPayload = { ...data, attachments: await loadBackupAttachments(data) };
+    if (passphrase) file.encrypted = await sealWithPassphrase(passphrase, payload);
+    else file.data = payload;
+    return file;
+};
+
+export const backupFileName = (date = new Date()) => `shilling-sense-backup-${date.toISOString().split('T')[0]}.json`;
+
+/**
+ * Checks that `text` is a backup file this version can read.
+ * @returns The parsed file; use `isBackupEncrypted` to tell whether it needs a passphrase.
+ */
+export const parseBackupFile = (text: string): BackupFile => {
+    let file: BackupFile;
+    try {
+        file = JSON.parse(text);
+    } catch {
+        throw new Error('This file is not a Shilling Sense backup.');
+    }
+    if (!file || file.format !== BACKUP_FORMAT || (!file.data && !file.encrypted)) {
+        throw new Error('This file is not a Shilling Sense backup.');
+    }
+    if (file.backupVersion > BACKUP_VERSION || file.schemaVersion > SCHEMA_VERSION) {
+        throw new Error('This backup was made by a newer version of Shilling Sense. Update the app to restore it.');
+    }
+    return file;
+};
+
+export const isBackupEncrypted = (file: BackupFile) => !!file.encrypted;
+
+/**
+ * Opens a parsed backup and brings its data up to the current schema.
+ */
+export const readBackupFile = async (file: BackupFile, passphrase?: string): Promise<ReadBackupResult> => {
+    let raw: unknown = file.data;
+    if (file.encrypted) {
+        if (!passphrase) throw new Error('This backup needs its passphrase.');
+        raw = await openWithPassphrase(passphrase, file.encrypted);
+    }
+    if (!isObject(raw)) throw new Error('This file is not a valid Shilling Sense backup.');
+
+    const persisted: PersistedData = {
+        transactions: listOf(raw.transactions),
+        accounts: listOf(raw.accounts),
+        budgets: listOf(raw.budgets),
+        debts: listOf(raw.debts),
+        chamas: listOf(raw.chamas),
+        loyaltyCards: listOf(raw.loyaltyCards),
+        categories: listOf(raw.categories),
+        categorizationExamples: listOf(raw.categorizationExamples),
+        importProfiles: listOf(raw.importProfiles),
+        importBatches: listOf(raw.importBatches),
+        dismissedDuplicates: listOf(raw.dismissedDuplicates),
+        userProfile: raw.userProfile ?? null,
+    };
+    // Even a current backup is validated, since the file could have been edited by hand.
+    const { data, quarantined } = migratePersistedData(persisted, file.schemaVersion || 1);
+    const merchantCache = readMap(raw.merchantCache, isEnrichedData);
+    const merchantDictionary = readMap(raw.merchantDictionary, isString);
+    return {
+        data: { ...data, merchantCache: merchantCache.map, merchantDictionary: merchantDictionary.map },
+        attachments: listOf(raw.attachments).filter(isAttachment),
+        createdAt: file.createdAt,
+        skipped: quarantined.length + merchantCache.dropped + merchantDictionary.dropped,
+    };
+};
+
+// --- RESTORE ---
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Replace takes the backup as is. Merge keeps everything here, adds what only the backup has, and
+// takes the backup's copy where both have a record with the same key.
+const reconcile = <T>(label: string, current: T[], incoming: T[], keyOf: (item: T) => string, mode: RestoreMode): { items: T[]; change: RestoreChange } => {
+    const currentByKey = new Map(current.map(item => [keyOf(item), item]));
+    const incomingByKey = new Map(incoming.map(item => [keyOf(item), item]));
+    const change: RestoreChange = { label, added: 0, updated: 0, removed: 0, unchanged: 0 };
+
+    incomingByKey.forEach((item, key) => {
+        if (!currentByKey.has(key)) change.added++;
+        else if (sameValue(currentByKey.get(key), item)) change.unchanged++;
+        else change.updated++;
+    });
+
+    if (mode === 'replace') {
+        currentByKey.forEach((_, key) => { if (!incomingByKey.has(key)) change.removed++; });
+        return { items: incoming, change };
+    }
+
+    const items = current.map(item => incomingByKey.get(keyOf(item)) ?? item);
+    incoming.forEach(item => { if (!currentByKey.has(keyOf(item))) items.push(item); });
+    change.unchanged += current.length - (change.updated + change.unchanged);
+    return { items, change };
+};
+
+const byId = <T extends { id: string }>(item: T) => item.id;
+const byValue = <T>(item: T) => JSON.stringify(item);
+const byEntryKey = (entry: [string, unknown]) => entry[0];
+
+const reconcileEntries = <V>(label: string, current: Record<string, V>, incoming: Record<string, V>, mode: RestoreMode) => {
+    const { items, change } = reconcile<[string, V]>(label, Object.entries(current), Object.entries(incoming), byEntryKey, mode);
+    return { items: Object.fromEntries(items) as Record<string, V>, change };
+};
+
+const reconcileProfile = (current: UserProfile | null, incoming: UserProfile | null, mode: RestoreMode) => {
+    // Merge only fills in a missing profile; either way a backup without one never clears it.
+    const profile = mode === 'replace' ? incoming ?? current : current ?? incoming;
+    const change: RestoreChange = { label: 'Profile', added: 0, updated: 0, removed: 0, unchanged: 0 };
+    if (!current && profile) change.added = 1;
+    else if (current && !sameValue(current, profile)) change.updated = 1;
+    else if (current) change.unchanged = 1;
+    return { profile, change };
+};
+
+/**
+ * Works out the data after restoring `incoming` over `current`, and what changes per collection.
+ */
+export const planRestore = (current: BackupData, incoming: BackupData, mode: RestoreMode): { data: BackupData; changes: RestoreChange[] } => {
+    const accounts = reconcile('Accounts', current.accounts, incoming.accounts, byId, mode);
+    const transactions = reconcile('Transactions', current.transactions, incoming.transactions, byId, mode);
+    const categories = reconcile('Categories', current.categories, incoming.categories, category => category, mode);
+    const budgets = reconcile('Budgets', current.budgets, incoming.budgets, byId, mode);
+    const debts = reconcile('Debts', current.debts, incoming.debts, byId, mode);
+    const chamas = reconcile('Chamas', current.chamas, incoming.chamas, byId, mode);
+    const loyaltyCards = reconcile('Loyalty cards', current.loyaltyCards, incoming.loyaltyCards, byId, mode);
+    const examples = reconcile('Categorisation examples', current.categorizationExamples, incoming.categorizationExamples, byValue, mode);
+    const importProfiles = reconcile('Import profiles', current.importProfiles, incoming.importProfiles, byId, mode);
+    const importBatches = reconcile('Import history', current.importBatches, incoming.importBatches, byId, mode);
+    const dismissedDuplicates = reconcile('Dismissed duplicates', current.dismissedDuplicates, incoming.dismissedDuplicates, key => key, mode);
+    const merchantCache = reconcileEntries('Merchant cache', current.merchantCache, incoming.merchantCache, mode);
+    const merchantDictionary = reconcileEntries('Merchant names', current.merchantDictionary, incoming.merchantDictionary, mode);
+    const profile = reconcileProfile(current.userProfile, incoming.userProfile, mode);
+
+    return {
+        data: {
+            accounts: accounts.items,
+            transactions: transactions.items,
+            categories: categories.items,
+            budgets: budgets.items,
+            debts: debts.items,
+            chamas: chamas.items,
+            loyaltyCards: loyaltyCards.items,
+            categorizationExamples: examples.items,
+            importProfiles: importProfiles.items,
+            importBatches: importBatches.items,
+            dismissedDuplicates: dismissedDuplicates.items,
+            userProfile: profile.profile,
+            merchantCache: merchantCache.items,
+            merchantDictionary: merchantDictionary.items,
+        },
+        changes: [
+            profile.change, accounts.change, transactions.change, categories.change, budgets.change, debts.change, chamas.change,
+            loyaltyCards.change, examples.change, importProfiles.change, importBatches.change, dismissedDuplicates.change, merchantCache.change, merchantDictionary.change,
+        ],
+    };
+};
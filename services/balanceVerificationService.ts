@@ -0,0 +1,114 @@
+import { ParsedTransaction, Transaction, TransactionType } from '../types';
+
+// Running-balance checks for statement imports.
+// When a statement prints the balance after every row, each row's amount must explain the change
+// from its neighbour. Rows that don't are either misread (wrong sign) or sit next to rows we lost.
+
+export type BalanceIssueKind = 'sign_flip' | 'gap' | 'missing_balance';
+
+export interface BalanceIssue {
+    // Index into the list that was checked (statement order).
+    index: number;
+    kind: BalanceIssueKind;
+    // For gaps: how much money moved that no imported row accounts for (positive = money in).
+    difference?: number;
+}
+
+export interface BalanceVerification {
+    order: 'oldest_first' | 'newest_first';
+    checkedCount: number;
+    issues: BalanceIssue[];
+    // Balance before the earliest row and after the latest row, as printed on the statement.
+    openingBalance: number | null;
+    closingBalance: number | null;
+    // Earliest readable date on the statement.
+    startDate: string | null;
+}
+
+// Statements print to the cent; anything under this is rounding.
+const TOLERANCE = 0.01;
+
+const signedAmount = (tx: { amount: number; type: TransactionType }) => tx.type === TransactionType.Income ? tx.amount : -tx.amount;
+
+const isClose = (a: number, b: number) => Math.abs(a - b) < TOLERANCE;
+
+const hasBalance = (tx: ParsedTransaction) => typeof tx.balance === 'number' && !isNaN(tx.balance);
+
+// Number of neighbouring pairs explained when rows are read in the given direction.
+const countExplained = (chronological: ParsedTransaction[]) => {
+    let explained = 0;
+    for (let i = 1; i < chronological.length; i++) {
+        const prev = chronological[i - 1];
+        const current = chronological[i];
+        if (hasBalance(prev) && hasBalance(current) && isClose(prev.balance! + signedAmount(current), current.balance!)) {
+            explained++;
+        }
+    }
+    return explained;
+};
+
+/**
+ * Checks a statement's running balance row by row.
+ * The statement's sort order is inferred from which direction explains more rows, falling back to the dates.
+ * @returns null when no row carries a balance, so there is nothing to check.
+ */
+export const verifyRunningBalances = (rows: ParsedTransaction[]): BalanceVerification | null => {
+    const withBalance = rows.filter(hasBalance);
+    if (withBalance.length === 0) return null;
+
+    const dates = rows.map(r => r.date).filter(Boolean);
+    const ascendingScore = countExplained(rows);
+    const descendingScore = countExplained([...rows].reverse());
+    const isNewestFirst = descendingScore > ascendingScore
+        || (descendingScore === ascendingScore && dates.length > 1 && dates[0] > dates[dates.length - 1]);
+
+    // Walk oldest to newest, keeping the original indexes for the review list.
+    const indexes = rows.map((_, i) => i);
+    const chronological = isNewestFirst ? indexes.reverse() : indexes;
+    const issues: BalanceIssue[] = [];
+    let checkedCount = 0;
+    let previous: ParsedTransaction | null = null;
+
+    chronological.forEach(index => {
+        const row = rows[index];
+        if (!hasBalance(row)) {
+            issues.push({ index, kind: 'missing_balance' });
+            return;
+        }
+        if (previous) {
+            const change = row.balance! - previous.balance!;
+            const amount = signedAmount(row);
+            checkedCount++;
+            if (isClose(change, -amount)) {
+                issues.push({ index, kind: 'sign_flip' });
+            } else if (!isClose(change, amount)) {
+                issues.push({ index, kind: 'gap', difference: Math.round((change - amount) * 100) / 100 });
+            }
+        }
+        previous = row;
+    });
+
+    const first = rows[chronological[0]];
+    const last = rows[chronological[chronological.length - 1]];
+    const sortedDates = [...dates].sort();
+
+    return {
+        order: isNewestFirst ? 'newest_first' : 'oldest_first',
+        checkedCount,
+        issues,
+        openingBalance: hasBalance(first) ? first.balance! - signedAmount(first) : null,
+        closingBalance: hasBalance(last) ? last.balance! : null,
+        startDate: sortedDates[0] || null,
+    };
+};
+
+/**
+ * The account starting balance that makes the app's computed balance agree with the statement's
+ * opening balance, given the transactions already recorded for the account before the statement starts.
+ */
+export const suggestInitialBalance = (openingBalance: number, startDate: string, accountId: string, existing: Transaction[]): number => {
+    const earlierNet = existing
+        .filter(t => t.accountId === accountId && t.date < startDate)
+        .reduce((sum, t) => sum + signedAmount(t), 0);
+    return Math.round((openingBalance - earlierNet) * 100) / 100;
+};
@@ -0,0 +1,118 @@
+import { Account, Book, BookTotals, Debt, Transaction, TransactionType } from '../types';
+import { createId } from './idService';
+import { feeTotal } from './feeLinkingService';
+
+// One install can hold several books. Each book has its own storage namespace: its localStorage keys
+// are prefixed and its records live in their own IndexedDB database, so settings, categories, budgets,
+// the vault passphrase, undo history and sync ledger are all separate. The first book keeps the
+// unprefixed keys it has always used. Which book is open is fixed at page load; switching reloads.
+// The book list itself, and learned merchant data, are shared by all books.
+
+const BOOKS_KEY = 'books';
+const ACTIVE_BOOK_KEY = 'activeBook';
+const BOOK_KEY_PREFIX = 'book:';
+const DATABASE_NAME = 'shilling-sense';
+
+export const DEFAULT_BOOK_ID = 'default';
+
+export const getBooks = (): Book[] => {
+    try {
+        const stored = window.localStorage.getItem(BOOKS_KEY);
+        const books: Book[] = stored ? JSON.parse(stored) : [];
+        if (books.some(book => book.id === DEFAULT_BOOK_ID)) return books;
+        // The first book exists implicitly until it is renamed.
+        return [{ id: DEFAULT_BOOK_ID, name: 'Personal', createdAt: new Date(0).toISOString() }, ...books];
+    } catch (error) {
+        console.error(error);
+        return [{ id: DEFAULT_BOOK_ID, name: 'Personal', createdAt: new Date(0).toISOString() }];
+    }
+};
+
+const saveBooks = (books: Book[]) => window.localStorage.setItem(BOOKS_KEY, JSON.stringify(books));
+
+// This tab's choice survives a reload of the tab; a new tab opens the book used last anywhere.
+const readActiveBookId = (): string => {
+    try {
+        const id = window.sessionStorage.getItem(ACTIVE_BOOK_KEY) ?? window.localStorage.getItem(ACTIVE_BOOK_KEY);
+        return id && getBooks().some(book => book.id === id) ? id : DEFAULT_BOOK_ID;
+    } catch {
+        return DEFAULT_BOOK_ID;
+    }
+};
+
+const activeBookId = typeof window === 'undefined' ? DEFAULT_BOOK_ID : readActiveBookId();
+
+export const getActiveBookId = () => activeBookId;
+
+export const getActiveBook = (): Book => getBooks().find(book => book.id === activeBookId)!;
+
+/**
+ * The localStorage key a book keeps a setting under.
+ */
+export const storageKey = (name: string, bookId = activeBookId) => bookId === DEFAULT_BOOK_ID ? name : `${BOOK_KEY_PREFIX}${bookId}:${name}`;
+
+/**
+ * The setting a localStorage key holds for a book, or null when the key belongs to another book.
+ */
+export const settingNameForKey = (key: string, bookId = activeBookId): string | null => {
+    if (bookId === DEFAULT_BOOK_ID) return key.startsWith(BOOK_KEY_PREFIX) ? null : key;
+    const prefix = `${BOOK_KEY_PREFIX}${bookId}:`;
+    return key.startsWith(prefix) ? key.slice(prefix.length) : null;
+};
+
+export const databaseName = (bookId = activeBookId) => bookId === DEFAULT_BOOK_ID ? DATABASE_NAME : `${DATABASE_NAME}:${bookId}`;
+
+export const createBook = (name: string): Book => {
+    const book: Book = { id: createId(), name: name.trim(), createdAt: new Date().toISOString() };
+    saveBooks([...getBooks(), book]);
+    return book;
+};
+
+export const renameBook = (id: string, name: string) => {
+    saveBooks(getBooks().map(book => book.id === id ? { ...book, name: name.trim() } : book));
+};
+
+/**
+ * Opens another book. The page reloads, so nothing from the current book stays in memory.
+ */
+export const switchBook = (id: string) => {
+    window.sessionStorage.setItem(ACTIVE_BOOK_KEY, id);
+    window.localStorage.setItem(ACTIVE_BOOK_KEY, id);
+    window.location.reload();
+};
+
+/**
+ * Deletes a book and everything stored in it. The open book and the first book can't be deleted.
+ */
+export const deleteBook = async (id: string): Promise<void> => {
+    if (id === activeBookId || id === DEFAULT_BOOK_ID) throw new Error("The open book and the first book can't be deleted.");
+    Object.keys(window.localStorage).filter(key => settingNameForKey(key, id) !== null).forEach(key => window.localStorage.removeItem(key));
+    if (typeof indexedDB !== 'undefined') {
+        await new Promise<void>((resolve, reject) => {
+            const request = indexedDB.deleteDatabase(databaseName(id));
+            request.onsuccess = () => resolve();
+            request.onerror = () => reject(request.error);
+            // Another tab has the book open; the delete completes once it closes.
+            request.onblocked = () => resolve();
+        });
+    }
+    saveBooks(getBooks().filter(book => book.id !== id));
+};
+
+// --- TOTALS ---
+
+/**
+ * Account balances and debts for a book's net worth. Balances are worked out the same way as the dashboard's.
+ */
+export const calculateBookTotals = (accounts: Account[], transactions: Transaction[], debts: Debt[]): BookTotals => {
+    const balances = new Map(accounts.map(account => [account.id, account.initialBalance]));
+    transactions.forEach(tx => {
+        const balance = balances.get(tx.accountId);
+        if (balance === undefined) return;
+        balances.set(tx.accountId, balance + (tx.type === TransactionType.Income ? tx.amount : -tx.amount) - feeTotal(tx));
+    });
+    const balance = Array.from(balances.values()).reduce((sum, value) => sum + value, 0);
+    const owedToMe = debts.filter(debt => debt.type === 'owed_to_me').reduce((sum, debt) => sum + debt.amount, 0);
+    const owedByMe = debts.filter(debt => debt.type === 'owed_by_me').reduce((sum, debt) => sum + debt.amount, 0);
+    return { balance, owedToMe, owedByMe, netWorth: balance + owedToMe - owedByMe };
+};
@@ -65,3 +65,19 @@ export const setCachedEnrichment = (key: string, data: EnrichedData) => {
     // Persist the updated cache to localStorage.
     persistCache();
 };
+
+/**
+ * Every cached entry, keyed as stored. Used when exporting a backup.
+ */
+export const getAllCachedEnrichments = (): Record<string, EnrichedData> => {
+    return Object.fromEntries(getCache());
+};
+
+/**
+ * Replaces the whole cache, e.g. when restoring a backup.
+ * @param entries The cached data keyed by its stable identifier.
+ */
+export const replaceCachedEnrichments = (entries: Record<string, EnrichedData>) => {
+    memoryCache = new Map(Object.entries(entries));
+    persistCache();
+};
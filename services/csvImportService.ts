@@ -0,0 +1,208 @@
+import { ImportColumn, ImportProfile, ParsedTransaction, TransactionType } from '../types';
+
+// On-device CSV reading for statement imports.
+// A column mapping (optionally saved as an ImportProfile) turns any bank's export into ParsedTransactions
+// without an AI call. Dates are kept raw here; the import modal resolves them with dateParsingService.
+
+export type ColumnMapping = Partial<Record<ImportColumn, number>>;
+
+export interface TableReadOptions {
+    delimiter: string;
+    skipHeaderRows: number;
+    skipFooterRows: number;
+}
+
+export interface DelimitedTable {
+    headers: string[];
+    rows: string[][];
+}
+
+export const DELIMITER_LABELS: Record<string, string> = {
+    ',': 'Comma (,)',
+    ';': 'Semicolon (;)',
+    '\t': 'Tab',
+    '|': 'Pipe (|)',
+};
+
+export const IMPORT_COLUMN_LABELS: Record<ImportColumn, string> = {
+    date: 'Date',
+    description: 'Description',
+    debit: 'Debit (money out)',
+    credit: 'Credit (money in)',
+    amount: 'Signed amount',
+    balance: 'Balance',
+    reference: 'Reference',
+};
+
+const splitLines = (text: string) => text.split(/\r?\n/).filter(line => line.trim() !== '');
+
+/**
+ * Splits one delimited line, honouring double-quoted cells and "" escapes.
+ */
+export const splitDelimitedLine = (line: string, delimiter: string): string[] => {
+    const cells: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"') {
+            if (inQuotes && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else {
+                inQuotes = !inQuotes;
+            }
+        } else if (char === delimiter && !inQuotes) {
+            cells.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    cells.push(current.trim());
+    return cells;
+};
+
+/**
+ * Picks the delimiter that splits the first few lines into the same, largest number of cells.
+ */
+export const detectDelimiter = (text: string): string => {
+    const sample = splitLines(text).slice(0, 10);
+    let best = ',';
+    let bestScore = 0;
+
+    Object.keys(DELIMITER_LABELS).forEach(delimiter => {
+        const counts = sample.map(line => splitDelimitedLine(line, delimiter).length);
+        const columns = Math.max(...counts, 1);
+        if (columns < 2) return;
+        // Reward delimiters whose column count is consistent across lines.
+        const consistent = counts.filter(c => c === columns).length;
+        const score = consistent * columns;
+        if (score > bestScore) {
+            bestScore = score;
+            best = delimiter;
+        }
+    });
+    return best;
+};
+
+export const readDelimitedTable = (text: string, options: TableReadOptions): DelimitedTable => {
+    const lines = splitLines(text);
+    const body = lines.slice(options.skipHeaderRows, lines.length - options.skipFooterRows);
+    if (body.length === 0) return { headers: [], rows: [] };
+
+    const [headerLine, ...rowLines] = body;
+    return {
+        headers: splitDelimitedLine(headerLine, options.delimiter),
+        rows: rowLines.map(line => splitDelimitedLine(line, options.delimiter)),
+    };
+};
+
+/**
+ * Normalised header row, used to recognise a bank's export the next time it is imported.
+ */
+export const headerFingerprint = (headers: string[]): string => {
+    return headers.map(h => h.toLowerCase().replace(/[^a-z0-9]/g, '')).join('|');
+};
+
+/**
+ * Best-effort mapping from header names, used to pre-fill the mapping step.
+ */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+    const normalised = headers.map(h => h.toLowerCase().trim());
+    const find = (predicate: (h: string) => boolean) => {
+        const index = normalised.findIndex(predicate);
+        return index === -1 ? undefined : index;
+    };
+
+    return {
+        date: find(h => h.includes('date') || h.includes('completion time')),
+        description: find(h => h.includes('description') || h.includes('details') || h.includes('narration') || h.includes('particulars')),
+        debit: find(h => h.includes('debit') || h.includes('withdrawal') || h.includes('withdrawn') || h.includes('money out')),
+        credit: find(h => h.includes('credit') || h.includes('deposit') || h.includes('paid in') || h.includes('money in')),
+        amount: find(h => h.startsWith('amount') || (h.includes('value') && !h.includes('date'))),
+        balance: find(h => h.includes('balance')),
+        reference: find(h => h.includes('reference') || h.includes('receipt') || h === 'ref' || h.includes('ref no')),
+    };
+};
+
+export const isMappingComplete = (mapping: ColumnMapping): boolean => {
+    const hasAmount = mapping.amount !== undefined || mapping.debit !== undefined || mapping.credit !== undefined;
+    return mapping.date !== undefined && mapping.description !== undefined && hasAmount;
+};
+
+/**
+ * Parses statement amounts like "1,150.00", "KES 200", "(500.00)" or "-".
+ * @returns The signed number, or null for blank cells.
+ */
+export const parseAmountCell = (raw: string | undefined): number | null => {
+    if (!raw) return null;
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed === '-') return null;
+    const isBracketed = /^\(.*\)$/.test(trimmed);
+    const value = parseFloat(trimmed.replace(/[^0-9.-]+/g, ''));
+    if (isNaN(value)) return null;
+    return isBracketed ? -Math.abs(value) : value;
+};
+
+/**
+ * Turns mapped rows into ParsedTransactions. Rows without a description or amount are dropped.
+ */
+export const mapRowsToTransactions = (rows: string[][], mapping: ColumnMapping): ParsedTransaction[] => {
+    const cell = (row: string[], column: ImportColumn) => {
+        const index = mapping[column];
+        return index === undefined ? undefined : row[index];
+    };
+
+    const results: ParsedTransaction[] = [];
+    rows.forEach(row => {
+        const description = cell(row, 'description')?.trim();
+        let amount = 0;
+        let type = TransactionType.Expense;
+
+        const debitVal = Math.abs(parseAmountCell(cell(row, 'debit')) || 0);
+        const creditVal = Math.abs(parseAmountCell(cell(row, 'credit')) || 0);
+        if (creditVal > 0) {
+            amount = creditVal;
+            type = TransactionType.Income;
+        } else if (debitVal > 0) {
+            amount = debitVal;
+        } else {
+            const signed = parseAmountCell(cell(row, 'amount'));
+            if (signed !== null) {
+                amount = Math.abs(signed);
+                type = signed < 0 ? TransactionType.Expense : TransactionType.Income;
+            }
+        }
+
+        if (!description || amount <= 0) return;
+
+        const balance = parseAmountCell(cell(row, 'balance'));
+        const reference = cell(row, 'reference')?.trim();
+        results.push({
+            date: '',
+            rawDate: cell(row, 'date') || '',
+            description,
+            amount,
+            type,
+            merchant: description,
+            category: undefined,
+            balance: balance === null ? undefined : balance,
+            reference: reference || undefined,
+        });
+    });
+    return results;
+};
+
+/**
+ * Finds a saved profile whose header fingerprint matches this file.
+ * Profiles linked to the chosen account are preferred when several banks share a layout.
+ */
+export const findMatchingProfile = (text: string, profiles: ImportProfile[], accountId: string): ImportProfile | null => {
+    const matches = profiles.filter(profile => {
+        const { headers } = readDelimitedTable(text, profile);
+        return headers.length > 0 && headerFingerprint(headers) === profile.headerFingerprint;
+    });
+    return matches.find(p => p.accountId === accountId) || matches[0] || null;
+};
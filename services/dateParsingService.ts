@@ -0,0 +1,130 @@
+// Date parsing for statement imports.
+// Bank exports disagree on date layout, so we look at the whole column before deciding
+// how to read a single cell. Never fall back to "today" here: callers flag rows we can't read.
+import { DateFormat } from '../types';
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+    'DD/MM/YYYY': 'Day first (19/11/2025)',
+    'MM/DD/YYYY': 'Month first (11/19/2025)',
+    'YYYY-MM-DD': 'ISO (2025-11-19)',
+    'DD-MMM-YY': 'Short month (19-Nov-25)',
+    'MPESA_COMPLETION_TIME': 'M-PESA Completion Time (2025-11-19 21:38:17)',
+};
+
+export interface DateFormatDetection {
+    format: DateFormat | null;
+    // True when more than one format reads every sample (e.g. only days <= 12 seen).
+    isAmbiguous: boolean;
+    parsedCount: number;
+    sampleCount: number;
+}
+
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Full names and abbreviations of at least three letters ("Jun", "Sept", "June"), as 1-12; null otherwise.
+const monthFromName = (name: string): number | null => {
+    const lower = name.toLowerCase();
+    if (lower.length < 3) return null;
+    const index = MONTH_NAMES.findIndex(month => month.startsWith(lower));
+    return index === -1 ? null : index + 1;
+};
+
+// Kenyan banks almost always print day-first, so it wins ties.
+const FORMAT_PRIORITY: DateFormat[] = ['MPESA_COMPLETION_TIME', 'YYYY-MM-DD', 'DD-MMM-YY', 'DD/MM/YYYY', 'MM/DD/YYYY'];
+
+const NUMERIC_DATE = /^(\d{1,2})[\/.\-](\d{1,2})[\/.\-](\d{2}|\d{4})(?:[ T,]+\d{1,2}:\d{2}(?::\d{2})?(?:\s*[AP]M)?)?$/i;
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})$/;
+const COMPLETION_TIME = /^(\d{4})-(\d{1,2})-(\d{1,2})[ T](\d{1,2}):(\d{2})(?::(\d{2}))?$/;
+const MONTH_NAME_DATE = /^(\d{1,2})[\s\-\/]([A-Za-z]+)[\s\-\/,]+(\d{2}|\d{4})$/;
+
+const expandYear = (year: string): number => {
+    const value = parseInt(year, 10);
+    return year.length === 2 ? 2000 + value : value;
+};
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    // Round-trip through UTC to reject impossible dates like 31/02.
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date.toISOString().split('T')[0];
+};
+
+const cleanCell = (raw: string) => raw.trim().replace(/^"|"$/g, '').trim();
+
+/**
+ * Reads a single cell using a known format.
+ * @returns The date as YYYY-MM-DD, or null if the cell does not fit the format.
+ */
+export const parseDateWithFormat = (raw: string, format: DateFormat): string | null => {
+    const value = cleanCell(raw || '');
+    if (!value) return null;
+
+    switch (format) {
+        case 'DD/MM/YYYY':
+        case 'MM/DD/YYYY': {
+            const match = value.match(NUMERIC_DATE);
+            if (!match) return null;
+            const [first, second] = [parseInt(match[1], 10), parseInt(match[2], 10)];
+            const year = expandYear(match[3]);
+            return format === 'DD/MM/YYYY' ? toIsoDate(year, second, first) : toIsoDate(year, first, second);
+        }
+        case 'YYYY-MM-DD': {
+            const match = value.match(ISO_DATE);
+            if (!match) return null;
+            return toIsoDate(parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10));
+        }
+        case 'DD-MMM-YY': {
+            const match = value.match(MONTH_NAME_DATE);
+            if (!match) return null;
+            const month = monthFromName(match[2]);
+            if (!month) return null;
+            return toIsoDate(expandYear(match[3]), month, parseInt(match[1], 10));
+        }
+        case 'MPESA_COMPLETION_TIME': {
+            const match = value.match(COMPLETION_TIME);
+            if (!match) return null;
+            return toIsoDate(parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10));
+        }
+    }
+};
+
+// Counts how often consecutive rows move backwards and forwards in time.
+// Statements are sorted one way or the other, so the right format keeps the column monotonic.
+const orderingScore = (dates: string[]): number => {
+    let ascending = 0;
+    let descending = 0;
+    for (let i = 1; i < dates.length; i++) {
+        if (dates[i] > dates[i - 1]) ascending++;
+        else if (dates[i] < dates[i - 1]) descending++;
+    }
+    return Math.max(ascending, descending) - Math.min(ascending, descending);
+};
+
+/**
+ * Samples a whole date column and works out which format it uses.
+ * Formats are ranked by how many cells they read, then by how well they keep the column in order.
+ * @param samples Raw cell values, in statement order.
+ */
+export const detectDateFormat = (samples: string[]): DateFormatDetection => {
+    const values = samples.map(s => cleanCell(s || '')).filter(Boolean);
+    if (values.length === 0) {
+        return { format: null, isAmbiguous: false, parsedCount: 0, sampleCount: 0 };
+    }
+
+    const candidates = FORMAT_PRIORITY.map(format => {
+        const parsed = values.map(v => parseDateWithFormat(v, format)).filter((d): d is string => d !== null);
+        return { format, parsedCount: parsed.length, ordering: orderingScore(parsed) };
+    }).filter(c => c.parsedCount > 0);
+
+    if (candidates.length === 0) {
+        return { format: null, isAmbiguous: false, parsedCount: 0, sampleCount: values.length };
+    }
+
+    // Stable sort keeps FORMAT_PRIORITY as the final tie-breaker.
+    candidates.sort((a, b) => (b.parsedCount - a.parsedCount) || (b.ordering - a.ordering));
+    const best = candidates[0];
+    const isAmbiguous = candidates.some(c => c !== best && c.parsedCount === best.parsedCount && c.ordering === best.ordering);
+
+    return { format: best.format, isAmbiguous, parsedCount: best.parsedCount, sampleCount: values.length };
+};
@@ -0,0 +1,179 @@
+import { Transaction } from '../types';
+
+// Duplicate detection for imports and manual entries.
+// Exact matches are skipped silently on import; fuzzy matches are scored and shown to the user to decide.
+
+/**
+ * Key used to skip rows that were already imported into an account.
+ * Rows with a stable source ID (OFX FITID, CAMT entry reference, M-PESA receipt) are matched on that alone,
+ * since banks sometimes reword descriptions between exports.
+ */
+export const getImportKey = (t: Omit<Transaction, 'id'>): string => {
+    if (t.externalId) {
+        return `ext|${t.accountId}|${t.externalId}`;
+    }
+    return `${t.date}|${t.description.trim()}|${t.amount}|${t.type}|${t.accountId}`;
+};
+
+type DuplicateCandidate = Pick<Transaction, 'accountId' | 'date' | 'merchant' | 'description' | 'amount' | 'type'> & Partial<Pick<Transaction, 'id' | 'externalId' | 'importBatchId'>>;
+
+export interface DuplicateMatch {
+    existing: Transaction;
+    score: number;
+    // The wording matches too, not just the amount and date, so the row is skipped on import unless the user keeps it.
+    nearExact: boolean;
+}
+
+export interface DuplicatePair {
+    key: string;
+    first: Transaction;
+    second: Transaction;
+    score: number;
+}
+
+// Scores at or above this are shown as likely duplicates.
+export const DUPLICATE_THRESHOLD = 0.75;
+
+// Below this the wording is too different for a pair to count as a duplicate at all, however close the
+// date: a KES 100 airtime top-up and a KES 100 fare on the same day are two payments.
+const MIN_TEXT_SIMILARITY = 0.5;
+
+// Wording this close (after noise words are dropped) is treated as the same payment.
+const NEAR_EXACT_TEXT_SIMILARITY = 0.9;
+
+// Same payment recorded by hand and by the bank can be a few days apart (weekends, late posting).
+const DATE_WINDOW_DAYS = 3;
+
+const NOISE_WORDS = new Set(['mpesa', 'lipa', 'na', 'to', 'from', 'pay', 'bill', 'paybill', 'payment', 'acc', 'no', 'the', 'ltd', 'limited', 'manually', 'entered', 'sent', 'received', 'kes', 'ksh']);
+
+const tokenize = (text: string | undefined): Set<string> => {
+    return new Set((text || '')
+        .toLowerCase()
+        .replace(/m-pesa/g, 'mpesa')
+        .split(/[^a-z0-9]+/)
+        .filter(token => token.length > 1 && !NOISE_WORDS.has(token)));
+};
+
+// Dice coefficient over words, so "NAIVAS WESTLANDS" and "Naivas" still count as similar.
+const textSimilarity = (a: string | undefined, b: string | undefined): number => {
+    const tokensA = tokenize(a);
+    const tokensB = tokenize(b);
+    if (tokensA.size === 0 || tokensB.size === 0) return 0;
+    let shared = 0;
+    tokensA.forEach(token => { if (tokensB.has(token)) shared++; });
+    return (2 * shared) / (tokensA.size + tokensB.size);
+};
+
+const DAY_MS = 86400000;
+
+const daysBetween = (a: string, b: string) => Math.abs(new Date(a).getTime() - new Date(b).getTime()) / DAY_MS;
+
+const compareCandidates = (a: DuplicateCandidate, b: DuplicateCandidate): { score: number; text: number } | null => {
+    if (a.type !== b.type || Math.abs(a.amount - b.amount) >= 0.01) return null;
+    // Two rows from the same source file, or with different source IDs, are separate transactions
+    // (e.g. two identical bus fares on one statement).
+    if (a.importBatchId && a.importBatchId === b.importBatchId) return null;
+    if (a.externalId && b.externalId && a.externalId !== b.externalId) return null;
+    if (!a.date || !b.date) return null;
+
+    const days = daysBetween(a.date, b.date);
+    if (days > DATE_WINDOW_DAYS) return null;
+
+    const text = Math.max(
+        textSimilarity(a.merchant, b.merchant),
+        textSimilarity(a.description, b.description),
+        textSimilarity(a.merchant, b.description),
+        textSimilarity(a.description, b.merchant),
+    );
+    if (text < MIN_TEXT_SIMILARITY) return null;
+
+    const dateScore = 1 - days / (DATE_WINDOW_DAYS + 1);
+    const accountScore = a.accountId === b.accountId ? 1 : 0;
+    return { score: Math.round((0.4 + 0.25 * dateScore + 0.15 * accountScore + 0.2 * text) * 100) / 100, text };
+};
+
+/**
+ * How likely two transactions are the same money movement, from 0 to 1.
+ * Amount and direction must match and the wording must be similar; date proximity, account and
+ * closer wording add confidence.
+ */
+export const scoreDuplicate = (a: DuplicateCandidate, b: DuplicateCandidate): number => compareCandidates(a, b)?.score ?? 0;
+
+const amountKey = (amount: number) => Math.round(amount * 100).toString();
+
+const dayNumber = (date: string) => Math.floor(new Date(date).getTime() / DAY_MS);
+
+/**
+ * Groups transactions by amount, each group in date order, so lookups only compare rows that could possibly match.
+ */
+export const buildDuplicateIndex = (transactions: Transaction[]): Map<string, Transaction[]> => {
+    const index = new Map<string, Transaction[]>();
+    transactions.forEach(t => {
+        const key = amountKey(t.amount);
+        const group = index.get(key);
+        if (group) group.push(t);
+        else index.set(key, [t]);
+    });
+    index.forEach(group => group.sort((a, b) => (a.date || '').localeCompare(b.date || '')));
+    return index;
+};
+
+/**
+ * Best existing match for a row about to be imported, if it scores as a likely duplicate.
+ */
+export const findLikelyDuplicate = (candidate: DuplicateCandidate, index: Map<string, Transaction[]>): DuplicateMatch | null => {
+    let best: DuplicateMatch | null = null;
+    (index.get(amountKey(candidate.amount)) || []).forEach(existing => {
+        const match = compareCandidates(candidate, existing);
+        if (match && match.score >= DUPLICATE_THRESHOLD && (!best || match.score > best.score)) {
+            best = { existing, score: match.score, nearExact: match.text >= NEAR_EXACT_TEXT_SIMILARITY };
+        }
+    });
+    return best;
+};
+
+export const duplicatePairKey = (idA: string, idB: string) => [idA, idB].sort().join('|');
+
+/**
+ * Likely duplicate pairs already recorded, strongest first. Pairs the user has dismissed are left out.
+ * Each row is only compared with rows of the same amount within the date window.
+ */
+export const findDuplicatePairs = (transactions: Transaction[], dismissed: string[] = []): DuplicatePair[] => {
+    const dismissedKeys = new Set(dismissed);
+    const pairs: DuplicatePair[] = [];
+
+    buildDuplicateIndex(transactions).forEach(group => {
+        const days = group.map(t => t.date ? dayNumber(t.date) : NaN);
+        for (let i = 0; i < group.length; i++) {
+            if (isNaN(days[i])) continue;
+            for (let j = i + 1; j < group.length && days[j] - days[i] <= DATE_WINDOW_DAYS; j++) {
+                const key = duplicatePairKey(group[i].id, group[j].id);
+                if (dismissedKeys.has(key)) continue;
+                const score = scoreDuplicate(group[i], group[j]);
+                if (score >= DUPLICATE_THRESHOLD) {
+                    pairs.push({ key, first: group[i], second: group[j], score });
+                }
+            }
+        }
+    });
+    return pairs.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Combines two records of the same payment. The kept row wins, but blanks and the catch-all "Other"
+ * category (with its split lines) are filled from the row being removed, and source IDs carry over so re-imports still match.
+ */
+export const mergeDuplicate = (keep: Transaction, remove: Transaction): Transaction => {
+    const takeCategory = keep.category === 'Other' && !keep.splits?.length && remove.category !== 'Other';
+    return {
+        ...keep,
+        category: takeCategory ? remove.category : keep.category,
+        isTransfer: takeCategory ? remove.isTransfer : keep.isTransfer,
+        // Lines only carry over when they still add up to the kept amount.
+        splits: takeCategory && remove.amount === keep.amount ? remove.splits : keep.splits,
+        logoUrl: keep.logoUrl || remove.logoUrl,
+        reference: keep.reference || remove.reference,
+        externalId: keep.externalId || remove.externalId,
+        fees: keep.fees?.length ? keep.fees : remove.fees,
+    };
+};
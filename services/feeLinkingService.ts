@@ -0,0 +1,197 @@
+import { FeeKind, Transaction, TransactionFee, TransactionType } from '../types';
+import { EXCISE_DUTY_RATES, MPESA_TRANSFER_TARIFF } from '../constants';
+
+// Attaches bank charge and excise duty rows to the payment they were levied on.
+// Statements list them as separate rows on the same date; once linked they live in the parent's `fees`
+// so they stop cluttering the list and can be reported as the cost of moving money.
+
+export type MoneyChannel = 'mpesa' | 'bank_to_mpesa' | 'card' | 'bank_transfer' | 'other';
+
+export const MONEY_CHANNEL_LABELS: Record<MoneyChannel, string> = {
+    mpesa: 'M-PESA',
+    bank_to_mpesa: 'Bank to M-PESA',
+    card: 'Card',
+    bank_transfer: 'Bank transfer',
+    other: 'Other',
+};
+
+export interface TransferCostSummary {
+    fees: number;
+    moved: number; // Total amount of the transactions those fees were charged on
+    count: number;
+}
+
+type Linkable = Pick<Transaction, 'accountId' | 'date' | 'type' | 'description' | 'amount'> & Partial<Pick<Transaction, 'reference' | 'externalId' | 'fees'>>;
+
+const EXCISE_DUTY = /EXCISE DUTY/i;
+const CHARGE = /\bCHARGES?\b|TRANSACTION COST|\bACCESS FEE\b|Fuliza M-PESA charge/i;
+// Bank switch references, e.g. "KE-013-251113-140132692-693070-871", shared by a payment and its fees.
+const BANK_REFERENCE = /KE-\d{3}-\d{6}-[\d-]+/;
+
+/**
+ * Whether a row is a fee rather than a payment, judging by its description.
+ */
+export const classifyFee = (description: string): FeeKind | null => {
+    if (EXCISE_DUTY.test(description)) return 'excise_duty';
+    if (CHARGE.test(description)) return 'charge';
+    return null;
+};
+
+export const detectChannel = (description: string): MoneyChannel => {
+    const isMpesa = /M-?PESA/i.test(description);
+    if (isMpesa && /IBKG|IBANKING|BANK/i.test(description)) return 'bank_to_mpesa';
+    if (/DEBIT CARD|CARD PURCHASE|CARD TXN|\bPOS\b/i.test(description)) return 'card';
+    if (isMpesa || /^(Sent to|Received from|Pay Bill|Withdrawal from Agent|Airtime)/i.test(description)) return 'mpesa';
+    if (/RTGS|EFT|PESALINK|IBANKING TRF|TRANSFER/i.test(description)) return 'bank_transfer';
+    return 'other';
+};
+
+const referenceOf = (tx: Linkable) => tx.reference || tx.description.match(BANK_REFERENCE)?.[0];
+
+const expectedCharge = (parent: Linkable): number | null => {
+    if (detectChannel(parent.description) !== 'mpesa' || !/^Sent to/i.test(parent.description)) return null;
+    const band = MPESA_TRANSFER_TARIFF.find(([limit]) => parent.amount <= limit);
+    return band ? band[1] : null;
+};
+
+// 0..1: how believable it is that this fee was charged on this parent.
+const plausibility = (fee: number, parent: Linkable): number => {
+    const expected = expectedCharge(parent);
+    if (expected !== null) {
+        return Math.max(0, 1 - Math.abs(fee - expected) / Math.max(expected, 1));
+    }
+    // No published tariff: bank charges are a small fraction of what was moved.
+    return fee <= parent.amount * 0.05 + 10 ? 0.5 : 0;
+};
+
+const isDutyOn = (duty: number, charge: number) => EXCISE_DUTY_RATES.some(rate => Math.abs(charge * rate - duty) < 0.02);
+
+/**
+ * Links fee rows to their parents and removes them from the list.
+ * A fee goes to a non-fee row on the same date, account and direction (refunded fees go to the reversal),
+ * preferring a shared reference, then a plausible amount for the tariff, then the nearest row.
+ * Charges that name a channel only go to payments on that channel.
+ * Each parent takes at most one charge and one duty. Fees with no believable parent are left as they are.
+ */
+export const linkFees = <T extends Linkable>(rows: T[]): { rows: T[]; linkedCount: number } => {
+    const kinds = rows.map(row => classifyFee(row.description));
+    const groups = new Map<string, number[]>();
+    rows.forEach((row, index) => {
+        const key = `${row.accountId}|${row.date}|${row.type}`;
+        groups.set(key, [...(groups.get(key) || []), index]);
+    });
+
+    const parentOf = new Map<number, number>();
+    const taken = new Set<string>();
+
+    const link = (feeIndex: number, bonus: (parentIndex: number) => number) => {
+        const fee = rows[feeIndex];
+        const kind = kinds[feeIndex]!;
+        const reference = referenceOf(fee);
+        // "MPESA CHARGE" only belongs on an M-PESA payment, never on a card purchase listed next to it.
+        const channel = kind === 'charge' ? detectChannel(fee.description) : 'other';
+        let best: { index: number; score: number } | null = null;
+
+        (groups.get(`${fee.accountId}|${fee.date}|${fee.type}`) || []).forEach(candidate => {
+            if (kinds[candidate] !== null || taken.has(`${candidate}|${kind}`)) return;
+            const sameReference = !!reference && reference === referenceOf(rows[candidate]);
+            if (channel !== 'other' && !sameReference && detectChannel(rows[candidate].description) !== channel) return;
+            const plausible = plausibility(fee.amount, rows[candidate]);
+            const extra = bonus(candidate);
+            if (!sameReference && plausible === 0 && extra === 0) return;
+            const score = (sameReference ? 3 : 0) + plausible * 2 + extra + 1 / (1 + Math.abs(candidate - feeIndex));
+            if (!best || score > best.score) best = { index: candidate, score };
+        });
+
+        if (best) {
+            const { index } = best;
+            parentOf.set(feeIndex, index);
+            taken.add(`${index}|${kind}`);
+        }
+    };
+
+    // Charges first, so each duty can follow the charge it was levied on.
+    kinds.forEach((kind, index) => { if (kind === 'charge') link(index, () => 0); });
+    kinds.forEach((kind, index) => {
+        if (kind !== 'excise_duty') return;
+        link(index, candidate => {
+            const charges = Array.from(parentOf.entries()).filter(([feeIndex, parent]) => parent === candidate && kinds[feeIndex] === 'charge');
+            return charges.some(([feeIndex]) => isDutyOn(rows[index].amount, rows[feeIndex].amount)) ? 4 : 0;
+        });
+    });
+
+    const feesByParent = new Map<number, TransactionFee[]>();
+    parentOf.forEach((parent, feeIndex) => {
+        const fee = rows[feeIndex];
+        feesByParent.set(parent, [...(feesByParent.get(parent) || []), {
+            kind: kinds[feeIndex]!,
+            // Same direction as the parent: a charge on money out is a cost, on a reversal it is a refund.
+            amount: fee.type === TransactionType.Expense ? fee.amount : -fee.amount,
+            description: fee.description,
+            externalId: fee.externalId,
+        }]);
+    });
+
+    const linked = rows.flatMap((row, index) => {
+        if (parentOf.has(index)) return [];
+        const fees = feesByParent.get(index);
+        return [fees ? { ...row, fees: [...(row.fees || []), ...fees] } : row];
+    });
+    return { rows: linked, linkedCount: parentOf.size };
+};
+
+const recordedFeeKey = (accountId: string, date: string, fee: Pick<TransactionFee, 'amount' | 'description' | 'externalId'>) => fee.externalId
+    ? `ext|${accountId}|${fee.externalId}`
+    : `${accountId}|${date}|${Math.abs(fee.amount)}|${fee.description.trim()}`;
+
+/**
+ * Fee rows in an import that an earlier import already linked into a stored transaction, e.g. when
+ * statements overlap. Their payment is skipped as a duplicate, so left alone they would come in as
+ * standalone expenses and count twice. Matched on the fee's source ID, or else on its account, date,
+ * amount and wording; each stored fee matches at most one row. Maps row index to the stored payment.
+ */
+export const findRecordedFees = (rows: Linkable[], existing: Transaction[]): Map<number, Transaction> => {
+    const recorded = new Map<string, Transaction[]>();
+    existing.forEach(tx => (tx.fees || []).forEach(fee => {
+        const key = recordedFeeKey(tx.accountId, tx.date, fee);
+        recorded.set(key, [...(recorded.get(key) || []), tx]);
+    }));
+
+    const matches = new Map<number, Transaction>();
+    if (recorded.size === 0) return matches;
+    rows.forEach((row, index) => {
+        if (!classifyFee(row.description)) return;
+        const parent = recorded.get(recordedFeeKey(row.accountId, row.date, row))?.shift();
+        if (parent) matches.set(index, parent);
+    });
+    return matches;
+};
+
+/**
+ * Net cost of the fees attached to a transaction (negative if refunds outweigh charges).
+ */
+export const feeTotal = (tx: Pick<Transaction, 'fees'>): number => {
+    return (tx.fees || []).reduce((sum, fee) => sum + fee.amount, 0);
+};
+
+/**
+ * What it cost to move money, per account and per channel, over transactions that carried fees.
+ */
+export const summarizeTransferCosts = (transactions: Transaction[]) => {
+    const byAccount: Record<string, TransferCostSummary> = {};
+    const byChannel: Partial<Record<MoneyChannel, TransferCostSummary>> = {};
+
+    const add = (summary: TransferCostSummary | undefined, tx: Transaction): TransferCostSummary => ({
+        fees: (summary?.fees || 0) + feeTotal(tx),
+        moved: (summary?.moved || 0) + tx.amount,
+        count: (summary?.count || 0) + 1,
+    });
+
+    transactions.forEach(tx => {
+        if (!tx.fees || tx.fees.length === 0) return;
+        const channel = detectChannel(tx.description);
+        byAccount[tx.accountId] = add(byAccount[tx.accountId], tx);
+        byChannel[channel] = add(byChannel[channel], tx);
+    });
+    return { byAccount, byChannel };
+};
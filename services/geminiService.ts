@@ -1,7 +1,9 @@
 
 import { GoogleGenAI, Type, Chat } from "@google/genai";
-import { CategorizationExample, Category, EnrichedMerchantInfo, ParsedTransaction, Transaction, TransactionType, AppContextData, SpendingStats, StrategyProposal, UserProfile, GOAL_LABELS } from "../types";
+import { CategorizationExample, Category, EnrichedMerchantInfo, ParsedTransaction, StatementChunk, Transaction, TransactionType, AppContextData, SpendingStats, StrategyProposal, UserProfile, GOAL_LABELS } from "../types";
 import { getCachedEnrichment, setCachedEnrichment } from './cachingService';
+import { transactionCategories } from './splitService';
+import { calculateTagTotals } from './tagService';
 import { extractHeuristicData, extractPointsFromDescription } from "./heuristicService";
 import { getCategoryForMerchant } from "./merchantCategoryMapService";
 
@@ -105,7 +107,53 @@ export const parseBasicInfoFromText = async (text: string): Promise<Pick<ParsedT
     });
 };
 
-export const parseTransactionsFromFile = async (file: File): Promise<ParsedTransaction[]> => {
+/**
+ * Reads a receipt or invoice (photo or PDF) into a single transaction, for the user to check before adding.
+ */
+export const parseReceipt = async (file: File): Promise<ParsedTransaction> => {
+    return retryWithBackoff(async () => {
+        try {
+            const filePart = await fileToGenerativePart(file);
+            const response = await ai.models.generateContent({
+                model: "gemini-2.5-flash",
+                contents: { parts: [filePart, { text: `This is a receipt or invoice, usually Kenyan (e.g. a supermarket ETR receipt or an M-PESA till slip). Extract the merchant's name, the total paid in KES, the date as YYYY-MM-DD, a short description of what was bought, and the receipt or invoice number if one is printed. Receipts are expenses unless the document shows money received.` }] },
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: {
+                        type: Type.OBJECT,
+                        properties: {
+                            merchant: { type: Type.STRING },
+                            amount: { type: Type.NUMBER },
+                            date: { type: Type.STRING, description: "YYYY-MM-DD format" },
+                            description: { type: Type.STRING },
+                            type: { type: Type.STRING, enum: ["income", "expense"] },
+                            receiptNumber: { type: Type.STRING },
+                        },
+                        required: ["merchant", "amount", "type"]
+                    }
+                }
+            });
+            const data = cleanJsonInfo(response.text);
+            const amount = Math.abs(Number(data.amount) || 0);
+            return {
+                merchant: data.merchant,
+                amount,
+                date: /^\d{4}-\d{2}-\d{2}$/.test(data.date || '') ? data.date : '',
+                description: data.description || `Receipt from ${data.merchant || 'unknown merchant'}`,
+                type: data.type === 'income' ? TransactionType.Income : TransactionType.Expense,
+                externalId: data.receiptNumber || undefined,
+            };
+        } catch (error) {
+            console.error("Error parsing receipt:", error);
+            throw new Error("AI could not read this receipt. Please enter the details manually.");
+        }
+    });
+};
+
+/**
+ * Parses one chunk of a statement. Chunks are retried individually, so a failure here only costs this slice.
+ */
+export const parseStatementChunk = async (chunk: StatementChunk): Promise<ParsedTransaction[]> => {
     return retryWithBackoff(async () => {
         try {
             let response;
@@ -119,22 +167,24 @@ export const parseTransactionsFromFile = async (file: File): Promise<ParsedTrans
                             date: { type: Type.STRING, description: "YYYY-MM-DD format" },
                             description: { type: Type.STRING },
                             amount: { type: Type.NUMBER },
-                            type: { type: Type.STRING, enum: ["income", "expense"] }
+                            type: { type: Type.STRING, enum: ["income", "expense"] },
+                            balance: { type: Type.NUMBER }
                         },
                         required: ["date", "description", "amount", "type"]
                     }
                 }
             };
 
-            if (file.type === 'text/csv' || file.name.endsWith('.csv')) {
-                const csvText = await file.text();
+            if (chunk.kind === 'csv' && chunk.text) {
                 const combinedPrompt = `Analyze this CSV content representing a financial statement from Kenya.
     - Debit column = expense.
     - Credit column = income.
+    - If there is a Balance column, copy the running balance after each row into "balance".
+    - Keep rows in the order they appear.
     - Extract strictly valid JSON.
     CSV Content:
     ---
-    ${csvText}
+    ${chunk.text}
     ---`;
 
                 response = await ai.models.generateContent({
@@ -142,14 +192,15 @@ export const parseTransactionsFromFile = async (file: File): Promise<ParsedTrans
                     contents: combinedPrompt,
                     config: jsonConfig
                 });
-            } else {
-                const filePart = await fileToGenerativePart(file);
+            } else if (chunk.file) {
+                const filePart = await fileToGenerativePart(chunk.file);
                 const promptAction = `You are a specialized financial parser for Kenyan M-PESA and Bank statements. 
-            Analyze the provided image/document.
-            M-PESA PARSING RULES:
-            1. "Paid In" = INCOME, "Withdrawn" = EXPENSE.
-            2. IGNORE "Balance".
+            Analyze the provided image/document. It may be one page of a longer statement, starting or ending mid-table.
+            PARSING RULES:
+            1. "Paid In" or Credit = INCOME, "Withdrawn" or Debit = EXPENSE.
+            2. Copy "Balance" (the running balance after each row) into "balance" when it is shown.
             3. Convert "Completion Time" to YYYY-MM-DD.
+            4. Keep rows in the order they appear on the statement.
             Output a JSON Array of transactions.`;
 
                 response = await ai.models.generateContent({
@@ -157,11 +208,13 @@ export const parseTransactionsFromFile = async (file: File): Promise<ParsedTrans
                     contents: { parts: [filePart, { text: promptAction }] },
                     config: jsonConfig
                 });
+            } else {
+                return [];
             }
 
             return cleanJsonInfo(response.text);
         } catch (error) {
-            console.error("Error parsing transactions from file:", error);
+            console.error(`Error parsing statement ${chunk.label}:`, error);
             throw new Error("AI failed to process the statement. Please ensure it's a clear document and in a supported format.");
         }
     });
@@ -173,14 +226,14 @@ export const enrichTransaction = async (transaction: ParsedTransaction, examples
     if (identifiedMerchant) {
         const mappedCategory = getCategoryForMerchant(identifiedMerchant);
         if (mappedCategory) {
-            return { ...transaction, merchant: identifiedMerchant, category: mappedCategory };
+            return { ...transaction, merchant: identifiedMerchant, category: mappedCategory, categorySource: 'heuristic' };
         }
     }
 
     const cachedData = getCachedEnrichment(cacheKey);
     if (cachedData) {
         const merchant = identifiedMerchant || cachedData.merchant;
-        return { ...transaction, ...cachedData, merchant };
+        return { ...transaction, ...cachedData, merchant, categorySource: 'ai' };
     }
 
     // Optimization: If it's a very common low-value transaction with no heuristic match, maybe skip enriched info?
@@ -207,7 +260,7 @@ export const enrichTransaction = async (transaction: ParsedTransaction, examples
             });
 
             const enrichedData = cleanJsonInfo(response.text);
-            let finalData: ParsedTransaction & { enrichedInfo?: EnrichedMerchantInfo } = { ...transaction, ...enrichedData };
+            let finalData: ParsedTransaction & { enrichedInfo?: EnrichedMerchantInfo } = { ...transaction, ...enrichedData, categorySource: 'ai' };
 
             if (!finalData.enrichedInfo) {
                 const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
@@ -369,8 +422,11 @@ export const createFinancialChatSession = (context: AppContextData): Chat => {
         m: t.merchant,
         a: t.amount,
         t: t.type,
-        c: t.category,
+        c: transactionCategories(t).join(', '),
+        ...(t.tags?.length ? { g: t.tags } : {}),
+        ...(t.notes ? { n: t.notes } : {}),
     }));
+    const tagTotals = calculateTagTotals(context.transactions);
 
     return ai.chats.create({
         model: 'gemini-2.5-flash',
@@ -378,7 +434,8 @@ export const createFinancialChatSession = (context: AppContextData): Chat => {
             systemInstruction: `You are 'Shilling Sense AI', a Kenyan financial assistant. 
             Currency: KES.
             Context:
-            - Transactions (recent): ${JSON.stringify(txContext)}
+            - Transactions (recent; g = the user's tags, n = their notes): ${JSON.stringify(txContext)}
+            - Totals per tag (all transactions): ${JSON.stringify(tagTotals)}
             - Loyalty: ${JSON.stringify(context.loyaltyCards)}
             - Debts: ${JSON.stringify(context.debts)}
             - Chamas: ${JSON.stringify(context.chamas)}
@@ -12,6 +12,10 @@ const merchantExtractors = [
     { regex: /M-PESA Paybill, (.+?),/i, group: 1 },
     { regex: /Card Purchase at (.+?)(?: on .*|$)/i, group: 1 },
     { regex: /Withdrawal from Agent ([\d\w\s-]+?)(?: at .*|$)/i, group: 1, prefix: 'Agent ' },
+    // M-PESA full statement "Details" column
+    { regex: /Merchant Payment(?: Online)? to \d+ - (.+?)(?: Acc\..*|$)/i, group: 1 },
+    { regex: /Pay Bill(?: Online)?(?: Fuliza M-?Pesa)? to \d+ - (.+?)(?: Acc\..*|$)/i, group: 1 },
+    { regex: /Customer Withdrawal At Agent Till \d+ - (.+)$/i, group: 1, prefix: 'Agent ' },
     // New patterns for the user's bank format
     { regex: /KE-[\d-]+\s+([A-Z][A-Z\s&]+?)(?=\s+(?:\d|PESA)|\|)/i, group: 1 }, // Matches "KE-013-... FRANCIS HAIR SALON AND WEAVE BAR ..." (stops before " \d"/" PESA"/"|")
     { regex: /DEBIT CARD TXN AT (.+?)(?:\s{2,}|\d{2}-\d{2}-\d{4})/i, group: 1 }, // Matches debit card transactions
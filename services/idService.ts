@@ -0,0 +1,84 @@
+// Record IDs are ULIDs: 26 characters, a 48-bit millisecond timestamp followed by 80 random bits, both in
+// Crockford base32. They sort by creation time as plain strings, and IDs made in the same millisecond
+// still differ (the random part is incremented rather than redrawn).
+
+const ENCODING = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const TIME_LENGTH = 10;
+const RANDOM_LENGTH = 16;
+const ULID_PATTERN = /^[0-9A-HJKMNP-TV-Z]{26}$/;
+
+let lastTime = -1;
+let lastRandom: number[] = [];
+
+const encodeTime = (time: number): string => {
+    let remaining = Math.max(0, Math.floor(time));
+    let encoded = '';
+    for (let i = 0; i < TIME_LENGTH; i++) {
+        encoded = ENCODING[remaining % 32] + encoded;
+        remaining = Math.floor(remaining / 32);
+    }
+    return encoded;
+};
+
+const randomDigits = (): number[] => Array.from(crypto.getRandomValues(new Uint8Array(RANDOM_LENGTH)), byte => byte % 32);
+
+// Adds one to a base32 number held as digits. Overflow would need 2^80 IDs in one millisecond.
+const increment = (digits: number[]): number[] => {
+    const next = [...digits];
+    for (let i = next.length - 1; i >= 0; i--) {
+        if (next[i] < 31) {
+            next[i]++;
+            return next;
+        }
+        next[i] = 0;
+    }
+    return next;
+};
+
+/**
+ * A new ID for any record.
+ * @param time Creation time in ms; defaults to now.
+ */
+export const createId = (time = Date.now()): string => {
+    lastRandom = time === lastTime ? increment(lastRandom) : randomDigits();
+    lastTime = time;
+    return encodeTime(time) + lastRandom.map(digit => ENCODING[digit]).join('');
+};
+
+export const isId = (value: unknown): value is string => typeof value === 'string' && ULID_PATTERN.test(value);
+
+// --- RE-KEYING ---
+
+// 128-bit string hash (cyrb128). Only needs to spread well; it isn't used for security.
+const hash128 = (text: string): number[] => {
+    let h1 = 1779033703, h2 = 3144134277, h3 = 1013904242, h4 = 2773480762;
+    for (let i = 0; i < text.length; i++) {
+        const k = text.charCodeAt(i);
+        h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+        h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+        h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+        h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+    }
+    h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+    h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+    h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+    h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+    h1 ^= (h2 ^ h3 ^ h4); h2 ^= h1; h3 ^= h1; h4 ^= h1;
+    return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+};
+
+/**
+ * The ID an old-style record gets when re-keyed. The same old ID always maps to the same new one, so
+ * references can be rewritten without a lookup table, and an old backup re-keys to match the live data.
+ * IDs that are already ULIDs are kept.
+ * @param scope The collection the record belongs to, so equal old IDs in different collections stay apart.
+ * @param fallbackTime Used when the old ID doesn't start with a millisecond timestamp.
+ */
+export const rekeyId = (scope: string, oldId: string, fallbackTime = 0): string => {
+    if (isId(oldId)) return oldId;
+    // Old IDs were Date.now() strings, sometimes with a suffix ("1700000000000-3", "17000000000000.42").
+    const timestamp = /^(\d{13})/.exec(oldId);
+    const time = timestamp ? Number(timestamp[1]) : fallbackTime;
+    const digits = hash128(`${scope}:${oldId}`).flatMap(word => [word >>> 27, (word >>> 22) & 31, (word >>> 17) & 31, (word >>> 12) & 31]);
+    return encodeTime(time) + digits.slice(0, RANDOM_LENGTH).map(digit => ENCODING[digit]).join('');
+};
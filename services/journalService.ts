@@ -0,0 +1,123 @@
+// Undo/redo history for changes to financial state. Categorisation examples are part of it, so undoing a
+// recategorisation also forgets what it taught; import profiles are saved in the background and aren't.
+// Each entry holds, per collection it touched, enough to go either way: for collections of records, the
+// records as they were before and after (changed, added or removed ones only); for everything else, the
+// whole value before and after. Undo and redo apply these over the current state, so edits made since
+// (or in another tab) to other records are left alone.
+
+export type JournalCollection =
+    | 'accounts' | 'transactions' | 'budgets' | 'loyaltyCards' | 'debts' | 'chamas' | 'quarantine' | 'importBatches'
+    | 'categories' | 'userProfile' | 'dismissedDuplicates' | 'categorizationExamples';
+
+const RECORD_COLLECTIONS = new Set<JournalCollection>(['accounts', 'transactions', 'budgets', 'loyaltyCards', 'debts', 'chamas', 'quarantine', 'importBatches']);
+
+export interface JournalPatch {
+    collection: JournalCollection;
+    before: unknown; // Records: the old versions of changed and removed records. Otherwise: the old value.
+    after: unknown; // Records: the new versions of changed and added records. Otherwise: the new value.
+}
+
+export interface JournalEntry {
+    id: string;
+    label: string;
+    at: string;
+    patches: JournalPatch[];
+    // Too large to save: the saved history keeps it without patches, and only the tab that made it can replay it.
+    unsaved?: boolean;
+}
+
+export interface JournalState {
+    undo: JournalEntry[]; // Oldest first
+    redo: JournalEntry[]; // Next to redo last
+}
+
+export const EMPTY_JOURNAL: JournalState = { undo: [], redo: [] };
+
+// History is kept in localStorage, so it is bounded by entry count and by size. An entry that is over
+// the size limit on its own (a backup restore, a large import) is held in memory instead.
+const MAX_ENTRIES = 50;
+const MAX_SIZE = 1_000_000; // characters of JSON
+
+const entrySize = (entry: JournalEntry) => JSON.stringify(entry).length;
+
+
+type IdRecord = { id: string };
+
+/**
+ * What changed in one collection, or null when nothing did.
+ */
+export const diffCollection = (collection: JournalCollection, before: unknown, after: unknown): JournalPatch | null => {
+    if (before === after) return null;
+    if (!RECORD_COLLECTIONS.has(collection)) {
+        return JSON.stringify(before) === JSON.stringify(after) ? null : { collection, before, after };
+    }
+
+    const beforeRecords = (before || []) as IdRecord[];
+    const afterRecords = (after || []) as IdRecord[];
+    const beforeById = new Map(beforeRecords.map(record => [record.id, record]));
+    const afterById = new Map(afterRecords.map(record => [record.id, record]));
+    const changedAfter = afterRecords.filter(record => beforeById.get(record.id) !== record);
+    const changedBefore = beforeRecords.filter(record => afterById.get(record.id) !== record);
+    if (changedAfter.length === 0 && changedBefore.length === 0) return null;
+    return { collection, before: changedBefore, after: changedAfter };
+};
+
+/**
+ * Applies a patch to the current value of its collection, backwards for undo or forwards for redo.
+ */
+export const applyPatch = (current: unknown, patch: JournalPatch, direction: 'undo' | 'redo'): unknown => {
+    const target = direction === 'undo' ? patch.before : patch.after;
+    if (!RECORD_COLLECTIONS.has(patch.collection)) return target;
+
+    const source = (direction === 'undo' ? patch.after : patch.before) as IdRecord[];
+    const restore = target as IdRecord[];
+    const restoreById = new Map(restore.map(record => [record.id, record]));
+    // Records that only exist on the side being left were added (or removed) by this change.
+    const drop = new Set(source.filter(record => !restoreById.has(record.id)).map(record => record.id));
+
+    const seen = new Set<string>();
+    const next = (current as IdRecord[]).flatMap(record => {
+        if (drop.has(record.id)) return [];
+        const replacement = restoreById.get(record.id);
+        if (!replacement) return [record];
+        seen.add(record.id);
+        return [replacement];
+    });
+    restore.forEach(record => { if (!seen.has(record.id)) next.push(record); });
+    return next;
+};
+
+/**
+ * Adds a new entry to the history as it is saved. A new change makes the redo history meaningless, so it is
+ * cleared. An entry too large to save goes in without its patches; the caller holds on to the full one.
+ */
+export const pushEntry = (state: JournalState, entry: JournalEntry): JournalState => {
+    const saved = entrySize(entry) > MAX_SIZE ? { ...entry, patches: [], unsaved: true } : entry;
+    const undo = [...state.undo, saved].slice(-MAX_ENTRIES);
+    let size = undo.reduce((sum, e) => sum + entrySize(e), 0);
+    while (undo.length > 1 && size > MAX_SIZE) {
+        size -= entrySize(undo.shift()!);
+    }
+    return { undo, redo: [] };
+};
+
+/**
+ * The entries of one stack (undo or redo, next one last) that can still be replayed, with unsaved entries
+ * swapped for the full ones in `held`. History stops at an unsaved entry nobody holds (e.g. after a reload),
+ * since replaying past a change that can't be undone would leave the data inconsistent.
+ */
+export const replayableEntries = (entries: JournalEntry[], held: Map<string, JournalEntry>): JournalEntry[] => {
+    let blocked = -1;
+    entries.forEach((entry, index) => { if (entry.unsaved && !held.has(entry.id)) blocked = index; });
+    return entries.slice(blocked + 1).map(entry => entry.unsaved ? held.get(entry.id)! : entry);
+};
+
+/**
+ * Every version of a record collection's records that these entries can bring back, e.g. to tell which
+ * stored files an undo would still need.
+ */
+export const recordsInHistory = (entries: JournalEntry[], collection: JournalCollection): unknown[] => {
+    return entries.flatMap(entry => entry.patches
+        .filter(patch => patch.collection === collection)
+        .flatMap(patch => [...(patch.before as unknown[]), ...(patch.after as unknown[])]));
+};
@@ -53,6 +53,20 @@ class MerchantService {
         return this.dictionary[rawName] || rawName;
     }
 
+    public getDictionary(): MerchantDictionary {
+        return { ...this.dictionary };
+    }
+
+    // Swaps in a whole dictionary (restoring a backup) and tells subscribers about every name that changed.
+    public replaceDictionary(dictionary: MerchantDictionary) {
+        const previous = this.dictionary;
+        this.dictionary = { ...dictionary };
+        this.saveDictionary();
+        new Set([...Object.keys(previous), ...Object.keys(dictionary)]).forEach(rawName => {
+            if (previous[rawName] !== dictionary[rawName]) this.notifyListeners(rawName, this.getEnrichedName(rawName));
+        });
+    }
+
     public async identifyMerchants(transactions: Transaction[]): Promise<void> {
         if (!GOOGLE_API_KEY || !GOOGLE_CX) {
             console.warn('Merchant Identification: Missing API Key or CX ID.');
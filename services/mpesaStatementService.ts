@@ -0,0 +1,144 @@
+import { ParsedTransaction, TransactionType } from '../types';
+import { detectDelimiter, parseAmountCell, splitDelimitedLine } from './csvImportService';
+import { parseDateWithFormat } from './dateParsingService';
+
+// Deterministic parser for Safaricom's M-PESA full statement.
+// Columns: Receipt No. | Completion Time | Details | Transaction Status | Paid In | Withdrawn | Balance
+
+export interface MpesaStatementRow {
+    receiptNo: string;
+    completionTime: string;
+    details: string;
+    status: string;
+    paidIn: number | null;
+    withdrawn: number | null;
+    balance: number | null;
+}
+
+const RECEIPT_NO = /^[A-Z0-9]{10}$/;
+// e.g. "TKJ1ABC2DE 2025-11-19 21:38:17 Customer Transfer to 0712***345 - JOHN DOE Completed -1,000.00 2,345.00"
+const PDF_ROW_START = /^([A-Z0-9]{10})\s+(\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2})\s+(.*)$/;
+const STATUS = /\b(Completed|Failed|Reversed|Cancelled|Pending)\b/gi;
+const AMOUNT = /-?[\d,]+\.\d{2}/g;
+
+/**
+ * Quick check on the header text, used to route files to this parser before anything else.
+ */
+export const isMpesaStatement = (text: string): boolean => {
+    const lower = text.toLowerCase();
+    return lower.includes('receipt no') && lower.includes('completion time') && lower.includes('withdrawn');
+};
+
+const parseCsvRows = (text: string): MpesaStatementRow[] => {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+    const delimiter = detectDelimiter(text);
+    // Statements exported to CSV keep the customer details preamble above the table.
+    const headerIndex = lines.findIndex(line => /receipt no/i.test(line) && /completion time/i.test(line));
+    if (headerIndex === -1) return [];
+
+    const headers = splitDelimitedLine(lines[headerIndex], delimiter).map(h => h.toLowerCase());
+    const col = (name: string) => headers.findIndex(h => h.includes(name));
+    const idx = {
+        receipt: col('receipt'), time: col('completion'), details: col('details'),
+        status: col('status'), paidIn: col('paid in'), withdrawn: col('withdrawn'), balance: col('balance'),
+    };
+
+    return lines.slice(headerIndex + 1)
+        .map(line => splitDelimitedLine(line, delimiter))
+        .filter(cells => RECEIPT_NO.test(cells[idx.receipt] || ''))
+        .map(cells => ({
+            receiptNo: cells[idx.receipt],
+            completionTime: cells[idx.time] || '',
+            details: (cells[idx.details] || '').replace(/\s+/g, ' ').trim(),
+            status: cells[idx.status] || 'Completed',
+            paidIn: parseAmountCell(cells[idx.paidIn]),
+            withdrawn: parseAmountCell(cells[idx.withdrawn]),
+            balance: parseAmountCell(cells[idx.balance]),
+        }));
+};
+
+const parsePdfRows = (lines: string[]): MpesaStatementRow[] => {
+    // Long details wrap onto following lines, so gather each row's text until the next receipt number.
+    const rawRows: { receiptNo: string; completionTime: string; text: string }[] = [];
+    lines.forEach(line => {
+        const start = line.match(PDF_ROW_START);
+        if (start) {
+            rawRows.push({ receiptNo: start[1], completionTime: start[2], text: start[3] });
+        } else if (rawRows.length > 0 && !/^(receipt no|page \d|disclaimer)/i.test(line)) {
+            rawRows[rawRows.length - 1].text += ' ' + line;
+        }
+    });
+
+    const rows: MpesaStatementRow[] = [];
+    rawRows.forEach(raw => {
+        const text = raw.text.replace(/\s+/g, ' ').trim();
+        const status = Array.from(text.matchAll(STATUS)).pop();
+        if (!status || status.index === undefined) return;
+
+        // Wrapped detail lines land after the amounts, so stitch them back onto the details.
+        const before = text.slice(0, status.index).trim();
+        const after = text.slice(status.index + status[0].length);
+        const details = [before, after.replace(AMOUNT, '').trim()].filter(Boolean).join(' ');
+
+        const amounts = (after.match(AMOUNT) || []).map(a => parseAmountCell(a) as number);
+        const balance = amounts.length > 1 ? amounts[amounts.length - 1] : null;
+        const moved = amounts.length > 1 ? amounts.slice(0, -1) : amounts;
+        const withdrawn = moved.find(a => a < 0) ?? null;
+        const paidIn = moved.find(a => a >= 0) ?? null;
+
+        rows.push({
+            receiptNo: raw.receiptNo,
+            completionTime: raw.completionTime,
+            details,
+            status: status[0],
+            paidIn,
+            withdrawn,
+            balance,
+        });
+    });
+    return rows;
+};
+
+const toParsedTransactions = (rows: MpesaStatementRow[]): ParsedTransaction[] => {
+    // Failed and reversed rows never moved money; a completed "Reversal" of one of them is skipped too.
+    const skippedReceipts = new Set(rows.filter(r => !/^completed$/i.test(r.status.trim())).map(r => r.receiptNo));
+    const results: ParsedTransaction[] = [];
+
+    rows.forEach(row => {
+        if (skippedReceipts.has(row.receiptNo)) return;
+        if (/reversal/i.test(row.details) && Array.from(skippedReceipts).some(receipt => row.details.includes(receipt))) return;
+
+        const paidIn = Math.abs(row.paidIn || 0);
+        const withdrawn = Math.abs(row.withdrawn || 0);
+        if (paidIn === 0 && withdrawn === 0) return;
+
+        results.push({
+            date: parseDateWithFormat(row.completionTime, 'MPESA_COMPLETION_TIME') || '',
+            rawDate: row.completionTime,
+            description: row.details,
+            merchant: row.details,
+            amount: paidIn > 0 ? paidIn : withdrawn,
+            type: paidIn > 0 ? TransactionType.Income : TransactionType.Expense,
+            category: undefined,
+            balance: row.balance === null ? undefined : row.balance,
+            externalId: row.receiptNo,
+        });
+    });
+    return results;
+};
+
+/**
+ * Parses an M-PESA statement exported as CSV.
+ * @returns Completed transactions only, keyed by receipt number. Empty if the layout isn't recognised.
+ */
+export const parseMpesaStatementCsv = (text: string): ParsedTransaction[] => {
+    return toParsedTransactions(parseCsvRows(text));
+};
+
+/**
+ * Parses the lines of an M-PESA statement PDF (see pdfTextService.extractPdfLines).
+ * @returns Completed transactions only, keyed by receipt number. Empty if the layout isn't recognised.
+ */
+export const parseMpesaStatementLines = (lines: string[]): ParsedTransaction[] => {
+    return toParsedTransactions(parsePdfRows(lines));
+};
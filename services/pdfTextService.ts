@@ -0,0 +1,110 @@
+import type { PDFPageProxy, TextItem } from 'pdfjs-dist/types/src/display/api';
+
+// On-device text extraction from PDF statements, so layouts we know can be parsed without an AI call,
+// and page rendering for the ones that go to the AI.
+// pdfjs is loaded on demand to keep it out of the main bundle.
+
+// pdfjs reports PasswordException with code 1 (password needed) or 2 (incorrect password).
+export const isPdfPasswordError = (error: unknown): boolean => {
+    return !!error && typeof error === 'object' && (error as { name?: string }).name === 'PasswordException';
+};
+
+// Text items whose baselines are this close (in PDF units) belong to the same printed line.
+const LINE_TOLERANCE = 2;
+
+const groupItemsIntoLines = (items: TextItem[]): string[] => {
+    const lines: { y: number; items: TextItem[] }[] = [];
+
+    items.forEach(item => {
+        if (!item.str.trim()) return;
+        const y = item.transform[5];
+        const line = lines.find(l => Math.abs(l.y - y) <= LINE_TOLERANCE);
+        if (line) line.items.push(item);
+        else lines.push({ y, items: [item] });
+    });
+
+    // PDF y coordinates grow upwards, so the top of the page comes first when sorted descending.
+    return lines
+        .sort((a, b) => b.y - a.y)
+        .map(line => line.items
+            .sort((a, b) => a.transform[4] - b.transform[4])
+            .map(item => item.str.trim())
+            .join(' '));
+};
+
+const loadPdfjs = async () => {
+    const pdfjs = await import('pdfjs-dist');
+    if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+        pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+    }
+    return pdfjs;
+};
+
+/**
+ * Extracts the text of every page as printed lines, top to bottom.
+ * @param password Needed for protected statements (M-PESA uses the account holder's ID number).
+ * @returns One array of lines per page. Scanned documents come back with empty pages.
+ */
+export const extractPdfLines = async (file: File, password?: string): Promise<string[][]> => {
+    const pdfjs = await loadPdfjs();
+    const data = new Uint8Array(await file.arrayBuffer());
+    const pdf = await pdfjs.getDocument({ data, password: password || undefined }).promise;
+
+    try {
+        const pages: string[][] = [];
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            const page = await pdf.getPage(pageNumber);
+            const content = await page.getTextContent();
+            const items = content.items.filter((item): item is TextItem => 'str' in item);
+            pages.push(groupItemsIntoLines(items));
+        }
+        return pages;
+    } finally {
+        pdf.destroy();
+    }
+};
+
+const renderPage = async (page: PDFPageProxy, maxSize: number): Promise<HTMLCanvasElement> => {
+    const unscaled = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: maxSize / Math.max(unscaled.width, unscaled.height) });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+    await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+    return canvas;
+};
+
+/**
+ * Draws the first page onto a canvas no larger than `maxSize` on either side, e.g. for a thumbnail.
+ */
+export const renderFirstPdfPage = async (file: File, maxSize: number): Promise<HTMLCanvasElement> => {
+    const pdfjs = await loadPdfjs();
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    try {
+        return await renderPage(await pdf.getPage(1), maxSize);
+    } finally {
+        pdf.destroy();
+    }
+};
+
+/**
+ * Renders every page to a JPEG no larger than `maxSize` on either side, keeping the printed layout
+ * (columns, alignment) that extracted text loses.
+ */
+export const renderPdfPages = async (file: File, maxSize: number, password?: string): Promise<Blob[]> => {
+    const pdfjs = await loadPdfjs();
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()), password: password || undefined }).promise;
+    try {
+        const images: Blob[] = [];
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            const canvas = await renderPage(await pdf.getPage(pageNumber), maxSize);
+            images.push(await new Promise<Blob>((resolve, reject) => canvas.toBlob(
+                blob => blob ? resolve(blob) : reject(new Error(`Failed to render page ${pageNumber}.`)),
+                'image/jpeg', 0.85,
+            )));
+        }
+        return images;
+    } finally {
+        pdf.destroy();
+    }
+};
@@ -0,0 +1,315 @@
+import { RemoteSyncSettings, SyncChange, SyncCollection, SyncFieldConflict, SyncFieldStamp, SyncRecordMeta } from '../types';
+import { createId } from './idService';
+
+// Shares a ledger between devices through a change-log server (server/syncServer.mjs).
+// Every local edit becomes a record-level change listing only the fields it touched, stamped with a
+// hybrid logical clock. Devices apply each other's changes field by field: the later clock wins, so
+// two people editing different fields of the same transaction both keep their edit. When both
+// changed the same field without having seen the other's edit, the later one is kept and the pair is
+// recorded as a conflict for review.
+// Not to be confused with syncService, which keeps tabs of one browser in step.
+
+export const SYNC_COLLECTIONS: SyncCollection[] = ['accounts', 'transactions', 'budgets', 'debts', 'chamas', 'loyaltyCards', 'categories'];
+
+// Marks a record as deleted (true) or present (false). Resolved like any other field.
+export const DELETED_FIELD = '$deleted';
+
+export type SyncCollections = Record<SyncCollection, unknown[]>;
+
+export const createLedgerId = () => createId();
+
+export const metaKey = (collection: SyncCollection, recordId: string) => `${collection}:${recordId}`;
+
+// --- CLOCK ---
+
+// `${ms}-${counter}-${deviceId}`, zero-padded so clocks compare correctly as strings. The counter
+// orders changes made in the same millisecond; the device ID breaks ties between devices.
+let lastMs = 0;
+let lastCounter = 0;
+
+const formatClock = (ms: number, counter: number, deviceId: string) => `${String(ms).padStart(13, '0')}-${String(counter).padStart(4, '0')}-${deviceId}`;
+
+/**
+ * A clock later than every clock this device has made or seen, even if its system time is behind.
+ */
+export const nextClock = (deviceId: string, now = Date.now()): string => {
+    if (now > lastMs) {
+        lastMs = now;
+        lastCounter = 0;
+    } else {
+        lastCounter++;
+    }
+    return formatClock(lastMs, lastCounter, deviceId);
+};
+
+/**
+ * Moves this device's clock past one it received.
+ */
+export const observeClock = (clock: string) => {
+    const [ms, counter] = clock.split('-').map(Number);
+    if (ms > lastMs || (ms === lastMs && counter > lastCounter)) {
+        lastMs = ms;
+        lastCounter = counter;
+    }
+};
+
+// --- LOCAL CHANGES ---
+
+type SyncRecord = { id: string } & Record<string, unknown>;
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Categories are plain names; every other collection holds records with ids.
+const toRecordMap = (collection: SyncCollection, items: unknown[]): Map<string, SyncRecord | null> => {
+    if (collection === 'categories') return new Map((items as string[]).map(name => [name, null]));
+    return new Map((items as SyncRecord[]).map(record => [record.id, record]));
+};
+
+const recordFields = (record: SyncRecord | null): Record<string, unknown> => {
+    if (!record) return {};
+    const { id, ...fields } = record;
+    return fields;
+};
+
+/**
+ * The record-level changes between two versions of a collection, without clocks. Only fields whose
+ * values differ are listed; a field that was removed is listed as null.
+ */
+export const diffForSync = (collection: SyncCollection, before: unknown[], after: unknown[]): { recordId: string; fields: Record<string, unknown> }[] => {
+    if (before === after) return [];
+    const beforeById = toRecordMap(collection, before || []);
+    const afterById = toRecordMap(collection, after || []);
+    const changes: { recordId: string; fields: Record<string, unknown> }[] = [];
+
+    afterById.forEach((record, recordId) => {
+        if (!beforeById.has(recordId)) {
+            changes.push({ recordId, fields: { ...recordFields(record), [DELETED_FIELD]: false } });
+            return;
+        }
+        const previous = beforeById.get(recordId);
+        if (previous === record) return;
+        const oldFields = recordFields(previous!);
+        const newFields = recordFields(record);
+        const fields: Record<string, unknown> = {};
+        new Set([...Object.keys(oldFields), ...Object.keys(newFields)]).forEach(field => {
+            if (!sameValue(oldFields[field], newFields[field])) fields[field] = newFields[field] ?? null;
+        });
+        if (Object.keys(fields).length > 0) changes.push({ recordId, fields });
+    });
+    beforeById.forEach((_, recordId) => {
+        if (!afterById.has(recordId)) changes.push({ recordId, fields: { [DELETED_FIELD]: true } });
+    });
+    return changes;
+};
+
+/**
+ * Every record in the collections as a creation, for a device joining a ledger with data of its own.
+ */
+export const snapshotForSync = (collections: SyncCollections) => SYNC_COLLECTIONS.flatMap(collection =>
+    diffForSync(collection, [], collections[collection]).map(change => ({ ...change, collection })));
+
+/**
+ * Stamps a local change, and returns the record's bookkeeping updated to say this device wrote those fields.
+ */
+export const stampLocalChange = (
+    collection: SyncCollection, recordId: string, fields: Record<string, unknown>,
+    settings: RemoteSyncSettings, baseSeq: number, meta: SyncRecordMeta | undefined,
+): { change: SyncChange; meta: SyncRecordMeta } => {
+    const change: SyncChange = { id: createId(), deviceId: settings.deviceId, collection, recordId, fields, clock: nextClock(settings.deviceId), baseSeq };
+    const stamps = { ...(meta?.fields || {}) };
+    Object.keys(fields).forEach(field => { stamps[field] = { clock: change.clock, changeId: change.id, baseSeq }; });
+    return { change, meta: { id: metaKey(collection, recordId), fields: stamps } };
+};
+
+/**
+ * Notes the server's sequence number on the fields a pushed change wrote, so later changes from other
+ * devices can tell whether they had seen it.
+ */
+export const acknowledgeChange = (meta: SyncRecordMeta | undefined, changeId: string, seq: number): SyncRecordMeta | null => {
+    if (!meta) return null;
+    let changed = false;
+    const fields: Record<string, SyncFieldStamp> = {};
+    Object.entries(meta.fields).forEach(([field, stamp]) => {
+        if (stamp.changeId === changeId && stamp.seq !== seq) {
+            fields[field] = { ...stamp, seq };
+            changed = true;
+        } else {
+            fields[field] = stamp;
+        }
+    });
+    return changed ? { ...meta, fields } : null;
+};
+
+// --- REMOTE CHANGES ---
+
+export interface ApplyResult {
+    collections: Partial<SyncCollections>; // Only the collections that changed
+    meta: SyncRecordMeta[]; // Only the records whose bookkeeping changed
+    conflicts: SyncFieldConflict[];
+}
+
+const LABEL_FIELDS = ['merchant', 'name', 'person', 'provider', 'category'];
+
+export const recordLabel = (collection: SyncCollection, recordId: string, record: SyncRecord | null | undefined): string => {
+    if (collection === 'categories') return recordId;
+    const field = LABEL_FIELDS.find(name => typeof record?.[name] === 'string' && record[name]);
+    return field ? String(record![field]) : recordId;
+};
+
+/**
+ * Applies changes pulled from the server, in log order, to the current collections.
+ * @param meta Bookkeeping for every record, by metaKey.
+ */
+export const applyRemoteChanges = (
+    collections: SyncCollections, meta: Map<string, SyncRecordMeta>, changes: SyncChange[], deviceId: string,
+): ApplyResult => {
+    const working = new Map<SyncCollection, Map<string, SyncRecord | null>>();
+    const updatedMeta = new Map<string, SyncRecordMeta>();
+    const conflicts: SyncFieldConflict[] = [];
+    const detectedAt = new Date().toISOString();
+
+    const recordsOf = (collection: SyncCollection) => {
+        let records = working.get(collection);
+        if (!records) {
+            records = toRecordMap(collection, collections[collection] || []);
+            working.set(collection, records);
+        }
+        return records;
+    };
+    const metaOf = (key: string) => updatedMeta.get(key) ?? meta.get(key);
+
+    changes.forEach(change => {
+        observeClock(change.clock);
+        const key = metaKey(change.collection, change.recordId);
+        if (change.deviceId === deviceId) {
+            // Our own change coming back; it is already applied here, but the push may not have been acknowledged.
+            const acknowledged = change.seq ? acknowledgeChange(metaOf(key), change.id, change.seq) : null;
+            if (acknowledged) updatedMeta.set(key, acknowledged);
+            return;
+        }
+
+        const records = recordsOf(change.collection);
+        const exists = records.has(change.recordId);
+        const record = records.get(change.recordId) ?? null;
+        const stamps = { ...(metaOf(key)?.fields || {}) };
+        const won: Record<string, unknown> = {};
+
+        Object.entries(change.fields).forEach(([field, value]) => {
+            const local = stamps[field];
+            const remoteWins = !local || change.clock > local.clock;
+            // Our edit to this field that the other device hadn't pulled when it made its own.
+            const concurrent = !!local?.changeId && (local.seq === undefined || local.seq > change.baseSeq);
+            if (concurrent && field !== DELETED_FIELD && exists && record) {
+                const localValue = record[field] ?? null;
+                if (!sameValue(localValue, value)) {
+                    conflicts.push({
+                        id: `${key}:${field}`,
+                        collection: change.collection,
+                        recordId: change.recordId,
+                        field,
+                        recordLabel: recordLabel(change.collection, change.recordId, record),
+                        keptValue: remoteWins ? value : localValue,
+                        otherValue: remoteWins ? localValue : value,
+                        keptFrom: remoteWins ? 'other_device' : 'this_device',
+                        detectedAt,
+                    });
+                }
+            }
+            if (remoteWins) {
+                stamps[field] = { clock: change.clock };
+                won[field] = value;
+            }
+        });
+        updatedMeta.set(key, { id: key, fields: stamps });
+
+        if (won[DELETED_FIELD] === true) {
+            records.delete(change.recordId);
+        } else if (exists) {
+            if (change.collection === 'categories' || Object.keys(won).length === 0) return;
+            const next: SyncRecord = { ...record!, id: change.recordId };
+            Object.entries(won).forEach(([field, value]) => {
+                if (field === DELETED_FIELD) return;
+                if (value === null) delete next[field];
+                else next[field] = value;
+            });
+            records.set(change.recordId, next);
+        } else if (won[DELETED_FIELD] === false) {
+            // Created (or restored) on the other device. Edits to a record deleted here don't bring it back.
+            if (change.collection === 'categories') {
+                records.set(change.recordId, null);
+                return;
+            }
+            const next: SyncRecord = { id: change.recordId };
+            Object.entries(won).forEach(([field, value]) => {
+                if (field !== DELETED_FIELD && value !== null) next[field] = value;
+            });
+            records.set(change.recordId, next);
+        }
+    });
+
+    // Rebuilt in the current order, so untouched records keep their identity and aren't rewritten.
+    const result: Partial<SyncCollections> = {};
+    working.forEach((records, collection) => {
+        const current = collections[collection] || [];
+        if (collection === 'categories') {
+            const names = current as string[];
+            const next = [...names.filter(name => records.has(name)), ...Array.from(records.keys()).filter(name => !names.includes(name)).sort()];
+            if (!sameValue(next, names)) result[collection] = next;
+            return;
+        }
+        const currentRecords = current as SyncRecord[];
+        const seen = new Set<string>();
+        let changed = false;
+        const next = currentRecords.flatMap(item => {
+            seen.add(item.id);
+            const replacement = records.get(item.id);
+            if (replacement !== item) changed = true;
+            return replacement ? [replacement] : [];
+        });
+        records.forEach((record, id) => {
+            if (!seen.has(id) && record) {
+                next.push(record);
+                changed = true;
+            }
+        });
+        if (changed) result[collection] = next;
+    });
+
+    return { collections: result, meta: Array.from(updatedMeta.values()), conflicts };
+};
+
+// --- SERVER ---
+
+const PULL_PAGE = 500;
+
+const request = async <T>(settings: RemoteSyncSettings, path: string, init?: RequestInit): Promise<T> => {
+    const base = settings.serverUrl.replace(/\/+$/, '');
+    let response: Response;
+    try {
+        response = await fetch(`${base}/ledgers/${encodeURIComponent(settings.ledgerId)}${path}`, {
+            ...init,
+            headers: { 'Content-Type': 'application/json', ...(settings.serverToken ? { Authorization: `Bearer ${settings.serverToken}` } : {}) },
+        });
+    } catch {
+        throw new Error(`Couldn't reach the sync server at ${base}.`);
+    }
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(body.error || `The sync server returned ${response.status}.`);
+    return body as T;
+};
+
+/**
+ * Sends queued changes. Safe to retry: the server ignores changes it already has.
+ * @returns The server's sequence number for each change, in order.
+ */
+export const pushChanges = async (settings: RemoteSyncSettings, changes: SyncChange[]): Promise<number[]> => {
+    const { seqs } = await request<{ seqs: number[] }>(settings, '/changes', { method: 'POST', body: JSON.stringify({ changes }) });
+    return seqs;
+};
+
+/**
+ * Fetches the next page of the ledger's log after `since`.
+ */
+export const pullChanges = (settings: RemoteSyncSettings, since: number): Promise<{ changes: SyncChange[]; cursor: number; hasMore: boolean }> => {
+    return request(settings, `/changes?since=${since}&limit=${PULL_PAGE}`);
+};
@@ -0,0 +1,260 @@
+import { Account, AccountType, Budget, CategorizationExample, Chama, Debt, GOAL_LABELS, ImportBatch, ImportProfile, LoyaltyCard, MigrationReport, QuarantinedRecord, Transaction, TransactionType, UserProfile } from '../types';
+import { DEFAULT_CATEGORIES } from '../constants';
+import { createId, rekeyId } from './idService';
+
+// Versioned upgrades for everything the app persists.
+// Version 1 is the unversioned data written before this existed. Each step upgrades one version to the
+// next; afterwards every record is checked against the current types, and anything that still doesn't fit
+// is quarantined with the reason instead of being dropped.
+
+export const SCHEMA_VERSION = 3;
+
+// Everything persisted, as read from storage before any upgrade. Nothing is known about its shape
+// until it has been upgraded and validated.
+export interface PersistedData {
+    transactions: unknown[];
+    accounts: unknown[];
+    budgets: unknown[];
+    debts: unknown[];
+    chamas: unknown[];
+    loyaltyCards: unknown[];
+    categories: unknown[];
+    categorizationExamples: unknown[];
+    importProfiles: unknown[];
+    importBatches: unknown[];
+    dismissedDuplicates: unknown[];
+    userProfile: unknown;
+}
+
+// A stored object part way through an upgrade.
+type PersistedRecord = Record<string, unknown>;
+
+export interface CurrentData {
+    transactions: Transaction[];
+    accounts: Account[];
+    budgets: Budget[];
+    debts: Debt[];
+    chamas: Chama[];
+    loyaltyCards: LoyaltyCard[];
+    categories: string[];
+    categorizationExamples: CategorizationExample[];
+    importProfiles: ImportProfile[];
+    importBatches: ImportBatch[];
+    dismissedDuplicates: string[];
+    userProfile: UserProfile | null;
+}
+
+export type CollectionName = Exclude<keyof PersistedData, 'userProfile'>;
+
+const COLLECTIONS: CollectionName[] = ['transactions', 'accounts', 'budgets', 'debts', 'chamas', 'loyaltyCards', 'categories', 'categorizationExamples', 'importProfiles', 'importBatches', 'dismissedDuplicates'];
+
+// --- STEPS ---
+
+const isObject = (value: unknown): value is PersistedRecord => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toNumber = (value: unknown): unknown => {
+    if (typeof value !== 'string') return value;
+    const parsed = parseFloat(value.replace(/[^0-9.-]+/g, ''));
+    return isNaN(parsed) ? value : parsed;
+};
+
+const normaliseKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+const DEFAULT_BY_KEY = new Map(DEFAULT_CATEGORIES.map(category => [normaliseKey(category), category]));
+
+// Category used to be an enum; old records can hold its keys ("EATING_OUT") rather than the display names.
+const upgradeCategory = (value: unknown): unknown => {
+    if (typeof value !== 'string') return value;
+    return DEFAULT_BY_KEY.get(normaliseKey(value)) || value;
+};
+
+const upgradeRecord = (record: unknown, changes: (record: PersistedRecord) => PersistedRecord): unknown => {
+    return isObject(record) ? changes(record) : record;
+};
+
+// v1 -> v2: string categories, budgets with strategy/status, and numbers that were saved as text.
+const upgradeToV2 = (data: PersistedData): PersistedData => ({
+    ...data,
+    transactions: data.transactions.map(record => upgradeRecord(record, t => {
+        const category = upgradeCategory(t.category);
+        return {
+            ...t,
+            amount: toNumber(t.amount),
+            type: typeof t.type === 'string' ? t.type.toLowerCase() : t.type,
+            category,
+            date: typeof t.date === 'string' && t.date.length > 10 ? t.date.slice(0, 10) : t.date,
+            isTransfer: t.isTransfer ?? (category === 'Internal Transfer' ? true : undefined),
+        };
+    })),
+    accounts: data.accounts.map(record => upgradeRecord(record, a => ({ ...a, initialBalance: toNumber(a.initialBalance ?? 0) }))),
+    budgets: data.budgets.map(record => upgradeRecord(record, b => ({
+        ...b,
+        category: upgradeCategory(b.category),
+        limit: toNumber(b.limit),
+        period: b.period ?? 'monthly',
+        strategy: b.strategy ?? 'custom',
+        status: b.status ?? 'active',
+    }))),
+    debts: data.debts.map(record => upgradeRecord(record, d => ({ ...d, amount: toNumber(d.amount) }))),
+    chamas: data.chamas.map(record => upgradeRecord(record, c => ({ ...c, myContribution: toNumber(c.myContribution), cycleTotal: toNumber(c.cycleTotal ?? 0) }))),
+    loyaltyCards: data.loyaltyCards.map(record => upgradeRecord(record, c => ({ ...c, points: toNumber(c.points) }))),
+    categories: data.categories.map(upgradeCategory),
+    categorizationExamples: data.categorizationExamples.map(record => upgradeRecord(record, e => ({ ...e, category: upgradeCategory(e.category) }))),
+});
+
+// v2 -> v3: ULIDs for every record (see idService), with references rewritten to match.
+// rekeyId is deterministic, so a reference is rewritten correctly even when its target is missing.
+const rekey = (scope: string, id: unknown, fallbackTime?: number) => typeof id === 'string' && id ? rekeyId(scope, id, fallbackTime) : id;
+const dateTime = (date: unknown) => typeof date === 'string' && !isNaN(Date.parse(date)) ? Date.parse(date) : 0;
+
+const upgradeToV3 = (data: PersistedData): PersistedData => {
+    const rekeyCard = (card: unknown) => upgradeRecord(card, c => ({ ...c, id: rekey('loyaltyCards', c.id, dateTime(c.lastUpdated)) }));
+    return {
+        ...data,
+        transactions: data.transactions.map(record => upgradeRecord(record, t => ({
+            ...t,
+            id: rekey('transactions', t.id, dateTime(t.date)),
+            accountId: rekey('accounts', t.accountId),
+            importBatchId: t.importBatchId === undefined ? undefined : rekey('importBatches', t.importBatchId),
+        }))),
+        accounts: data.accounts.map(record => upgradeRecord(record, a => ({ ...a, id: rekey('accounts', a.id) }))),
+        budgets: data.budgets.map(record => upgradeRecord(record, b => ({ ...b, id: rekey('budgets', b.id) }))),
+        debts: data.debts.map(record => upgradeRecord(record, d => ({ ...d, id: rekey('debts', d.id) }))),
+        chamas: data.chamas.map(record => upgradeRecord(record, c => ({ ...c, id: rekey('chamas', c.id) }))),
+        loyaltyCards: data.loyaltyCards.map(rekeyCard),
+        importProfiles: data.importProfiles.map(record => upgradeRecord(record, p => ({
+            ...p,
+            id: rekey('importProfiles', p.id, dateTime(p.createdAt)),
+            accountId: rekey('accounts', p.accountId),
+        }))),
+        importBatches: data.importBatches.map(record => upgradeRecord(record, b => ({
+            ...b,
+            id: rekey('importBatches', b.id, dateTime(b.createdAt)),
+            accountId: rekey('accounts', b.accountId),
+            loyaltyCardChanges: Array.isArray(b.loyaltyCardChanges) ? b.loyaltyCardChanges.map((change: unknown) => upgradeRecord(change, c => ({
+                ...c,
+                cardId: rekey('loyaltyCards', c.cardId),
+                previous: c.previous ? rekeyCard(c.previous) : c.previous,
+                applied: rekeyCard(c.applied),
+            }))) : b.loyaltyCardChanges,
+        }))),
+        // Dismissed pairs are "idA|idB" with the IDs sorted, like duplicatePairKey.
+        dismissedDuplicates: data.dismissedDuplicates.map(key => typeof key === 'string'
+            ? key.split('|').map(id => rekey('transactions', id)).sort().join('|')
+            : key),
+    };
+};
+
+// Keyed by the version each step upgrades from. Steps map record for record (no filtering or reordering),
+// so the runner can line each result up with the original it came from.
+const MIGRATIONS: Record<number, (data: PersistedData) => PersistedData> = {
+    1: upgradeToV2,
+    2: upgradeToV3,
+};
+
+// --- VALIDATION (current types) ---
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNonEmpty = (value: unknown) => isString(value) && value.trim() !== '';
+const isFiniteNumber = (value: unknown) => typeof value === 'number' && isFinite(value);
+
+// Each check returns why a record doesn't fit, or null when it does.
+const requireFields = (record: unknown, checks: [string, (value: unknown) => boolean][]): string | null => {
+    if (!isObject(record)) return 'Not an object';
+    const failed = checks.find(([field, check]) => !check(record[field]));
+    return failed ? `Invalid or missing "${failed[0]}"` : null;
+};
+
+const oneOf = (values: readonly unknown[]) => (value: unknown) => values.includes(value);
+
+const VALIDATORS: Record<CollectionName, (record: unknown) => string | null> = {
+    transactions: t => requireFields(t, [
+        ['id', isNonEmpty], ['accountId', isNonEmpty], ['date', value => isString(value) && /^\d{4}-\d{2}-\d{2}$/.test(value)],
+        ['merchant', isString], ['amount', isFiniteNumber], ['type', oneOf(Object.values(TransactionType))],
+        ['category', isNonEmpty], ['description', isString],
+    ]),
+    accounts: a => requireFields(a, [['id', isNonEmpty], ['name', isString], ['type', oneOf(Object.values(AccountType))], ['initialBalance', isFiniteNumber]]),
+    budgets: b => requireFields(b, [
+        ['id', isNonEmpty], ['category', isNonEmpty], ['limit', isFiniteNumber], ['period', oneOf(['monthly', 'weekly'])],
+        ['strategy', oneOf(['aggressive', 'moderate', 'maintain', 'increase', 'custom'])], ['status', oneOf(['proposed', 'active', 'archived'])],
+    ]),
+    debts: d => requireFields(d, [['id', isNonEmpty], ['person', isString], ['amount', isFiniteNumber], ['type', oneOf(['owed_to_me', 'owed_by_me'])]]),
+    chamas: c => requireFields(c, [['id', isNonEmpty], ['name', isString], ['myContribution', isFiniteNumber], ['cycleTotal', isFiniteNumber]]),
+    loyaltyCards: c => requireFields(c, [['id', isNonEmpty], ['provider', isString], ['points', isFiniteNumber], ['lastUpdated', isString]]),
+    categories: c => isNonEmpty(c) ? null : 'Category is not a name',
+    categorizationExamples: e => requireFields(e, [['description', isString], ['category', isNonEmpty]]),
+    importProfiles: p => requireFields(p, [['id', isNonEmpty], ['accountId', isNonEmpty], ['headerFingerprint', isString], ['columns', isObject]]),
+    importBatches: b => requireFields(b, [['id', isNonEmpty], ['accountId', isNonEmpty], ['createdAt', isString]]),
+    dismissedDuplicates: k => isString(k) && k.includes('|') ? null : 'Not a pair of transaction IDs',
+};
+
+const validateUserProfile = (profile: unknown) => requireFields(profile, [['name', isString], ['primaryGoal', oneOf(Object.keys(GOAL_LABELS))]]);
+
+// --- RUNNER ---
+
+export interface MigrationResult {
+    data: CurrentData;
+    quarantined: QuarantinedRecord[];
+    report: MigrationReport;
+}
+
+/**
+ * Upgrades persisted data from `fromVersion` to SCHEMA_VERSION, then validates it.
+ * Records that fail validation are moved to `quarantined`; the report counts what changed per collection.
+ */
+export const migratePersistedData = (original: PersistedData, fromVersion: number): MigrationResult => {
+    let data = original;
+    for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+        data = MIGRATIONS[version](data);
+    }
+
+    const now = new Date().toISOString();
+    const quarantined: QuarantinedRecord[] = [];
+    const changes: string[] = [];
+    let upgradedCount = 0;
+
+    const quarantine = (collection: string, record: unknown, reason: string) => {
+        quarantined.push({ id: createId(), collection, record, reason, schemaVersion: fromVersion, quarantinedAt: now });
+    };
+
+    const valid = {} as Record<CollectionName, unknown[]>;
+    COLLECTIONS.forEach(collection => {
+        const before = original[collection];
+        let upgraded = 0;
+        let setAside = 0;
+        valid[collection] = data[collection].filter((record, index) => {
+            const reason = VALIDATORS[collection](record);
+            if (reason) {
+                // The original is kept, not the half-upgraded copy, so nothing is lost if a later fix can handle it.
+                quarantine(collection, before[index], reason);
+                setAside++;
+                return false;
+            }
+            if (JSON.stringify(record) !== JSON.stringify(before[index])) upgraded++;
+            return true;
+        });
+        upgradedCount += upgraded;
+        if (upgraded > 0 || setAside > 0) {
+            changes.push(`${collection}: ${[upgraded > 0 && `${upgraded} upgraded`, setAside > 0 && `${setAside} quarantined`].filter(Boolean).join(', ')}`);
+        }
+    });
+
+    // Old enum keys and their display names can both be present; after upgrading they are the same category.
+    valid.categories = Array.from(new Set(valid.categories));
+
+    let userProfile: UserProfile | null = null;
+    if (data.userProfile) {
+        const reason = validateUserProfile(data.userProfile);
+        if (reason) {
+            quarantine('userProfile', original.userProfile, reason);
+            changes.push('userProfile: quarantined');
+        } else {
+            userProfile = data.userProfile as UserProfile;
+        }
+    }
+
+    return {
+        data: { ...(valid as unknown as Omit<CurrentData, 'userProfile'>), userProfile },
+        quarantined,
+        report: { fromVersion, toVersion: SCHEMA_VERSION, changes, upgradedCount, quarantinedCount: quarantined.length, ranAt: now },
+    };
+};
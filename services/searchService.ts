@@ -0,0 +1,140 @@
+import { Account, AmountComparison, Transaction, TransactionSearch, TransactionType } from '../types';
+import { transactionCategories } from './splitService';
+import { normalizeTag } from './tagService';
+
+// The search box's query language: free words plus `key:value` filters, e.g.
+//   naivas category:Groceries amount>1000 account:"M-PESA" before:2025-10-01 tag:work type:income
+// Values with spaces go in double quotes. Text, merchant, category and account match
+// case-insensitively on part of the value; tags and types match exactly.
+
+export interface ParsedSearch {
+    search: TransactionSearch;
+    errors: string[]; // Parts that couldn't be understood; the rest of the query still applies
+}
+
+const FILTER_KEYS = ['merchant', 'category', 'account', 'tag', 'type', 'amount', 'before', 'after', 'on'] as const;
+type FilterKey = typeof FILTER_KEYS[number];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const emptySearch = (): TransactionSearch => ({ text: [], merchants: [], categories: [], accounts: [], tags: [], types: [], amounts: [] });
+
+/**
+ * Splits a query into terms, keeping quoted values together: `account:"M-PESA Till" x` gives
+ * `account:M-PESA Till` and `x`.
+ */
+const tokenize = (query: string): string[] => {
+    const tokens: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (const char of query) {
+        if (char === '"') {
+            quoted = !quoted;
+        } else if (/\s/.test(char) && !quoted) {
+            if (current) tokens.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    if (current) tokens.push(current);
+    return tokens;
+};
+
+const isFilterKey = (key: string): key is FilterKey => (FILTER_KEYS as readonly string[]).includes(key);
+
+/**
+ * Reads a search box query into a filter.
+ */
+export const parseSearchQuery = (query: string): ParsedSearch => {
+    const search = emptySearch();
+    const errors: string[] = [];
+
+    tokenize(query).forEach(token => {
+        // amount>1000, amount<=50, amount=250
+        const amountMatch = token.match(/^amount(>=|<=|>|<|=|:)(.*)$/i);
+        if (amountMatch) {
+            const value = parseFloat(amountMatch[2].replace(/,/g, ''));
+            if (isNaN(value)) errors.push(`"${token}" needs a number, e.g. amount>1000.`);
+            else search.amounts.push({ comparison: (amountMatch[1] === ':' ? '=' : amountMatch[1]) as AmountComparison, value });
+            return;
+        }
+
+        const separator = token.indexOf(':');
+        const key = separator > 0 ? token.slice(0, separator).toLowerCase() : '';
+        if (!isFilterKey(key)) {
+            search.text.push(token.toLowerCase());
+            return;
+        }
+        const value = token.slice(separator + 1).trim();
+        if (!value) {
+            errors.push(`"${key}:" needs a value.`);
+            return;
+        }
+
+        switch (key) {
+            case 'merchant': search.merchants.push(value.toLowerCase()); break;
+            case 'category': search.categories.push(value.toLowerCase()); break;
+            case 'account': search.accounts.push(value.toLowerCase()); break;
+            case 'tag': search.tags.push(normalizeTag(value)); break;
+            case 'type': {
+                const type = value.toLowerCase();
+                if (type === TransactionType.Income || type === TransactionType.Expense) search.types.push(type as TransactionType);
+                else errors.push(`"${token}": type is income or expense.`);
+                break;
+            }
+            case 'before':
+            case 'after':
+            case 'on':
+                if (DATE_PATTERN.test(value)) search[key] = value;
+                else errors.push(`"${token}": dates are written YYYY-MM-DD.`);
+                break;
+        }
+    });
+
+    return { search, errors };
+};
+
+export const isEmptySearch = (search: TransactionSearch): boolean => {
+    return search.text.length + search.merchants.length + search.categories.length + search.accounts.length + search.tags.length
+        + search.types.length + search.amounts.length === 0 && !search.before && !search.after && !search.on;
+};
+
+const compareAmount = (amount: number, comparison: AmountComparison, value: number): boolean => {
+    switch (comparison) {
+        case '>': return amount > value;
+        case '>=': return amount >= value;
+        case '<': return amount < value;
+        case '<=': return amount <= value;
+        case '=': return amount === value;
+    }
+};
+
+const includesAny = (haystack: string, needles: string[]) => needles.length === 0 || needles.some(needle => haystack.includes(needle));
+
+/**
+ * Whether a transaction matches a search. Accounts are looked up by name, so they are needed here.
+ */
+export const matchesSearch = (tx: Transaction, search: TransactionSearch, accounts: Account[]): boolean => {
+    const merchant = (tx.merchant || '').toLowerCase();
+    const haystack = `${merchant} ${(tx.description || '').toLowerCase()} ${(tx.notes || '').toLowerCase()}`;
+    if (!search.text.every(word => haystack.includes(word))) return false;
+    if (!includesAny(merchant, search.merchants)) return false;
+    if (search.categories.length > 0 && !transactionCategories(tx).some(category => includesAny(category.toLowerCase(), search.categories))) return false;
+    if (search.accounts.length > 0) {
+        const accountName = (accounts.find(a => a.id === tx.accountId)?.name || '').toLowerCase();
+        if (!includesAny(accountName, search.accounts)) return false;
+    }
+    if (search.tags.length > 0 && !search.tags.some(tag => tx.tags?.includes(tag))) return false;
+    if (search.types.length > 0 && !search.types.includes(tx.type)) return false;
+    if (!search.amounts.every(({ comparison, value }) => compareAmount(tx.amount, comparison, value))) return false;
+    if (search.before && !(tx.date < search.before)) return false;
+    if (search.after && !(tx.date > search.after)) return false;
+    if (search.on && tx.date !== search.on) return false;
+    return true;
+};
+
+/**
+ * A filter term for a value, quoted when it has spaces, e.g. for adding `tag:"wedding 2026"` to a query.
+ */
+export const searchTerm = (key: FilterKey, value: string) => `${key}:${/\s/.test(value) ? `"${value}"` : value}`;
@@ -0,0 +1,275 @@
+import { ParsedTransaction, TransactionType } from '../types';
+import { parseAmountCell } from './csvImportService';
+import { parseDateWithFormat } from './dateParsingService';
+
+// On-device parser for M-PESA confirmation SMS, pasted in bulk or exported from a phone.
+// Descriptions are rewritten into the wording heuristicService already recognises,
+// so merchants and categories resolve the same way as statement rows.
+
+export interface SmsMessage {
+    body: string;
+    // YYYY-MM-DD the phone received the message, when the export records it.
+    receivedOn?: string;
+}
+
+export interface SmsParseResult {
+    // Oldest first, so the running balance can be checked in review.
+    transactions: ParsedTransaction[];
+    unrecognised: string[];
+    // Messages that were understood but don't move money on their own (e.g. Fuliza repayments).
+    skippedCount: number;
+}
+
+const MESSAGE_START = /\b[A-Z0-9]{10}\s+Confirmed/gi;
+const CODE = /^([A-Z0-9]{10})\s+Confirmed/i;
+const DATE_TIME = /on (\d{1,2}\/\d{1,2}\/\d{2,4}) at (\d{1,2}:\d{2}\s*[AP]M)/i;
+const BALANCE = /balance is Ksh\s?([\d,]+\.\d{2})/i;
+const TRANSACTION_COST = /Transaction cost,?\s*Ksh\s?([\d,]+\.\d{2})/i;
+const AMOUNT = 'Ksh\\s?([\\d,]+\\.\\d{2})';
+
+// Phone numbers trail the name on person-to-person messages ("JANE DOE 0722000000").
+const cleanParty = (party: string) => party.replace(/\s+(?:\+?254|0)[\d*]{6,}$/, '').replace(/\.$/, '').trim();
+
+const toNumber = (value: string) => parseAmountCell(value) || 0;
+
+type Template = {
+    pattern: RegExp;
+    build: (match: RegExpMatchArray) => { description: string; merchant: string; amount: number; type: TransactionType } | null;
+};
+
+// Order matters: Paybill messages also say "sent to", so they are tried before plain transfers.
+const TEMPLATES: Template[] = [
+    {
+        pattern: new RegExp(`You have received ${AMOUNT} from (.+?) on \\d`, 'i'),
+        build: m => ({ description: `Received from ${cleanParty(m[2])}`, merchant: cleanParty(m[2]), amount: toNumber(m[1]), type: TransactionType.Income }),
+    },
+    {
+        pattern: new RegExp(`Withdraw ${AMOUNT} from (.+?)\\s*New M-?PESA`, 'i'),
+        build: m => ({ description: `Withdrawal from Agent ${m[2].trim()}`, merchant: `Agent ${m[2].trim()}`, amount: toNumber(m[1]), type: TransactionType.Expense }),
+    },
+    {
+        pattern: new RegExp(`You bought ${AMOUNT} of airtime`, 'i'),
+        build: m => ({ description: 'Airtime Purchase', merchant: 'Safaricom Airtime', amount: toNumber(m[1]), type: TransactionType.Expense }),
+    },
+    {
+        pattern: new RegExp(`${AMOUNT} sent to (.+?) for account (.+?) on \\d`, 'i'),
+        build: m => ({ description: `Pay Bill to ${m[2].trim()} Acc No. ${m[3].trim()}`, merchant: m[2].trim(), amount: toNumber(m[1]), type: TransactionType.Expense }),
+    },
+    {
+        pattern: new RegExp(`${AMOUNT} paid to (.+?)\\.?\\s*on \\d`, 'i'),
+        build: m => ({ description: `Lipa na M-PESA to ${cleanParty(m[2])}`, merchant: cleanParty(m[2]), amount: toNumber(m[1]), type: TransactionType.Expense }),
+    },
+    {
+        pattern: new RegExp(`${AMOUNT} sent to (.+?) on \\d`, 'i'),
+        build: m => ({ description: `Sent to ${cleanParty(m[2])}`, merchant: cleanParty(m[2]), amount: toNumber(m[1]), type: TransactionType.Expense }),
+    },
+];
+
+const FULIZA_DRAW = new RegExp(`Fuliza M-?PESA amount is ${AMOUNT}`, 'i');
+const FULIZA_CHARGE = new RegExp(`(?:Interest|Access Fee) charged ${AMOUNT}`, 'i');
+const FULIZA_REPAYMENT = /used to (?:fully |partially )?pay your outstanding Fuliza/i;
+const REVERSAL = /revers(?:al|ed)/i;
+const REVERSED_CODE = /transaction ([A-Z0-9]{10})/i;
+const REVERSAL_AMOUNT = new RegExp(`${AMOUNT} is (credited|debited)`, 'i');
+
+/**
+ * Splits an SMS export into messages.
+ * Understands "SMS Backup & Restore" XML; anything else is treated as pasted text,
+ * split on blank lines and wherever a new "<code> Confirmed" begins.
+ */
+export const splitSmsDump = (text: string): SmsMessage[] => {
+    if (/<smses[\s>]/i.test(text)) {
+        const doc = new DOMParser().parseFromString(text, 'application/xml');
+        return Array.from(doc.getElementsByTagName('sms')).map(sms => {
+            const sentAt = parseInt(sms.getAttribute('date') || '', 10);
+            return {
+                body: sms.getAttribute('body') || '',
+                receivedOn: isNaN(sentAt) ? undefined : new Date(sentAt).toISOString().split('T')[0],
+            };
+        }).filter(message => message.body.trim() !== '');
+    }
+
+    // Blank lines always separate messages; within a block, long messages may wrap over several lines.
+    return text.split(/\n\s*\n/).flatMap(block => {
+        const starts = Array.from(block.matchAll(MESSAGE_START)).map(match => match.index!);
+        const bounds = starts[0] === 0 ? starts : [0, ...starts];
+        return bounds.map((start, i) => ({ body: block.slice(start, bounds[i + 1]).replace(/\s+/g, ' ').trim() }));
+    }).filter(message => message.body !== '');
+};
+
+/**
+ * Quick check used to route dropped files to this parser.
+ */
+export const looksLikeSmsDump = (text: string): boolean => {
+    return /<smses[\s>]/i.test(text) || /\b[A-Z0-9]{10}\s+Confirmed\b/i.test(text);
+};
+
+type ParsedSms =
+    | { kind: 'transactions'; code: string; sortKey: string; transactions: ParsedTransaction[] }
+    | { kind: 'fuliza'; code: string; receivedOn?: string; transaction: ParsedTransaction }
+    | { kind: 'reversal'; code: string; reversedCode?: string; sortKey: string; transaction: ParsedTransaction }
+    | { kind: 'skipped' }
+    | null;
+
+// "19/11/25" + "9:38 PM" -> "2025-11-19 21:38", so messages sort by when they happened.
+const toSortKey = (date: string, time: string) => {
+    const [, hours, minutes, meridiem] = time.match(/(\d{1,2}):(\d{2})\s*([AP]M)/i) || [];
+    const hour24 = (parseInt(hours, 10) % 12) + (/pm/i.test(meridiem || '') ? 12 : 0);
+    return `${date} ${String(hour24).padStart(2, '0')}:${minutes}`;
+};
+
+const parseMessage = ({ body, receivedOn }: SmsMessage): ParsedSms => {
+    const text = body.replace(/\s+/g, ' ').trim();
+    const code = text.match(CODE)?.[1]?.toUpperCase();
+    if (!code) return null;
+
+    if (FULIZA_REPAYMENT.test(text)) return { kind: 'skipped' };
+
+    // Fuliza shares its code with the payment it covered. The borrowed amount is already inside that
+    // payment and the repayment only settles the overdraft, so the charge is the only new cost.
+    const fuliza = text.match(FULIZA_DRAW);
+    if (fuliza) {
+        const charge = toNumber(text.match(FULIZA_CHARGE)?.[1] || '');
+        if (charge <= 0) return { kind: 'skipped' };
+        return {
+            kind: 'fuliza',
+            code,
+            receivedOn,
+            transaction: {
+                date: receivedOn || '',
+                rawDate: '',
+                description: `Fuliza M-PESA charge on ${fuliza[1]}`,
+                merchant: 'Fuliza M-PESA',
+                amount: charge,
+                type: TransactionType.Expense,
+                category: undefined,
+                reference: code,
+                externalId: `${code}-FULIZA`,
+            },
+        };
+    }
+
+    const dateTime = text.match(DATE_TIME);
+    const rawDate = dateTime ? `${dateTime[1]} ${dateTime[2]}` : '';
+    const date = (rawDate && parseDateWithFormat(rawDate, 'DD/MM/YYYY')) || receivedOn || '';
+    const sortKey = date && dateTime ? toSortKey(date, dateTime[2]) : date;
+    const balanceMatch = text.match(BALANCE);
+    const balance = balanceMatch ? toNumber(balanceMatch[1]) : undefined;
+
+    if (REVERSAL.test(text)) {
+        const reversal = text.match(REVERSAL_AMOUNT);
+        if (!reversal) return null;
+        const reversedCode = text.match(REVERSED_CODE)?.[1]?.toUpperCase();
+        return {
+            kind: 'reversal',
+            code,
+            reversedCode,
+            sortKey,
+            transaction: {
+                date,
+                rawDate,
+                description: `Reversal of ${reversedCode || 'transaction'}`,
+                merchant: 'M-PESA Reversal',
+                amount: toNumber(reversal[1]),
+                type: /credited/i.test(reversal[2]) ? TransactionType.Income : TransactionType.Expense,
+                category: undefined,
+                balance,
+                reference: reversedCode,
+                externalId: code,
+            },
+        };
+    }
+
+    for (const template of TEMPLATES) {
+        const match = text.match(template.pattern);
+        const built = match && template.build(match);
+        if (!built || built.amount <= 0) continue;
+
+        const cost = toNumber(text.match(TRANSACTION_COST)?.[1] || '');
+        // The printed balance is after the cost, so the main row's balance sits before it.
+        const main: ParsedTransaction = {
+            ...built,
+            date,
+            rawDate,
+            category: undefined,
+            balance: balance !== undefined && cost > 0 ? balance + cost : balance,
+            reference: code,
+            externalId: code,
+        };
+        const transactions = [main];
+        if (cost > 0) {
+            transactions.push({
+                date,
+                rawDate,
+                description: 'M-PESA Transaction Cost',
+                merchant: 'Safaricom M-PESA',
+                amount: cost,
+                type: TransactionType.Expense,
+                category: undefined,
+                balance,
+                reference: code,
+                externalId: `${code}-COST`,
+            });
+        }
+        return { kind: 'transactions', code, sortKey, transactions };
+    }
+    return null;
+};
+
+/**
+ * Parses every M-PESA confirmation in a dump.
+ * Duplicate messages are dropped by code. A reversal whose original is in the same dump is paired with it
+ * as an internal transfer, so neither inflates income or spending while the balance still adds up.
+ */
+export const parseSmsDump = (text: string): SmsParseResult => {
+    const parsed = splitSmsDump(text).map(message => ({ message, result: parseMessage(message) }));
+    const unrecognised = parsed.filter(p => p.result === null).map(p => p.message.body);
+    let skippedCount = parsed.filter(p => p.result?.kind === 'skipped').length;
+
+    const rows: { sortKey: string; transactions: ParsedTransaction[] }[] = [];
+    const rowsByCode = new Map<string, { sortKey: string; transactions: ParsedTransaction[] }>();
+    const reversals: Extract<ParsedSms, { kind: 'reversal' }>[] = [];
+    const fulizaCharges: Extract<ParsedSms, { kind: 'fuliza' }>[] = [];
+
+    parsed.forEach(({ result }) => {
+        if (!result || result.kind === 'skipped') return;
+        if (result.kind === 'reversal') reversals.push(result);
+        else if (result.kind === 'fuliza') fulizaCharges.push(result);
+        else if (rowsByCode.has(result.code)) skippedCount++;
+        else {
+            const row = { sortKey: result.sortKey, transactions: result.transactions };
+            rowsByCode.set(result.code, row);
+            rows.push(row);
+        }
+    });
+
+    reversals.forEach(reversal => {
+        if (rowsByCode.has(reversal.code)) return;
+        const original = reversal.reversedCode ? rowsByCode.get(reversal.reversedCode) : undefined;
+        if (original) {
+            // The transaction cost isn't refunded, so only the main row is paired.
+            original.transactions[0] = { ...original.transactions[0], category: 'Internal Transfer' };
+        }
+        const transaction = original ? { ...reversal.transaction, category: 'Internal Transfer' } : reversal.transaction;
+        const row = { sortKey: reversal.sortKey, transactions: [transaction] };
+        rowsByCode.set(reversal.code, row);
+        rows.push(row);
+    });
+
+    const seenFuliza = new Set<string>();
+    fulizaCharges.forEach(fuliza => {
+        if (seenFuliza.has(fuliza.code)) return;
+        seenFuliza.add(fuliza.code);
+        // The charge takes its date from the payment it covered, when that message is in the dump.
+        const payment = rowsByCode.get(fuliza.code);
+        const date = payment?.transactions[0]?.date || fuliza.receivedOn || '';
+        rows.push({ sortKey: payment ? `${payment.sortKey}~` : date, transactions: [{ ...fuliza.transaction, date }] });
+    });
+
+    const transactions = rows
+        .filter(row => row.transactions.length > 0)
+        .sort((a, b) => a.sortKey.localeCompare(b.sortKey))
+        .flatMap(row => row.transactions);
+
+    return { transactions, unrecognised, skippedCount };
+};
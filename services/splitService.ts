@@ -0,0 +1,55 @@
+import { Category, Transaction, TransactionSplit } from '../types';
+
+// A transaction can be split into lines in different categories. Reports, budgets and strategies
+// count the lines instead of the transaction's own category; the lines always add up to the amount.
+
+export interface CategoryAmount {
+    category: Category;
+    amount: number;
+}
+
+const toCents = (value: number) => Math.round(value * 100);
+
+/**
+ * What a transaction spent in each category: its split lines, or the whole amount in its category.
+ */
+export const categoryAmounts = (tx: Pick<Transaction, 'category' | 'amount' | 'splits'>): CategoryAmount[] => {
+    const amount = typeof tx.amount === 'number' ? tx.amount : (Number(tx.amount) || 0);
+    if (!tx.splits || tx.splits.length === 0) return [{ category: tx.category, amount }];
+    return tx.splits.map(split => ({ category: split.category, amount: split.amount }));
+};
+
+/**
+ * Every category a transaction counts towards.
+ */
+export const transactionCategories = (tx: Pick<Transaction, 'category' | 'splits'>): Category[] => {
+    if (!tx.splits || tx.splits.length === 0) return [tx.category];
+    return Array.from(new Set(tx.splits.map(split => split.category)));
+};
+
+/**
+ * How much of the total the lines don't account for yet (negative when they come to more).
+ */
+export const splitRemainder = (total: number, splits: TransactionSplit[]): number => {
+    return (toCents(total) - splits.reduce((sum, split) => sum + toCents(split.amount || 0), 0)) / 100;
+};
+
+/**
+ * Why a set of split lines can't be saved, or null when they're fine.
+ */
+export const validateSplits = (total: number, splits: TransactionSplit[]): string | null => {
+    if (splits.length < 2) return 'A split needs at least two lines.';
+    if (splits.some(split => !split.category.trim())) return 'Every line needs a category.';
+    if (splits.some(split => !(split.amount > 0))) return 'Every line needs an amount above zero.';
+    const remainder = splitRemainder(total, splits);
+    if (remainder > 0) return `The lines are ${remainder.toLocaleString()} short of the total.`;
+    if (remainder < 0) return `The lines come to ${(-remainder).toLocaleString()} more than the total.`;
+    return null;
+};
+
+/**
+ * The category a split transaction is listed under: its largest line.
+ */
+export const primarySplitCategory = (splits: TransactionSplit[]): Category => {
+    return splits.reduce((largest, split) => split.amount > largest.amount ? split : largest).category;
+};
@@ -0,0 +1,93 @@
+import { ParsedTransaction, StatementChunk } from '../types';
+import { detectDelimiter, splitDelimitedLine } from './csvImportService';
+import { parseStatementChunk } from './geminiService';
+import { renderPdfPages } from './pdfTextService';
+
+// Splits statements for AI parsing into chunks that are parsed one after another.
+// Results are kept per chunk, so when one fails the rest survive and only the failures need another attempt.
+
+// Small enough that a chunk's JSON stays well inside the model's output limit.
+export const CSV_ROWS_PER_CHUNK = 150;
+
+const splitLines = (text: string) => text.split(/\r?\n/).filter(line => line.trim() !== '');
+
+// The header is the first of the opening lines with the most columns; bank exports often put
+// account details above it, which later chunks don't need.
+const findHeaderIndex = (lines: string[], delimiter: string): number => {
+    const opening = lines.slice(0, 20).map(line => splitDelimitedLine(line, delimiter).length);
+    return opening.indexOf(Math.max(...opening));
+};
+
+/**
+ * Splits CSV text into chunks of rows, each repeating the header so it can be read on its own.
+ */
+export const splitCsvIntoChunks = (text: string, rowsPerChunk = CSV_ROWS_PER_CHUNK): StatementChunk[] => {
+    const lines = splitLines(text);
+    if (lines.length === 0) return [];
+    const headerIndex = findHeaderIndex(lines, detectDelimiter(text));
+    const preamble = lines.slice(0, headerIndex + 1);
+    const rows = lines.slice(headerIndex + 1);
+    if (rows.length <= rowsPerChunk) {
+        return [{ label: 'statement', kind: 'csv', text: lines.join('\n') }];
+    }
+
+    const chunks: StatementChunk[] = [];
+    for (let start = 0; start < rows.length; start += rowsPerChunk) {
+        const slice = rows.slice(start, start + rowsPerChunk);
+        // The first chunk keeps everything above the header; later ones only need the header itself.
+        const head = start === 0 ? preamble : [lines[headerIndex]];
+        chunks.push({ label: `rows ${start + 1}-${start + slice.length}`, kind: 'csv', text: [...head, ...slice].join('\n') });
+    }
+    return chunks;
+};
+
+// Large enough for the model to read small print and tell the Debit and Credit columns apart.
+const PDF_PAGE_IMAGE_SIZE = 2000;
+
+/**
+ * One chunk per PDF page, each page rendered to an image so the model still sees the statement's columns.
+ * Works for scanned documents too.
+ */
+export const splitPdfIntoPageChunks = async (file: File, password?: string): Promise<StatementChunk[]> => {
+    const images = await renderPdfPages(file, PDF_PAGE_IMAGE_SIZE, password);
+    const baseName = file.name.replace(/\.pdf$/i, '');
+    return images.map((image, index) => ({
+        label: `page ${index + 1}`,
+        kind: 'document' as const,
+        file: new File([image], `${baseName}-page-${index + 1}.jpg`, { type: 'image/jpeg' }),
+    }));
+};
+
+export const wholeDocumentChunk = (file: File): StatementChunk => ({ label: file.name, kind: 'document', file });
+
+export interface ChunkedParseResult {
+    results: (ParsedTransaction[] | null)[]; // Per chunk; null where parsing failed
+    failed: number[];
+}
+
+/**
+ * Parses chunks in order, skipping those that already have results from an earlier attempt.
+ * @param previous Results from the last run, or an empty array for a fresh start.
+ * @param onProgress Called before each chunk is sent, with how many are finished so far.
+ */
+export const parseStatementChunks = async (
+    chunks: StatementChunk[],
+    previous: (ParsedTransaction[] | null)[],
+    onProgress: (finished: number, total: number, chunk: StatementChunk) => void,
+): Promise<ChunkedParseResult> => {
+    const results = chunks.map((_, index) => previous[index] || null);
+    const failed: number[] = [];
+    let finished = results.filter(Boolean).length;
+
+    for (let index = 0; index < chunks.length; index++) {
+        if (results[index]) continue;
+        onProgress(finished, chunks.length, chunks[index]);
+        try {
+            results[index] = await parseStatementChunk(chunks[index]);
+            finished++;
+        } catch (error) {
+            failed.push(index);
+        }
+    }
+    return { results, failed };
+};
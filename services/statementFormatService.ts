@@ -0,0 +1,176 @@
+import { ParsedTransaction, TransactionType } from '../types';
+import { parseAmountCell } from './csvImportService';
+
+// Local parsers for structured statement exports: OFX/QFX (internet banking, Quicken),
+// QIF (older finance tools) and ISO 20022 CAMT.053 XML. None of these need the AI.
+
+export type StatementFormat = 'ofx' | 'qif' | 'camt053';
+
+export const STATEMENT_FORMAT_LABELS: Record<StatementFormat, string> = {
+    ofx: 'OFX',
+    qif: 'QIF',
+    camt053: 'CAMT.053',
+};
+
+/**
+ * Works out which structured format a text file is in, by extension first and content second.
+ * @returns null for anything else (plain CSV, unknown XML).
+ */
+export const detectStatementFormat = (fileName: string, text: string): StatementFormat | null => {
+    const name = fileName.toLowerCase();
+    const head = text.slice(0, 2000);
+
+    if (name.endsWith('.ofx') || name.endsWith('.qfx') || /OFXHEADER|<OFX>/i.test(head)) return 'ofx';
+    if (name.endsWith('.qif') || /^\s*!Type:/i.test(head)) return 'qif';
+    if (/camt\.053|<BkToCstmrStmt>/i.test(head)) return 'camt053';
+    return null;
+};
+
+// --- OFX / QFX ---
+
+// OFX 1.x is SGML, so leaf elements often have no closing tag: read up to the next tag or line break.
+const ofxField = (block: string, tag: string): string | undefined => {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    const value = match?.[1].trim();
+    return value ? value.replace(/&amp;/g, '&') : undefined;
+};
+
+// DTPOSTED looks like 20251119, 20251119120000 or 20251119120000.000[+3:EAT]
+const ofxDate = (value: string | undefined): string => {
+    const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : '';
+};
+
+export const parseOfx = (text: string): ParsedTransaction[] => {
+    const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+
+    return blocks.flatMap(block => {
+        const amount = parseAmountCell(ofxField(block, 'TRNAMT'));
+        if (amount === null || amount === 0) return [];
+
+        const name = ofxField(block, 'NAME');
+        const memo = ofxField(block, 'MEMO');
+        const description = [name, memo && memo !== name ? memo : undefined].filter(Boolean).join(' - ') || 'Unknown Transaction';
+        const rawDate = ofxDate(ofxField(block, 'DTPOSTED'));
+
+        return [{
+            date: rawDate,
+            rawDate,
+            description,
+            merchant: name || description,
+            amount: Math.abs(amount),
+            type: amount < 0 ? TransactionType.Expense : TransactionType.Income,
+            category: undefined,
+            reference: ofxField(block, 'CHECKNUM') || ofxField(block, 'REFNUM'),
+            externalId: ofxField(block, 'FITID'),
+        }];
+    });
+};
+
+// --- QIF ---
+
+/**
+ * QIF records are blocks of single-letter fields ended by "^".
+ * Dates are left raw (QIF writers disagree on day/month order); the import flow detects the format.
+ */
+export const parseQif = (text: string): ParsedTransaction[] => {
+    const results: ParsedTransaction[] = [];
+    let record: Record<string, string> = {};
+
+    const flush = () => {
+        const amount = parseAmountCell(record.T || record.U);
+        if (amount !== null && amount !== 0) {
+            const payee = record.P;
+            const memo = record.M;
+            const category = record.L;
+            results.push({
+                date: '',
+                // Quicken writes 19/11'25 and pads with spaces, e.g. " 1/ 2/25".
+                rawDate: (record.D || '').replace(/'/g, '/').replace(/\s+/g, ''),
+                description: [payee, memo && memo !== payee ? memo : undefined].filter(Boolean).join(' - ') || 'Unknown Transaction',
+                merchant: payee,
+                amount: Math.abs(amount),
+                type: amount < 0 ? TransactionType.Expense : TransactionType.Income,
+                // "[Savings]" is QIF's notation for a transfer to another account.
+                category: category ? (/^\[.*\]$/.test(category) ? 'Internal Transfer' : category.split(':')[0]) : undefined,
+                reference: record.N,
+            });
+        }
+        record = {};
+    };
+
+    text.split(/\r?\n/).forEach(line => {
+        if (!line.trim() || line.startsWith('!')) return;
+        if (line.startsWith('^')) {
+            flush();
+            return;
+        }
+        const code = line[0];
+        // Split lines (S/E/$) describe parts of the same record; the total in T is what we import.
+        if (!record[code]) record[code] = line.slice(1).trim();
+    });
+    if (Object.keys(record).length > 0) flush();
+
+    return results;
+};
+
+// --- CAMT.053 ---
+
+const childText = (parent: Element, path: string[]): string | undefined => {
+    let current: Element | undefined = parent;
+    for (const tag of path) {
+        current = Array.from(current.children).find(child => child.localName === tag);
+        if (!current) return undefined;
+    }
+    return current.textContent?.trim() || undefined;
+};
+
+const descendantTexts = (parent: Element, tag: string): string[] => {
+    return Array.from(parent.getElementsByTagNameNS('*', tag))
+        .map(el => el.textContent?.trim() || '')
+        .filter(Boolean);
+};
+
+export const parseCamt053 = (text: string): ParsedTransaction[] => {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) return [];
+
+    return Array.from(doc.getElementsByTagNameNS('*', 'Ntry')).flatMap(entry => {
+        // Pending entries can still change or disappear; only booked ones are imported.
+        const status = childText(entry, ['Sts', 'Cd']) || childText(entry, ['Sts']);
+        if (status && status.toUpperCase() !== 'BOOK') return [];
+
+        const amount = parseAmountCell(childText(entry, ['Amt']));
+        if (amount === null || amount === 0) return [];
+
+        const isCredit = childText(entry, ['CdtDbtInd']) === 'CRDT';
+        const rawDate = (childText(entry, ['BookgDt', 'Dt']) || childText(entry, ['BookgDt', 'DtTm']) || childText(entry, ['ValDt', 'Dt']) || '').slice(0, 10);
+
+        // For money in, the other party is the debtor; for money out, the creditor.
+        const counterparty = Array.from(entry.getElementsByTagNameNS('*', isCredit ? 'Dbtr' : 'Cdtr'))
+            .map(party => childText(party, ['Nm']) || childText(party, ['Pty', 'Nm']))
+            .find(Boolean);
+        const remittance = descendantTexts(entry, 'Ustrd').join(' ');
+        const description = remittance || childText(entry, ['AddtlNtryInf']) || counterparty || 'Unknown Transaction';
+
+        return [{
+            date: rawDate,
+            rawDate,
+            description,
+            merchant: counterparty || description,
+            amount: Math.abs(amount),
+            type: isCredit ? TransactionType.Income : TransactionType.Expense,
+            category: undefined,
+            reference: descendantTexts(entry, 'EndToEndId')[0],
+            externalId: childText(entry, ['AcctSvcrRef']) || childText(entry, ['NtryRef']) || descendantTexts(entry, 'AcctSvcrRef')[0],
+        }];
+    });
+};
+
+export const parseStructuredStatement = (format: StatementFormat, text: string): ParsedTransaction[] => {
+    switch (format) {
+        case 'ofx': return parseOfx(text);
+        case 'qif': return parseQif(text);
+        case 'camt053': return parseCamt053(text);
+    }
+};
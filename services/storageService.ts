@@ -0,0 +1,603 @@
+import { Account, Attachment, Budget, Chama, Debt, LoyaltyCard, MigrationReport, QuarantinedRecord, SyncChange, SyncRecordMeta, Transaction, TransactionAuditEntry } from '../types';
+import { CollectionName, CurrentData, PersistedData, SCHEMA_VERSION, migratePersistedData } from './schemaMigrationService';
+import { SyncConflict, announceStoreChange, mergeConcurrentEdits } from './syncService';
+import { createId } from './idService';
+import { databaseName, settingNameForKey, storageKey } from './bookService';
+import { EncryptedPayload, checkPassphrase, createVaultKey, decryptValue, encryptValue, getActiveKey, getVaultConfig, isVaultEnabled, lockVault, saveVaultConfig, setActiveKey } from './vaultService';
+
+// IndexedDB persistence for the collections that grow with use. Each record is stored on its own,
+// so an edit writes only the records that changed instead of re-serialising the whole array.
+// Smaller settings (profile, categories, import profiles) stay in localStorage.
+// With the vault on, records and settings are stored sealed (see vaultService) and opened on read.
+// Everything here is in the open book's namespace (see bookService); names are the unprefixed ones.
+
+const DB_VERSION = 5;
+
+export interface StoreRecords {
+    transactions: Transaction;
+    accounts: Account;
+    budgets: Budget;
+    debts: Debt;
+    chamas: Chama;
+    loyaltyCards: LoyaltyCard;
+    quarantine: QuarantinedRecord;
+    syncMeta: SyncRecordMeta;
+    syncOutbox: SyncChange;
+    auditLog: TransactionAuditEntry;
+    attachments: Attachment;
+}
+
+export type StoreName = keyof StoreRecords;
+
+// Data stores. Their names match the localStorage keys they replace, so the first-run migration is a straight copy.
+export const STORE_NAMES: StoreName[] = ['transactions', 'accounts', 'budgets', 'debts', 'chamas', 'loyaltyCards'];
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Storage write was aborted.'));
+});
+
+// --- SEALING ---
+
+const VAULT_FIELD = '$vault';
+
+const isSealed = (value: unknown): value is { [VAULT_FIELD]: EncryptedPayload } => {
+    return !!value && typeof value === 'object' && VAULT_FIELD in value;
+};
+
+const requireKey = (key: CryptoKey | null): CryptoKey => {
+    if (!key) throw new Error('The vault is locked.');
+    return key;
+};
+
+// Sealed records keep their id in the clear, since it is the store's key path. Everything else,
+// including the indexed fields, is inside the ciphertext.
+const encodeRecord = async (record: { id: string }, key = getActiveKey()): Promise<unknown> => {
+    return key ? { id: record.id, [VAULT_FIELD]: await encryptValue(key, record) } : record;
+};
+
+// Plain records pass through, so data written before the vault was turned on still reads.
+const decodeRecord = async <T>(stored: unknown, key = getActiveKey()): Promise<T> => {
+    return isSealed(stored) ? decryptValue<T>(requireKey(key), stored[VAULT_FIELD]) : stored as T;
+};
+
+const decodeRecords = <T>(stored: unknown[], key = getActiveKey()): Promise<T[]> => Promise.all(stored.map(record => decodeRecord<T>(record, key)));
+
+// --- SETTINGS ---
+
+// Opened copies of sealed localStorage values, filled at unlock. Reads stay synchronous this way.
+const settingsCache = new Map<string, unknown>();
+// Every key read or written as a setting, so turning the vault on knows what to seal.
+const settingKeys = new Set<string>();
+// Latest write per key; sealing is async, so an older write must not land after a newer one.
+const settingWrites = new Map<string, number>();
+
+const parseStored = (name: string): unknown => {
+    try {
+        const item = window.localStorage.getItem(storageKey(name));
+        return item ? JSON.parse(item) : null;
+    } catch (error) {
+        console.error(error);
+        return null;
+    }
+};
+
+const sealSetting = async (value: unknown, key: CryptoKey | null): Promise<string> => {
+    return JSON.stringify(key ? { [VAULT_FIELD]: await encryptValue(key, value) } : value);
+};
+
+/**
+ * A localStorage setting, opened if it is sealed. Null when it is unset or the vault is locked.
+ */
+export const readSetting = (name: string): unknown => {
+    settingKeys.add(name);
+    if (settingsCache.has(name)) return settingsCache.get(name);
+    const value = parseStored(name);
+    return isSealed(value) ? null : value;
+};
+
+/**
+ * Saves a localStorage setting, sealed when the vault is on. Reads see the new value straight away.
+ */
+export const writeSetting = async (name: string, value: unknown): Promise<void> => {
+    settingKeys.add(name);
+    const key = getActiveKey();
+    if (!key) {
+        if (isVaultEnabled()) throw new Error('The vault is locked.');
+        window.localStorage.setItem(storageKey(name), JSON.stringify(value));
+        return;
+    }
+    settingsCache.set(name, value);
+    const version = (settingWrites.get(name) || 0) + 1;
+    settingWrites.set(name, version);
+    const text = await sealSetting(value, key);
+    if (settingWrites.get(name) === version) window.localStorage.setItem(storageKey(name), text);
+};
+
+export const removeSetting = (name: string) => {
+    settingsCache.delete(name);
+    settingWrites.set(name, (settingWrites.get(name) || 0) + 1); // Drops a sealed write still in flight
+    window.localStorage.removeItem(storageKey(name));
+};
+
+/**
+ * Re-reads a setting another tab changed (see the storage event), opening it if needed.
+ */
+export const refreshSetting = async (name: string): Promise<unknown> => {
+    const value = parseStored(name);
+    if (!isSealed(value)) {
+        settingsCache.delete(name);
+        return value;
+    }
+    const opened = await decryptValue(requireKey(getActiveKey()), value[VAULT_FIELD]);
+    settingsCache.set(name, opened);
+    return opened;
+};
+
+/**
+ * Reads a collection the way useLocalStorage stored it. Used for migration, and as the fallback
+ * when IndexedDB can't be opened (some private browsing modes).
+ */
+export const readLegacyCollection = <K extends StoreName>(name: K): StoreRecords[K][] => {
+    const parsed = readSetting(name);
+    return Array.isArray(parsed) ? parsed : [];
+};
+
+// Copies localStorage collections into the new stores inside the upgrade transaction, so a failed
+// copy aborts the upgrade and the old data is still there on the next attempt.
+const migrateFromLocalStorage = (upgrade: IDBTransaction): StoreName[] => {
+    const migrated: StoreName[] = [];
+    STORE_NAMES.forEach(name => {
+        if (window.localStorage.getItem(storageKey(name)) === null) return;
+        const store = upgrade.objectStore(name);
+        readLegacyCollection(name).forEach(record => {
+            store.put(record.id ? record : { ...record, id: createId() });
+        });
+        migrated.push(name);
+    });
+    return migrated;
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (databasePromise) return databasePromise;
+
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this browser.'));
+            return;
+        }
+        let migrated: StoreName[] = [];
+        const request = indexedDB.open(databaseName(), DB_VERSION);
+
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            const upgrade = request.transaction!;
+            if (event.oldVersion < 1) {
+                STORE_NAMES.forEach(name => db.createObjectStore(name, { keyPath: 'id' }));
+                const transactions = upgrade.objectStore('transactions');
+                transactions.createIndex('date', 'date');
+                transactions.createIndex('accountId', 'accountId');
+                transactions.createIndex('category', 'category');
+                migrated = migrateFromLocalStorage(upgrade);
+            }
+            if (event.oldVersion < 2) {
+                db.createObjectStore('quarantine', { keyPath: 'id' });
+            }
+            if (event.oldVersion < 3) {
+                // Shared ledger bookkeeping (see remoteSyncService).
+                db.createObjectStore('syncMeta', { keyPath: 'id' });
+                db.createObjectStore('syncOutbox', { keyPath: 'id' });
+            }
+            if (event.oldVersion < 4) {
+                db.createObjectStore('auditLog', { keyPath: 'id' }).createIndex('transactionId', 'transactionId');
+            }
+            if (event.oldVersion < 5) {
+                db.createObjectStore('attachments', { keyPath: 'id' });
+            }
+        };
+
+        request.onsuccess = () => {
+            // The upgrade has committed by now, so the old copies can go and free up the quota.
+            migrated.forEach(name => window.localStorage.removeItem(storageKey(name)));
+            resolve(request.result);
+        };
+        request.onerror = () => reject(request.error);
+    });
+
+    // Let a later call try again rather than caching the failure.
+    databasePromise.catch(() => { databasePromise = null; });
+    return databasePromise;
+};
+
+export const loadStore = async <K extends StoreName>(name: K): Promise<StoreRecords[K][]> => {
+    const db = await openDatabase();
+    const stored = await requestToPromise(db.transaction(name, 'readonly').objectStore(name).getAll());
+    return decodeRecords<StoreRecords[K]>(stored);
+};
+
+/**
+ * Reads specific records, e.g. the ones another tab just changed. Missing ids map to undefined.
+ */
+export const loadRecords = async <K extends StoreName>(name: K, ids: string[]): Promise<Map<string, StoreRecords[K] | undefined>> => {
+    const db = await openDatabase();
+    const store = db.transaction(name, 'readonly').objectStore(name);
+    const stored = await Promise.all(ids.map(id => requestToPromise<unknown>(store.get(id))));
+    const records = await Promise.all(stored.map(record => record === undefined ? undefined : decodeRecord<StoreRecords[K]>(record)));
+    return new Map(ids.map((id, index) => [id, records[index]]));
+};
+
+export interface SaveResult<T> {
+    merged: T[]; // Records that were combined with another tab's edit; the caller's state should take these
+    conflicts: SyncConflict[];
+}
+
+/**
+ * Writes changed records and deletes removed ones in a single transaction, then tells other tabs.
+ * When `bases` holds the version an edit started from and the stored record has changed since
+ * (another tab wrote it), the two edits are merged field by field instead of overwriting.
+ */
+export const saveStoreChanges = async <K extends StoreName>(
+    name: K,
+    put: StoreRecords[K][],
+    remove: string[],
+    bases?: Map<string, StoreRecords[K]>,
+): Promise<SaveResult<StoreRecords[K]>> => {
+    const result: SaveResult<StoreRecords[K]> = { merged: [], conflicts: [] };
+
+    // Sealing is async and an IndexedDB transaction closes at the first await, so the stored copies are
+    // read and merged first and the write follows in its own transaction.
+    const checkIds = put.filter(record => bases?.has(record.id)).map(record => record.id);
+    const stored = checkIds.length > 0 ? await loadRecords(name, checkIds) : new Map<string, StoreRecords[K] | undefined>();
+    const records = put.map(record => {
+        const base = bases?.get(record.id);
+        const current = stored.get(record.id);
+        if (!base || !current || JSON.stringify(current) === JSON.stringify(base)) return record;
+        const { merged, conflictingFields } = mergeConcurrentEdits(base, current, record);
+        result.merged.push(merged);
+        if (conflictingFields.length > 0) result.conflicts.push({ store: name, id: record.id, fields: conflictingFields });
+        return merged;
+    });
+    const encoded = await Promise.all(records.map(record => encodeRecord(record)));
+
+    const db = await openDatabase();
+    const tx = db.transaction(name, 'readwrite');
+    const store = tx.objectStore(name);
+    encoded.forEach(record => store.put(record));
+    remove.forEach(id => store.delete(id));
+
+    await transactionDone(tx);
+    announceStoreChange(name, [...put.map(record => record.id), ...remove]);
+    return result;
+};
+
+// --- TRANSACTION HISTORY ---
+
+/**
+ * Adds entries to the transaction change history. Without IndexedDB it is kept as a setting instead.
+ */
+export const appendAuditEntries = async (entries: TransactionAuditEntry[]): Promise<void> => {
+    if (entries.length === 0) return;
+    try {
+        await openDatabase();
+    } catch {
+        await writeSetting('auditLog', [...readLegacyCollection('auditLog'), ...entries]);
+        return;
+    }
+    await saveStoreChanges('auditLog', entries, []);
+};
+
+/**
+ * One transaction's change history, oldest first. Sealed entries have nothing to index on, so with the vault on every entry is opened and filtered.
+ */
+export const loadAuditTrail = async (transactionId: string): Promise<TransactionAuditEntry[]> => {
+    let entries: TransactionAuditEntry[];
+    try {
+        const db = await openDatabase();
+        const store = db.transaction('auditLog', 'readonly').objectStore('auditLog');
+        const request = isVaultEnabled() ? store.getAll() : store.index('transactionId').getAll(transactionId);
+        entries = await decodeRecords<TransactionAuditEntry>(await requestToPromise(request));
+    } catch {
+        entries = readLegacyCollection('auditLog');
+    }
+    return entries.filter(entry => entry.transactionId === transactionId).sort((a, b) => a.at.localeCompare(b.at) || a.id.localeCompare(b.id));
+};
+
+// --- ATTACHMENTS ---
+
+// Files are too large for localStorage, so attachments need IndexedDB; these reject without it.
+
+export const saveAttachment = async (attachment: Attachment): Promise<void> => {
+    await saveStoreChanges('attachments', [attachment], []);
+};
+
+export const saveAttachments = async (attachments: Attachment[]): Promise<void> => {
+    if (attachments.length === 0) return;
+    await saveStoreChanges('attachments', attachments, []);
+};
+
+/**
+ * The attachments with these ids, in the same order. Ids with nothing stored (e.g. a transaction
+ * restored on another device) are left out.
+ */
+export const loadAttachments = async (ids: string[]): Promise<Attachment[]> => {
+    if (ids.length === 0) return [];
+    const records = await loadRecords('attachments', ids);
+    return ids.map(id => records.get(id)).filter((attachment): attachment is Attachment => !!attachment);
+};
+
+export const deleteAttachments = async (ids: string[]): Promise<void> => {
+    if (ids.length === 0) return;
+    await saveStoreChanges('attachments', [], ids);
+};
+
+/**
+ * Deletes the stored attachments whose ids aren't in `referenced`. Ones created after `keepCreatedSince`
+ * stay, since a file added while a transaction is being edited is saved before the transaction is.
+ * @returns How many were deleted.
+ */
+export const deleteUnreferencedAttachments = async (referenced: Set<string>, keepCreatedSince: string): Promise<number> => {
+    let db: IDBDatabase;
+    try {
+        db = await openDatabase();
+    } catch {
+        return 0; // Without IndexedDB there are no attachments to clean up
+    }
+    const ids = await requestToPromise(db.transaction('attachments', 'readonly').objectStore('attachments').getAllKeys());
+    const unreferenced = ids.map(String).filter(id => !referenced.has(id));
+    if (unreferenced.length === 0) return 0;
+    const stale = (await loadAttachments(unreferenced)).filter(attachment => attachment.createdAt < keepCreatedSince).map(attachment => attachment.id);
+    await deleteAttachments(stale);
+    return stale.length;
+};
+
+// --- SCHEMA VERSION ---
+
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+const JOURNAL_KEY = 'journal';
+export const MIGRATION_REPORT_KEY = 'lastMigrationReport';
+
+// Collections that live in localStorage (see FinancialProvider) but are still versioned with the rest.
+const SETTINGS_KEYS = ['categories', 'categorizationExamples', 'importProfiles', 'importBatches', 'dismissedDuplicates'] as const;
+
+const replaceStore = async (db: IDBDatabase, name: StoreName, records: { id: string }[]) => {
+    const encoded = await Promise.all(records.map(record => encodeRecord(record)));
+    const tx = db.transaction(name, 'readwrite');
+    const store = tx.objectStore(name);
+    store.clear();
+    encoded.forEach(record => store.put(record));
+    return transactionDone(tx);
+};
+
+let preparePromise: Promise<MigrationReport | null> | null = null;
+
+/**
+ * Brings stored data up to SCHEMA_VERSION before anything reads it. Runs once per page load.
+ * @returns What the migration changed, or null when the data was already current.
+ */
+export const prepareStorage = (): Promise<MigrationReport | null> => {
+    if (!preparePromise) preparePromise = runSchemaMigration();
+    return preparePromise;
+};
+
+// A list setting as stored, before migration has checked what is in it.
+const readSettingList = (name: string): unknown[] => {
+    const value = readSetting(name);
+    return Array.isArray(value) ? value : [];
+};
+
+const runSchemaMigration = async (): Promise<MigrationReport | null> => {
+    const storedVersion = Number(window.localStorage.getItem(storageKey(SCHEMA_VERSION_KEY))) || 0;
+    if (storedVersion >= SCHEMA_VERSION) return null;
+
+    let db: IDBDatabase | null = null;
+    try {
+        db = await openDatabase();
+    } catch (error) {
+        // The stores fall back to localStorage in this case; migrate them there instead.
+        console.error(error);
+    }
+    const readCollection = async (name: StoreName): Promise<unknown[]> => {
+        return db ? decodeRecords<unknown>(await requestToPromise(db.transaction(name, 'readonly').objectStore(name).getAll())) : readLegacyCollection(name);
+    };
+
+    const persisted: PersistedData = {
+        transactions: await readCollection('transactions'),
+        accounts: await readCollection('accounts'),
+        budgets: await readCollection('budgets'),
+        debts: await readCollection('debts'),
+        chamas: await readCollection('chamas'),
+        loyaltyCards: await readCollection('loyaltyCards'),
+        categories: readSettingList('categories'),
+        categorizationExamples: readSettingList('categorizationExamples'),
+        importProfiles: readSettingList('importProfiles'),
+        importBatches: readSettingList('importBatches'),
+        dismissedDuplicates: readSettingList('dismissedDuplicates'),
+        userProfile: readSetting('userProfile'),
+    };
+
+    // A fresh install has nothing to upgrade; it starts on the current version.
+    const isEmpty = STORE_NAMES.every(name => persisted[name as CollectionName].length === 0) && !persisted.userProfile
+        && SETTINGS_KEYS.every(key => window.localStorage.getItem(storageKey(key)) === null);
+    if (isEmpty) {
+        window.localStorage.setItem(storageKey(SCHEMA_VERSION_KEY), String(SCHEMA_VERSION));
+        return null;
+    }
+
+    // Unversioned data is version 1.
+    const { data, quarantined, report } = migratePersistedData(persisted, storedVersion || 1);
+
+    for (const name of STORE_NAMES) {
+        const records = data[name as keyof CurrentData] as { id: string }[];
+        if (db) await replaceStore(db, name, records);
+        else await writeSetting(name, records);
+    }
+    if (quarantined.length > 0) {
+        if (db) await saveStoreChanges('quarantine', quarantined, []);
+        else await writeSetting('quarantine', [...readLegacyCollection('quarantine'), ...quarantined]);
+    }
+    for (const key of SETTINGS_KEYS) {
+        // Settings that were never saved stay unset, so their hooks still start from their defaults.
+        if (window.localStorage.getItem(storageKey(key)) !== null) await writeSetting(key, data[key]);
+    }
+    if (persisted.userProfile) await writeSetting('userProfile', data.userProfile);
+    // Undo history refers to records as they were stored before; replaying it over upgraded data isn't safe.
+    removeSetting(JOURNAL_KEY);
+
+    window.localStorage.setItem(storageKey(SCHEMA_VERSION_KEY), String(SCHEMA_VERSION));
+    window.localStorage.setItem(storageKey(MIGRATION_REPORT_KEY), JSON.stringify(report));
+    return report;
+};
+
+// --- VAULT ---
+
+/**
+ * Opens the vault: checks the passphrase, then opens the sealed settings so reads can stay synchronous.
+ * @returns False when the passphrase is wrong.
+ */
+export const unlockStorage = async (passphrase: string): Promise<boolean> => {
+    const key = await checkPassphrase(passphrase);
+    if (!key) return false;
+    const names = Object.keys(window.localStorage).map(key => settingNameForKey(key)).filter((name): name is string => name !== null);
+    const sealed = names.map(name => [name, parseStored(name)] as const).filter(([, value]) => isSealed(value));
+    for (const [name, value] of sealed) {
+        settingsCache.set(name, await decryptValue(key, value[VAULT_FIELD]));
+        settingKeys.add(name);
+    }
+    setActiveKey(key);
+    return true;
+};
+
+export const lockStorage = () => {
+    lockVault();
+    settingsCache.clear();
+};
+
+// Reads everything with the current key and rewrites it under `nextKey` (or in the clear when null).
+// All of it is re-encoded before anything is written, and the stores are replaced in one transaction,
+// so a failure part way leaves the data readable with the old key.
+const resealEverything = async (nextKey: CryptoKey | null) => {
+    const currentKey = getActiveKey();
+    let db: IDBDatabase | null = null;
+    try {
+        db = await openDatabase();
+    } catch (error) {
+        // Collections are settings in this case and get resealed with them.
+        console.error(error);
+    }
+
+    const storeNames: StoreName[] = [...STORE_NAMES, 'quarantine', 'syncMeta', 'syncOutbox', 'auditLog', 'attachments'];
+    const stores: unknown[][] = [];
+    if (db) {
+        for (const name of storeNames) {
+            const records = await decodeRecords<{ id: string }>(await requestToPromise(db.transaction(name, 'readonly').objectStore(name).getAll()), currentKey);
+            stores.push(await Promise.all(records.map(record => encodeRecord(record, nextKey))));
+        }
+    }
+    const settings: { name: string; value: unknown; text: string }[] = [];
+    for (const name of settingKeys) {
+        if (window.localStorage.getItem(storageKey(name)) === null) continue;
+        const value = readSetting(name);
+        settings.push({ name, value, text: await sealSetting(value, nextKey) });
+    }
+
+    if (db) {
+        const tx = db.transaction(storeNames, 'readwrite');
+        storeNames.forEach((name, index) => {
+            const store = tx.objectStore(name);
+            store.clear();
+            stores[index].forEach(record => store.put(record));
+        });
+        await transactionDone(tx);
+    }
+    settings.forEach(({ name, value, text }) => {
+        window.localStorage.setItem(storageKey(name), text);
+        if (nextKey) settingsCache.set(name, value);
+        else settingsCache.delete(name);
+    });
+    setActiveKey(nextKey);
+};
+
+/**
+ * Turns the vault on and encrypts everything already stored under a key derived from `passphrase`.
+ */
+export const enableEncryption = async (passphrase: string, autoLockMinutes: number): Promise<void> => {
+    if (isVaultEnabled()) throw new Error('The vault is already on.');
+    const { key, config } = await createVaultKey(passphrase, autoLockMinutes);
+    await resealEverything(key);
+    saveVaultConfig(config);
+};
+
+/**
+ * Re-encrypts everything under a new passphrase. The old passphrase stops working once this returns.
+ */
+export const changeEncryptionPassphrase = async (currentPassphrase: string, nextPassphrase: string): Promise<void> => {
+    const config = getVaultConfig();
+    if (!config || !(await checkPassphrase(currentPassphrase))) throw new Error('The current passphrase is incorrect.');
+    const { key, config: nextConfig } = await createVaultKey(nextPassphrase, config.autoLockMinutes);
+    await resealEverything(key);
+    saveVaultConfig(nextConfig);
+};
+
+/**
+ * Decrypts everything back to plain storage and turns the vault off.
+ */
+export const disableEncryption = async (passphrase: string): Promise<void> => {
+    if (!(await checkPassphrase(passphrase))) throw new Error('The passphrase is incorrect.');
+    await resealEverything(null);
+    saveVaultConfig(null);
+};
+
+// --- OTHER BOOKS ---
+
+// Opens a book's database without creating or upgrading it. Null when the book has never been opened.
+const openExistingDatabase = (bookId: string): Promise<IDBDatabase | null> => new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+    }
+    const request = indexedDB.open(databaseName(bookId));
+    let isNew = false;
+    request.onupgradeneeded = () => {
+        isNew = true;
+        request.transaction!.abort();
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => isNew ? resolve(null) : reject(request.error);
+});
+
+/**
+ * Reads the records another book needs for its totals, without opening it in this tab.
+ * @param passphrase Required when that book has its vault on; it is used once and not kept.
+ */
+export const readBookData = async (bookId: string, passphrase?: string): Promise<{ accounts: Account[]; transactions: Transaction[]; debts: Debt[] }> => {
+    let key: CryptoKey | null = null;
+    if (isVaultEnabled(bookId)) {
+        key = passphrase ? await checkPassphrase(passphrase, bookId) : null;
+        if (!key) throw new Error(passphrase ? 'That passphrase is not right.' : 'This book is encrypted.');
+    }
+
+    const db = await openExistingDatabase(bookId);
+    const read = async <T>(name: 'accounts' | 'transactions' | 'debts'): Promise<T[]> => {
+        if (db?.objectStoreNames.contains(name)) {
+            return decodeRecords<T>(await requestToPromise(db.transaction(name, 'readonly').objectStore(name).getAll()), key);
+        }
+        // Kept in localStorage: the book predates IndexedDB here, or IndexedDB was unavailable.
+        const item = window.localStorage.getItem(storageKey(name, bookId));
+        const stored = item ? JSON.parse(item) : null;
+        const value = isSealed(stored) ? await decryptValue(requireKey(key), stored[VAULT_FIELD]) : stored;
+        return Array.isArray(value) ? value : [];
+    };
+    try {
+        return { accounts: await read<Account>('accounts'), transactions: await read<Transaction>('transactions'), debts: await read<Debt>('debts') };
+    } finally {
+        db?.close();
+    }
+};
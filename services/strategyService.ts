@@ -1,16 +1,26 @@
 import { Transaction, Budget, UserProfile, Category, TransactionType, GOAL_LABELS, SpendingStats, StrategyProposal } from '../types';
 import { generateAiInsights } from './geminiService';
+import { categoryAmounts } from './splitService';
+import { feeTotal } from './feeLinkingService';
+import { FEE_CATEGORY } from '../constants';
 
 // --- LOCAL MATH LOGIC (0 Tokens) ---
 
 const calculateStatistics = (transactions: Transaction[]): SpendingStats[] => {
     const categoryMap: Record<string, number[]> = {};
 
-    // 1. Group amounts by category
+    // 1. Group amounts by category (split lines count separately, linked fees under their own category)
     transactions.forEach(t => {
+        const fees = feeTotal(t);
+        if (fees !== 0) {
+            if (!categoryMap[FEE_CATEGORY]) categoryMap[FEE_CATEGORY] = [];
+            categoryMap[FEE_CATEGORY].push(fees);
+        }
         if (t.type === TransactionType.Expense && !t.isTransfer) {
-            if (!categoryMap[t.category]) categoryMap[t.category] = [];
-            categoryMap[t.category].push(t.amount);
+            categoryAmounts(t).forEach(({ category, amount }) => {
+                if (!categoryMap[category]) categoryMap[category] = [];
+                categoryMap[category].push(amount);
+            });
         }
     });
 
@@ -61,13 +71,10 @@ export const generateStrategies = async (
 ): Promise<StrategyProposal[]> => {
     if (!userProfile || transactions.length === 0) return [];
 
-    // 1. Filter "Noise" (Transfers)
-    const cleanTransactions = transactions.filter(t => !t.isTransfer);
-
-    // 2. Calculate Local Stats
-    const stats = calculateStatistics(cleanTransactions);
+    // 1. Calculate Local Stats (transfers are left out, but the fees charged on them still count)
+    const stats = calculateStatistics(transactions);
 
-    // 3. Identify "Focus Areas" (Anomalies)
+    // 2. Identify "Focus Areas" (Anomalies)
     // *Heuristic: Assume income is roughly sum of all 'income' txs or 50k if unknown*
     const incomeTx = transactions.filter(t => t.type === TransactionType.Income);
     const estimatedIncome = incomeTx.reduce((sum, t) => sum + t.amount, 0) || 50000;
@@ -79,7 +86,7 @@ export const generateStrategies = async (
         focusAreas.push(...stats.sort((a, b) => b.totalSpent - a.totalSpent).slice(0, 3));
     }
 
-    // 4. AI Insight Generation (The "Brain")
+    // 3. AI Insight Generation (The "Brain")
     // We only send the Focus Areas to save tokens
     try {
         const proposals = await generateAiInsights(focusAreas, userProfile, estimatedIncome);
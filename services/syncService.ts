@@ -0,0 +1,108 @@
+import type { StoreName } from './storageService';
+import { getActiveBookId } from './bookService';
+
+// Keeps open tabs in step. After a tab commits changes to a store it announces the changed ids;
+// other tabs re-read just those records from IndexedDB and merge them into their state.
+// Messages carry ids only, so the database stays the single source of truth.
+
+const CHANNEL_NAME = 'shilling-sense-sync';
+// Used when BroadcastChannel is unavailable: writing this key fires a storage event in other tabs.
+const FALLBACK_KEY = 'shillingSenseSync';
+
+export const TAB_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+interface StoreChangeMessage {
+    tabId: string;
+    bookId: string; // Tabs can have different books open; their stores share names
+    store: StoreName;
+    ids: string[];
+}
+
+export interface SyncConflict {
+    store: StoreName;
+    id: string;
+    fields: string[]; // Fields both tabs changed to different values; this tab's values were kept
+}
+
+type Listener = (ids: string[]) => void;
+
+const listeners = new Map<StoreName, Set<Listener>>();
+let channel: BroadcastChannel | null = null;
+let isListening = false;
+
+const deliver = (message: StoreChangeMessage) => {
+    if (!message || message.tabId === TAB_ID || message.bookId !== getActiveBookId()) return;
+    listeners.get(message.store)?.forEach(listener => listener(message.ids));
+};
+
+const startListening = () => {
+    if (isListening) return;
+    isListening = true;
+    if (typeof BroadcastChannel !== 'undefined') {
+        channel = new BroadcastChannel(CHANNEL_NAME);
+        channel.onmessage = event => deliver(event.data);
+    } else {
+        window.addEventListener('storage', event => {
+            if (event.key !== FALLBACK_KEY || !event.newValue) return;
+            try {
+                deliver(JSON.parse(event.newValue));
+            } catch (error) {
+                console.error(error);
+            }
+        });
+    }
+};
+
+/**
+ * Tells other tabs that these records were written or deleted. Call after the write has committed.
+ */
+export const announceStoreChange = (store: StoreName, ids: string[]) => {
+    if (ids.length === 0) return;
+    startListening();
+    const message: StoreChangeMessage = { tabId: TAB_ID, bookId: getActiveBookId(), store, ids };
+    if (channel) {
+        channel.postMessage(message);
+    } else {
+        try {
+            window.localStorage.setItem(FALLBACK_KEY, JSON.stringify({ ...message, sentAt: Date.now() }));
+        } catch (error) {
+            console.error(error);
+        }
+    }
+};
+
+/**
+ * Calls `listener` with the ids another tab changed in `store`.
+ * @returns Unsubscribe function.
+ */
+export const subscribeToStoreChanges = (store: StoreName, listener: Listener): (() => void) => {
+    startListening();
+    if (!listeners.has(store)) listeners.set(store, new Set());
+    listeners.get(store)!.add(listener);
+    return () => { listeners.get(store)?.delete(listener); };
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Three-way merge of one record edited in two tabs at once.
+ * Fields only one side changed take that side's value; fields both changed keep `ours`.
+ * @param base The record as this tab last saw it before its edit.
+ * @param theirs What another tab has stored since.
+ * @param ours This tab's edited version.
+ */
+export const mergeConcurrentEdits = <T extends object>(base: T, theirs: T, ours: T): { merged: T; conflictingFields: string[] } => {
+    const merged = { ...theirs } as Record<string, unknown>;
+    const conflictingFields: string[] = [];
+    const b = base as Record<string, unknown>;
+    const t = theirs as Record<string, unknown>;
+    const o = ours as Record<string, unknown>;
+
+    new Set([...Object.keys(b), ...Object.keys(t), ...Object.keys(o)]).forEach(field => {
+        if (sameValue(o[field], b[field])) return; // We didn't touch it: keep theirs
+        if (o[field] === undefined) delete merged[field];
+        else merged[field] = o[field];
+        if (!sameValue(t[field], b[field]) && !sameValue(t[field], o[field])) conflictingFields.push(field);
+    });
+    return { merged: merged as T, conflictingFields };
+};
@@ -0,0 +1,61 @@
+import { TagTotal, Transaction, TransactionType } from '../types';
+import { feeTotal } from './feeLinkingService';
+
+// Tags are free-form labels for things that cut across categories ("wedding 2026", "reimbursable").
+// They are stored lowercased with single spaces, so "Work " and "work" are the same tag.
+
+export const normalizeTag = (raw: string): string => raw.trim().replace(/^#/, '').replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Tags typed as a comma-separated list, normalized and without repeats.
+ */
+export const parseTags = (input: string): string[] => {
+    return Array.from(new Set(input.split(',').map(normalizeTag).filter(Boolean)));
+};
+
+export const hasTag = (tx: Pick<Transaction, 'tags'>, tag: string): boolean => !!tx.tags?.includes(normalizeTag(tag));
+
+/**
+ * Every tag in use, most used first.
+ */
+export const collectTags = (transactions: Transaction[]): string[] => {
+    const counts = new Map<string, number>();
+    transactions.forEach(tx => tx.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+};
+
+/**
+ * A copy of the transaction with tags added and removed, or the same object when nothing changes.
+ */
+export const retagTransaction = (tx: Transaction, add: string[], remove: string[] = []): Transaction => {
+    const current = tx.tags || [];
+    const next = Array.from(new Set([...current.filter(tag => !remove.includes(tag)), ...add]));
+    if (next.length === current.length && next.every(tag => current.includes(tag))) return tx;
+    if (next.length > 0) return { ...tx, tags: next };
+    const { tags, ...rest } = tx;
+    return rest;
+};
+
+/**
+ * Money out and in per tag. Transfers between own accounts are left out, as in the other reports,
+ * but fees count as money spent, including fees on a transfer.
+ */
+export const calculateTagTotals = (transactions: Transaction[]): TagTotal[] => {
+    const totals = new Map<string, TagTotal>();
+    transactions.forEach(tx => {
+        if (!tx.tags?.length) return;
+        const fees = feeTotal(tx);
+        // A transfer between own accounts only counts for its fees.
+        if (tx.isTransfer && fees === 0) return;
+        const amount = tx.isTransfer ? 0 : typeof tx.amount === 'number' ? tx.amount : (Number(tx.amount) || 0);
+        tx.tags.forEach(tag => {
+            const total = totals.get(tag) || { tag, spent: 0, received: 0, count: 0 };
+            if (tx.type === TransactionType.Income) total.received += amount;
+            else total.spent += amount;
+            total.spent += fees;
+            total.count += 1;
+            totals.set(tag, total);
+        });
+    });
+    return Array.from(totals.values()).sort((a, b) => b.spent - a.spent || b.received - a.received);
+};
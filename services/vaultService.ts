@@ -0,0 +1,136 @@
+// Passphrase-based encryption for data at rest (WebCrypto PBKDF2 + AES-GCM).
+// The derived key only ever lives in memory; locking forgets it. What is stored is the salt and an
+// encrypted check value, enough to tell a wrong passphrase from a right one without storing either.
+// Each book has its own vault and passphrase.
+
+import { storageKey } from './bookService';
+
+export const VAULT_CONFIG_KEY = 'vault';
+const PBKDF2_ITERATIONS = 310000;
+const VERIFIER_TEXT = 'shilling-sense-vault';
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+export interface EncryptedPayload {
+    iv: string; // base64
+    data: string; // base64 AES-GCM ciphertext
+}
+
+export interface VaultConfig {
+    salt: string; // base64
+    iterations: number;
+    verifier: EncryptedPayload;
+    autoLockMinutes: number; // 0 turns auto-lock off
+    createdAt: string;
+}
+
+let activeKey: CryptoKey | null = null;
+
+const toBase64 = (bytes: Uint8Array) => {
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+export const getVaultConfig = (bookId?: string): VaultConfig | null => {
+    try {
+        const item = window.localStorage.getItem(storageKey(VAULT_CONFIG_KEY, bookId));
+        return item ? JSON.parse(item) : null;
+    } catch (error) {
+        console.error(error);
+        return null;
+    }
+};
+
+export const saveVaultConfig = (config: VaultConfig | null) => {
+    if (config) window.localStorage.setItem(storageKey(VAULT_CONFIG_KEY), JSON.stringify(config));
+    else window.localStorage.removeItem(storageKey(VAULT_CONFIG_KEY));
+};
+
+export const isVaultEnabled = (bookId?: string) => getVaultConfig(bookId) !== null;
+export const isVaultUnlocked = () => activeKey !== null;
+export const getActiveKey = () => activeKey;
+export const setActiveKey = (key: CryptoKey | null) => { activeKey = key; };
+
+export const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+};
+
+export const encryptValue = async (key: CryptoKey, value: unknown): Promise<EncryptedPayload> => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+export const decryptValue = async <T = unknown>(key: CryptoKey, payload: EncryptedPayload): Promise<T> => {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+    return JSON.parse(new TextDecoder().decode(data));
+};
+
+/**
+ * Derives a key with a fresh salt and builds the config that goes with it. Nothing is saved yet.
+ */
+export const createVaultKey = async (passphrase: string, autoLockMinutes: number): Promise<{ key: CryptoKey; config: VaultConfig }> => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    return {
+        key,
+        config: {
+            salt: toBase64(salt),
+            iterations: PBKDF2_ITERATIONS,
+            verifier: await encryptValue(key, VERIFIER_TEXT),
+            autoLockMinutes,
+            createdAt: new Date().toISOString(),
+        },
+    };
+};
+
+/**
+ * The key for `passphrase` if it opens the vault (the open book's unless `bookId` is given), otherwise null. Does not unlock anything.
+ */
+export const checkPassphrase = async (passphrase: string, bookId?: string): Promise<CryptoKey | null> => {
+    const config = getVaultConfig(bookId);
+    if (!config) return null;
+    const key = await deriveKey(passphrase, fromBase64(config.salt), config.iterations);
+    try {
+        return (await decryptValue(key, config.verifier)) === VERIFIER_TEXT ? key : null;
+    } catch {
+        // AES-GCM rejects ciphertext under the wrong key.
+        return null;
+    }
+};
+
+export const lockVault = () => { activeKey = null; };
+
+// A value sealed under its own passphrase rather than the vault's, e.g. an exported backup.
+export interface PassphraseSealedValue extends EncryptedPayload {
+    salt: string; // base64
+    iterations: number;
+}
+
+export const sealWithPassphrase = async (passphrase: string, value: unknown): Promise<PassphraseSealedValue> => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    return { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, ...(await encryptValue(key, value)) };
+};
+
+/**
+ * Opens a value from sealWithPassphrase. Throws when the passphrase is wrong.
+ */
+export const openWithPassphrase = async <T = unknown>(passphrase: string, sealed: PassphraseSealedValue): Promise<T> => {
+    const key = await deriveKey(passphrase, fromBase64(sealed.salt), sealed.iterations);
+    try {
+        return await decryptValue<T>(key, sealed);
+    } catch {
+        throw new Error('That passphrase does not open this file.');
+    }
+};
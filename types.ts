@@ -32,6 +32,30 @@ export interface Transaction {
   description: string;
   logoUrl?: string;
   isTransfer?: boolean;
+  reference?: string; // Bank reference from the statement, when the import mapped one
+  externalId?: string; // Stable ID from the source, e.g. an M-PESA receipt number
+  importBatchId?: string; // ImportBatch this row came from; unset for manual entries
+  fees?: TransactionFee[]; // Charges and duty the statement listed as separate rows
+  splits?: TransactionSplit[]; // When set, the amount broken down by category; `category` is then the largest line
+  tags?: string[]; // Lowercase labels that cut across categories, e.g. "wedding 2026"
+  notes?: string;
+  attachmentIds?: string[]; // Receipts and documents kept on this device (see Attachment)
+}
+
+// One part of a split transaction, e.g. the airtime on a supermarket receipt.
+export interface TransactionSplit {
+  category: Category;
+  amount: number;
+  note?: string;
+}
+
+export type FeeKind = 'charge' | 'excise_duty';
+
+export interface TransactionFee {
+  kind: FeeKind;
+  amount: number; // Positive for a cost, negative when the bank refunds it
+  description: string;
+  externalId?: string;
 }
 
 export interface CategorizationExample {
@@ -44,8 +68,234 @@ export interface ParsedTransaction {
   amount: number;
   category?: Category;
   type: TransactionType;
-  date: string; // YYYY-MM-DD
+  date: string; // YYYY-MM-DD, empty when the source date could not be read
   description: string;
+  rawDate?: string; // Date cell exactly as it appeared in the statement
+  dateUnparsed?: boolean;
+  dateEdited?: boolean; // Set by hand during review, so changing the date format leaves it alone
+  balance?: number; // Running balance printed on the statement row
+  reference?: string;
+  externalId?: string; // Stable ID from the source, e.g. an M-PESA receipt number
+  categorySource?: ChangeSource; // What picked the category, recorded in the transaction's history
+}
+
+export type DateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD' | 'DD-MMM-YY' | 'MPESA_COMPLETION_TIME';
+
+// --- STATEMENT IMPORT PROFILES ---
+
+export type ImportColumn = 'date' | 'description' | 'debit' | 'credit' | 'amount' | 'balance' | 'reference';
+
+export interface ImportProfile {
+  id: string;
+  name: string; // e.g. "Equity Bank CSV"
+  accountId: string;
+  headerFingerprint: string; // Normalised header row, used to recognise the bank's export
+  delimiter: string;
+  skipHeaderRows: number; // Preamble lines above the header row
+  skipFooterRows: number; // Summary lines below the last transaction
+  columns: Partial<Record<ImportColumn, number>>; // Column index for each field
+  dateFormat?: DateFormat;
+  createdAt: string;
+}
+
+// Rows parsed outside the import modal (e.g. pasted SMS), handed to its review step.
+export interface PreparsedImport {
+  accountId: string;
+  transactions: ParsedTransaction[];
+  label: string;
+  source: string; // Shown as the file name in import history, e.g. "Pasted SMS"
+}
+
+// A slice of a statement sent to the AI on its own, so long files stay within output limits.
+export interface StatementChunk {
+  label: string; // Used in progress and retry messages, e.g. "rows 151-300" or "page 4"
+  kind: 'csv' | 'document';
+  text?: string; // CSV rows, with the header repeated
+  file?: File; // A rendered PDF page, or the whole document (an image, or a PDF that couldn't be split)
+}
+
+// --- IMPORT HISTORY ---
+
+export interface ImportSource {
+  fileName: string;
+  parser: string; // e.g. "OFX", "M-PESA statement (PDF)", "AI"
+}
+
+// Loyalty card as it was before an import touched it, so a rollback can put it back.
+export interface LoyaltyCardChange {
+  cardId: string;
+  previous: LoyaltyCard | null; // null when the import created the card
+  applied: LoyaltyCard;
+}
+
+export interface ImportBatch extends ImportSource {
+  id: string;
+  accountId: string;
+  importedCount: number;
+  skippedCount: number;
+  createdAt: string; // ISO timestamp
+  addedCategories: Category[];
+  loyaltyCardChanges: LoyaltyCardChange[];
+  rolledBackAt?: string;
+}
+
+// --- DATA SCHEMA ---
+
+// A stored record the schema migration could not upgrade. Kept as found so nothing is lost.
+export interface QuarantinedRecord {
+  id: string;
+  collection: string; // Where it was stored, e.g. "transactions"
+  record: unknown;
+  reason: string;
+  schemaVersion: number; // Version the record was being upgraded from
+  quarantinedAt: string;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  changes: string[]; // One line per collection, e.g. "budgets: 4 upgraded"
+  upgradedCount: number;
+  quarantinedCount: number;
+  ranAt: string;
+}
+
+// --- CHANGE HISTORY ---
+
+// What made a change: the person using the app, on-device rules, the AI, a statement import, another
+// device through sync, undo/redo, or restoring a backup.
+export type ChangeSource = 'user' | 'heuristic' | 'ai' | 'import' | 'sync' | 'undo' | 'restore';
+
+// One field of one transaction changing value. Adding and removing the transaction are recorded with
+// the "$created" and "$deleted" pseudo-fields.
+export interface TransactionAuditEntry {
+  id: string;
+  transactionId: string;
+  field: string;
+  from: unknown; // null when the field was unset
+  to: unknown;
+  source: ChangeSource;
+  note?: string; // e.g. the statement file for an import
+  at: string;
+}
+
+// A row ready to import, carrying what picked its category so the history can say so.
+export type ImportedTransaction = Omit<Transaction, 'id'> & { categorySource?: ChangeSource };
+
+// --- BULK EDITING ---
+
+// Changes applied to every selected transaction at once; fields left out are untouched.
+export interface BulkTransactionChanges {
+  category?: Category;
+  accountId?: string;
+  isTransfer?: boolean;
+}
+
+// --- SEARCH ---
+
+export type AmountComparison = '>' | '>=' | '<' | '<=' | '=';
+
+// A search box query broken into its parts (see searchService). Values of the same filter are
+// alternatives; different filters and free-text words must all match.
+export interface TransactionSearch {
+  text: string[]; // Words to find in the merchant, description or notes
+  merchants: string[];
+  categories: string[];
+  accounts: string[]; // Account names
+  tags: string[];
+  types: TransactionType[];
+  amounts: { comparison: AmountComparison; value: number }[];
+  before?: string; // YYYY-MM-DD, exclusive
+  after?: string; // YYYY-MM-DD, exclusive
+  on?: string; // YYYY-MM-DD
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  createdAt: string;
+}
+
+// --- ATTACHMENTS ---
+
+// A receipt, invoice or other document kept with a transaction. The file lives in this device's
+// database and in backups; the shared ledger carries the transaction's reference to it, not the file.
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // Bytes
+  dataUrl: string;
+  thumbnailUrl?: string; // Small JPEG preview of an image or a PDF's first page
+  createdAt: string;
+}
+
+// --- BOOKS ---
+
+// A separate set of finances kept in the same install, e.g. personal, a side business, a parent's.
+export interface Book {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface BookTotals {
+  balance: number; // Sum of account balances
+  owedToMe: number;
+  owedByMe: number;
+  netWorth: number;
+}
+
+// --- SHARED LEDGER SYNC ---
+
+export type SyncCollection = 'accounts' | 'transactions' | 'budgets' | 'debts' | 'chamas' | 'loyaltyCards' | 'categories';
+
+// One record-level change in a ledger's log. `fields` holds only what changed; null clears a field and
+// "$deleted" marks a deletion. Each field is resolved on its own, the later clock winning.
+export interface SyncChange {
+  id: string;
+  deviceId: string;
+  collection: SyncCollection;
+  recordId: string; // For categories, the category name
+  fields: Record<string, unknown>;
+  clock: string; // Hybrid logical clock, comparable as a string
+  baseSeq: number; // Last server sequence number the device had pulled when it made the change
+  seq?: number; // Position in the server log, once accepted
+}
+
+// Clock of the value a record field currently holds, and, when it came from this device, the change it was sent in.
+export interface SyncFieldStamp {
+  clock: string;
+  changeId?: string;
+  baseSeq?: number;
+  seq?: number;
+}
+
+export interface SyncRecordMeta {
+  id: string; // `${collection}:${recordId}`
+  fields: Record<string, SyncFieldStamp>;
+}
+
+// Both devices changed the same field without seeing each other's edit. The later one was kept.
+export interface SyncFieldConflict {
+  id: string;
+  collection: SyncCollection;
+  recordId: string;
+  field: string;
+  recordLabel: string; // e.g. the transaction's merchant, for the review list
+  keptValue: unknown;
+  otherValue: unknown;
+  keptFrom: 'this_device' | 'other_device';
+  detectedAt: string;
+}
+
+export interface RemoteSyncSettings {
+  serverUrl: string;
+  serverToken?: string; // Only for servers started with SYNC_SERVER_TOKEN
+  ledgerId: string; // Shared by every device on the ledger; treat it like a password
+  deviceId: string;
+  enabled: boolean;
 }
 
 export interface EnrichedMerchantInfo {
@@ -121,6 +371,14 @@ export interface AppContextData {
   chamas: Chama[];
 }
 
+// What was spent and received under one tag.
+export interface TagTotal {
+  tag: string;
+  spent: number;
+  received: number;
+  count: number;
+}
+
 export interface SpendingStats {
   category: Category;
   totalSpent: number;